@@ -1,17 +1,38 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { Suspense, useState, useEffect } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useWallet } from '@/lib/hooks/useWallet';
 import {
-  usePendingApprovals,
+  usePaginatedPendingApprovals,
   useUser,
   useTransaction,
   useProcessApproval,
+  useProcessApprovalsBatch,
+  useExpireApproval,
+  BulkResult,
+  DEFAULT_PAGE_SIZE,
   useAllTransactions,
+  useAllUsers,
+  useTokens,
 } from '@/lib/hooks/useContract';
-import { UserRole, Approval, Transaction } from '@/types/contracts';
-import { formatTokenAmount, formatAddress } from '@/lib/web3/provider';
+import { usePagination } from '@/lib/hooks/usePagination';
+import { useRoleGuard } from '@/lib/hooks/useRoleGuard';
+import { useApprovalAuthority } from '@/lib/hooks/useApprovalAuthority';
+import { useUrlFilters } from '@/lib/hooks/useUrlFilters';
+import { filterApprovals, filterTransactions } from '@/lib/filters';
+import {
+  ApprovalFilterFormData,
+  approvalFilterSchema,
+} from '@/lib/schemas/forms';
+import { exportApprovals, exportTransactions } from '@/lib/reports';
+import {
+  UserRole,
+  Approval,
+  ApprovalType,
+  Transaction,
+} from '@/types/contracts';
+import { formatAddress } from '@/lib/web3/provider';
 import { TransactionStatus } from '@/types/contracts';
 import {
   Card,
@@ -39,8 +60,16 @@ import {
   TableHeader,
   TableRow,
 } from '@/components/ui/table';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { ExportMenu } from '@/components/ui/export-menu';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { LoadingPage } from '@/components/ui/loading-spinner';
+import { ApprovalProgress } from '@/components/approvals/ApprovalProgress';
+import { ApprovalPoliciesCard } from '@/components/approvals/ApprovalPoliciesCard';
+import { DelegationCard } from '@/components/approvals/DelegationCard';
+import { TokenAmount, TokenSymbol } from '@/components/web3/TokenAmount';
+import { FilterBar, FilterOption } from '@/components/filters/FilterBar';
 import {
   CheckSquare,
   Clock,
@@ -50,14 +79,79 @@ import {
   XCircle,
   AlertTriangle,
   Loader2,
+  Shield,
+  TimerOff,
 } from 'lucide-react';
 
 interface ApprovalActionDialogProps {
   approval: Approval;
-  transaction: Transaction;
+  transaction?: Transaction;
   onClose: () => void;
 }
 
+// Human-readable summary of a UserRole / SystemConfig change request
+const describeChange = (approval: Approval) => {
+  if (approval.roleChange) {
+    return `Promote ${formatAddress(approval.roleChange.userAddress)} to ${
+      UserRole[approval.roleChange.newRole]
+    }`;
+  }
+  if (approval.settlementTokenChange) {
+    return `Change settlement token to ${formatAddress(
+      approval.settlementTokenChange
+    )}`;
+  }
+  return 'Unknown change';
+};
+
+// True once an approval's deadline has passed; it can then only be expired
+const isApprovalExpired = (approval: Approval) =>
+  approval.expiresAt > 0 && Date.now() / 1000 > Number(approval.expiresAt);
+
+// Request date with the approval deadline, if one is set
+const ApprovalDateCell: React.FC<{ approval: Approval }> = ({ approval }) => (
+  <div className="space-y-1">
+    <div>
+      {new Date(Number(approval.timestamp) * 1000).toLocaleDateString()}
+    </div>
+    {isApprovalExpired(approval) ? (
+      <Badge className="bg-orange-100 text-orange-800 border-orange-200">
+        <TimerOff className="w-3 h-3 mr-1" />
+        Expired
+      </Badge>
+    ) : (
+      approval.expiresAt > 0 && (
+        <div className="text-xs text-muted-foreground">
+          Expires{' '}
+          {new Date(Number(approval.expiresAt) * 1000).toLocaleString()}
+        </div>
+      )
+    )}
+  </div>
+);
+
+// Closes a past-deadline approval; anyone may do this
+const ExpireApprovalButton: React.FC<{ approval: Approval }> = ({
+  approval,
+}) => {
+  const expireApprovalMutation = useExpireApproval();
+
+  return (
+    <Button
+      size="sm"
+      variant="outline"
+      onClick={() => expireApprovalMutation.mutate(Number(approval.id))}
+      disabled={expireApprovalMutation.isPending}
+    >
+      {expireApprovalMutation.isPending ? (
+        <Loader2 className="w-4 h-4 animate-spin" />
+      ) : (
+        'Expire'
+      )}
+    </Button>
+  );
+};
+
 const ApprovalActionDialog: React.FC<ApprovalActionDialogProps> = ({
   approval,
   transaction,
@@ -96,45 +190,87 @@ const ApprovalActionDialog: React.FC<ApprovalActionDialogProps> = ({
       <DialogHeader>
         <DialogTitle>Process Approval Request</DialogTitle>
         <DialogDescription>
-          Review the transaction details and provide your decision
+          Review the {transaction ? 'transaction' : 'requested change'} details
+          and provide your decision
         </DialogDescription>
       </DialogHeader>
 
       <div className="space-y-6">
-        {/* Transaction Details */}
-        <div className="space-y-4 p-4 bg-muted rounded-lg">
-          <h4 className="font-medium">Transaction Details</h4>
-          <div className="space-y-2 text-sm">
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">From:</span>
-              <span className="font-mono">
-                {formatAddress(transaction.from)}
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">To:</span>
-              <span className="font-mono">{formatAddress(transaction.to)}</span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">Amount:</span>
-              <span className="font-medium">
-                {formatTokenAmount(transaction.amount)} ETH
-              </span>
-            </div>
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">Description:</span>
-              <span className="max-w-60 break-words">
-                {transaction.description}
-              </span>
+        {/* Change Details (UserRole / SystemConfig requests) */}
+        {!transaction && (
+          <div className="space-y-4 p-4 bg-muted rounded-lg">
+            <h4 className="font-medium">Change Details</h4>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Type:</span>
+                <span>{ApprovalType[Number(approval.approvalType)]}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Change:</span>
+                <span>{describeChange(approval)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Requested by:</span>
+                <span className="font-mono">
+                  {formatAddress(approval.requester)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Reason:</span>
+                <span className="max-w-60 break-words">{approval.reason}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Requested:</span>
+                <span>
+                  {new Date(Number(approval.timestamp) * 1000).toLocaleString()}
+                </span>
+              </div>
             </div>
-            <div className="flex justify-between">
-              <span className="text-muted-foreground">Requested:</span>
-              <span>
-                {new Date(Number(approval.timestamp) * 1000).toLocaleString()}
-              </span>
+          </div>
+        )}
+
+        {/* Transaction Details */}
+        {transaction && (
+          <div className="space-y-4 p-4 bg-muted rounded-lg">
+            <h4 className="font-medium">Transaction Details</h4>
+            <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">From:</span>
+                <span className="font-mono">
+                  {formatAddress(transaction.from)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">To:</span>
+                <span className="font-mono">{formatAddress(transaction.to)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Amount:</span>
+                <span className="font-medium">
+                  <TokenAmount
+                    amount={transaction.amount}
+                    token={transaction.token}
+                  />
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Description:</span>
+                <span className="max-w-60 break-words">
+                  {transaction.description}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Requested:</span>
+                <span>
+                  {new Date(Number(approval.timestamp) * 1000).toLocaleString()}
+                </span>
+              </div>
             </div>
           </div>
-        </div>
+        )}
+
+        {/* Signature Progress */}
+        <ApprovalProgress approval={approval} />
 
         {/* Approval Reason */}
         <div className="space-y-2">
@@ -192,14 +328,171 @@ const ApprovalActionDialog: React.FC<ApprovalActionDialogProps> = ({
           </Button>
         </div>
 
+        {transaction ? (
+          <div className="text-xs text-muted-foreground">
+            <p>
+              • Transactions are activated once the required number of
+              approvers have signed, and can then be completed by the requester
+            </p>
+            <p>• A single rejection rejects the whole request</p>
+            <p>
+              • Rejected transactions cannot be reactivated and will require a
+              new request
+            </p>
+          </div>
+        ) : (
+          <div className="text-xs text-muted-foreground">
+            <p>• Approved changes are applied immediately</p>
+            <p>• Rejected changes will require a new request</p>
+          </div>
+        )}
+      </div>
+    </DialogContent>
+  );
+};
+
+interface BatchApprovalDialogProps {
+  approvalIds: number[];
+  onProcessed: (processedIds: number[]) => void;
+}
+
+// Approve or reject several selected approvals with one shared reason
+const BatchApprovalDialog: React.FC<BatchApprovalDialogProps> = ({
+  approvalIds,
+  onProcessed,
+}) => {
+  const [reason, setReason] = useState('');
+  const [isApproving, setIsApproving] = useState<boolean | null>(null);
+  const [results, setResults] = useState<
+    { approvalId: number; result: BulkResult<void> }[]
+  >([]);
+  const batchMutation = useProcessApprovalsBatch();
+
+  const handleProcess = async (approved: boolean) => {
+    if (!reason.trim()) {
+      return;
+    }
+
+    setIsApproving(approved);
+
+    try {
+      const batchResults = await batchMutation.mutateAsync({
+        approvalIds,
+        approved,
+        reason: reason.trim(),
+      });
+
+      setResults(batchResults);
+      onProcessed(
+        batchResults
+          .filter(({ result }) => !('error' in result))
+          .map(({ approvalId }) => approvalId)
+      );
+    } catch (error) {
+      console.error('Error processing approvals:', error);
+    } finally {
+      setIsApproving(null);
+    }
+  };
+
+  const isLoading = batchMutation.isPending;
+  const failures = results.filter(({ result }) => 'error' in result);
+
+  return (
+    <DialogContent className="sm:max-w-lg">
+      <DialogHeader>
+        <DialogTitle>Process Selected Approvals</DialogTitle>
+        <DialogDescription>
+          Sign {approvalIds.length} approval request
+          {approvalIds.length !== 1 ? 's' : ''} with the same decision and
+          reason
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-6">
+        {/* Results of the previous run; failed approvals stay selected */}
+        {results.length > 0 && (
+          <div className="space-y-2 p-4 bg-muted rounded-lg text-sm">
+            <h4 className="font-medium">
+              {results.length - failures.length} of {results.length} recorded
+            </h4>
+            {failures.map(({ approvalId, result }) => (
+              <div key={approvalId} className="flex justify-between gap-4">
+                <span className="font-medium">#{approvalId}</span>
+                <span className="text-red-500 text-right break-words">
+                  {'error' in result && result.error}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {approvalIds.length > 0 && (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="batch-reason">Approval Reason *</Label>
+              <Input
+                id="batch-reason"
+                placeholder="Provide a reason for your decision..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                disabled={isLoading}
+              />
+              <p className="text-xs text-muted-foreground">
+                Approvals: {approvalIds.map((id) => `#${id}`).join(', ')}
+              </p>
+            </div>
+
+            <Separator />
+
+            <div className="flex gap-3">
+              <Button
+                variant="outline"
+                onClick={() => handleProcess(false)}
+                disabled={isLoading || !reason.trim()}
+                className="flex-1"
+              >
+                {isApproving === false ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Rejecting...
+                  </>
+                ) : (
+                  <>
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Reject All
+                  </>
+                )}
+              </Button>
+              <Button
+                onClick={() => handleProcess(true)}
+                disabled={isLoading || !reason.trim()}
+                className="flex-1"
+              >
+                {isApproving === true ? (
+                  <>
+                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    Approving...
+                  </>
+                ) : (
+                  <>
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Approve All
+                  </>
+                )}
+              </Button>
+            </div>
+          </>
+        )}
+
         <div className="text-xs text-muted-foreground">
           <p>
-            • Approved transactions will be activated and can be completed by
-            the requester
+            • Each request still needs its own signature threshold before it
+            takes effect
           </p>
           <p>
-            • Rejected transactions cannot be reactivated and will require a new
-            request
+            • Requests that can no longer be signed are skipped without
+            affecting the rest
           </p>
         </div>
       </div>
@@ -207,15 +500,51 @@ const ApprovalActionDialog: React.FC<ApprovalActionDialogProps> = ({
   );
 };
 
+const APPROVAL_TYPE_OPTIONS: FilterOption<
+  NonNullable<ApprovalFilterFormData['type']>[number]
+>[] = [
+  { value: 'transaction', label: 'Transaction' },
+  { value: 'userrole', label: 'User Role' },
+  { value: 'systemconfig', label: 'System Config' },
+];
+
+const APPROVAL_SORT_OPTIONS: FilterOption<
+  NonNullable<ApprovalFilterFormData['sortBy']>
+>[] = [
+  { value: 'date', label: 'date' },
+  { value: 'amount', label: 'amount' },
+  { value: 'id', label: 'request ID' },
+  { value: 'expires', label: 'deadline' },
+];
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
 export default function ApprovalsPage() {
+  return (
+    <Suspense fallback={<LoadingPage message="Loading approvals..." />}>
+      <ApprovalsPageContent />
+    </Suspense>
+  );
+}
+
+function ApprovalsPageContent() {
   const { isConnected, address } = useWallet();
   const { data: user, isLoading: userLoading } = useUser(address || '');
-  const { data: pendingApprovals = [], isLoading } = usePendingApprovals();
+  const [approvalPage, setApprovalPage] = useState(0);
+  const { data: approvalsPage, isLoading } =
+    usePaginatedPendingApprovals(approvalPage);
+  const pendingApprovals = approvalsPage?.items ?? [];
+  const pendingTotal = approvalsPage?.total ?? 0;
   const { data: allTransactions = [], isLoading: allTransactionsLoading } =
     useAllTransactions();
+  const { data: users = [] } = useAllUsers();
+  const { data: tokens = [] } = useTokens();
   const [selectedApproval, setSelectedApproval] = useState<
-    (Approval & { transaction: Transaction }) | null
+    (Approval & { transaction?: Transaction }) | null
   >(null);
+  const { filters, setFilters, clearFilters } =
+    useUrlFilters(approvalFilterSchema);
+  const [batchSelection, setBatchSelection] = useState<number[]>([]);
+  const [isBatchDialogOpen, setIsBatchDialogOpen] = useState(false);
   const queryClient = useQueryClient();
 
   // Invalidate all queries when wallet address changes
@@ -225,17 +554,134 @@ export default function ApprovalsPage() {
     }
   }, [address, queryClient]);
 
-  // Check if user has approval permissions
-  const canApprove =
-    user?.role === UserRole.Manager || user?.role === UserRole.Admin;
+  // Step back when processed approvals empty the current page
+  useEffect(() => {
+    const lastPage = Math.max(
+      0,
+      Math.ceil(pendingTotal / DEFAULT_PAGE_SIZE) - 1
+    );
+    if (approvalPage > lastPage) setApprovalPage(lastPage);
+  }, [approvalPage, pendingTotal]);
+
+  // Leave the page if a role change or lapsed delegation revokes access
+  useRoleGuard([UserRole.Manager, UserRole.Admin], '/dashboard', true);
+
+  // Approval permissions, including those held through a delegation
+  const { canApprove, isAdmin, delegator, delegatorUser, signer } =
+    useApprovalAuthority();
+
+  // Role and config changes, and transactions routed to admins by amount,
+  // can only be processed by admins. Delegates can cover an admin's
+  // transactions but never role or config changes. Both tabs split the
+  // current page of the contract's pending set.
+  const canReviewAdminRequests = isAdmin && !delegator;
+  const allTransactionApprovals = pendingApprovals.filter(
+    (approval) =>
+      Number(approval.approvalType) === ApprovalType.Transaction &&
+      (isAdmin || approval.approverRole !== UserRole.Admin)
+  );
+  const allAdminApprovals = canReviewAdminRequests
+    ? pendingApprovals.filter(
+        (approval) =>
+          Number(approval.approvalType) !== ApprovalType.Transaction
+      )
+    : [];
 
   // Filter pending transactions that don't have approval requests yet
-  const pendingTransactionsWithoutApproval = allTransactions.filter(
+  const allPendingTransactionsWithoutApproval = allTransactions.filter(
     (tx) =>
       tx.status === TransactionStatus.Pending &&
       tx.approvalId.toString() === '0'
   );
 
+  // Tables show the filtered lists; the stats above them don't
+  const transactionApprovals = filterApprovals(
+    allTransactionApprovals,
+    allTransactions,
+    filters,
+    users,
+    tokens
+  );
+  const adminApprovals = filterApprovals(
+    allAdminApprovals,
+    allTransactions,
+    filters,
+    users,
+    tokens
+  );
+  // Transactions have no approval type or ID, so only the shared fields apply
+  const { type, sortBy, ...transactionFilters } = filters;
+  const pendingTransactionsWithoutApproval =
+    !type?.length || type.includes('transaction')
+      ? filterTransactions(
+          allPendingTransactionsWithoutApproval,
+          {
+            ...transactionFilters,
+            sortBy:
+              sortBy === 'date' || sortBy === 'amount' ? sortBy : undefined,
+          },
+          users,
+          tokens
+        )
+      : [];
+
+  const unrequestedPagination = usePagination(
+    pendingTransactionsWithoutApproval
+  );
+  const approvalPagination = {
+    page: approvalPage,
+    pageSize: DEFAULT_PAGE_SIZE,
+    total: pendingTotal,
+    onPageChange: setApprovalPage,
+  };
+  const hasOtherPages = pendingTotal > DEFAULT_PAGE_SIZE;
+
+  // Approvals the current user can still sign, by ID
+  // Signatures are recorded under the approver a delegate covers for; no one
+  // signs their own request, themselves or through a delegate
+  const lowerAddress = signer.toLowerCase();
+  const selectableIds = new Set(
+    [...transactionApprovals, ...adminApprovals]
+      .filter(
+        (approval) =>
+          !isApprovalExpired(approval) &&
+          !approval.signatures.some(
+            (sig) => sig.approver.toLowerCase() === lowerAddress
+          ) &&
+          !isOwnApproval(approval, [signer, address ?? ''])
+      )
+      .map((approval) => Number(approval.id))
+  );
+  // Drop selections that were processed or signed elsewhere
+  const selectedIds = batchSelection.filter((id) => selectableIds.has(id));
+
+  const toggleSelected = (approvalId: number) =>
+    setBatchSelection((current) =>
+      current.includes(approvalId)
+        ? current.filter((id) => id !== approvalId)
+        : [...current, approvalId]
+    );
+  // Selects or clears every selectable approval on the current page
+  const togglePage = (approvals: Approval[]) => {
+    const pageIds = approvals
+      .map((approval) => Number(approval.id))
+      .filter((id) => selectableIds.has(id));
+    const allSelected = pageIds.every((id) => selectedIds.includes(id));
+    setBatchSelection((current) =>
+      allSelected
+        ? current.filter((id) => !pageIds.includes(id))
+        : [...new Set([...current, ...pageIds])]
+    );
+  };
+  const isPageSelected = (approvals: Approval[]) => {
+    const pageIds = approvals
+      .map((approval) => Number(approval.id))
+      .filter((id) => selectableIds.has(id));
+    return (
+      pageIds.length > 0 && pageIds.every((id) => selectedIds.includes(id))
+    );
+  };
+
   if (!isConnected) {
     return (
       <div className="flex items-center justify-center h-[60vh] animate-in fade-in duration-500">
@@ -265,7 +711,8 @@ export default function ApprovalsPage() {
               Access Denied
             </CardTitle>
             <CardDescription>
-              You need Manager or Admin role to access the approval dashboard
+              You need Manager or Admin role, or a delegation from an
+              approver, to access the approval dashboard
             </CardDescription>
           </CardHeader>
         </Card>
@@ -289,7 +736,9 @@ export default function ApprovalsPage() {
           style={{ animationDelay: '200ms' }}
         >
           <User className="w-4 h-4 mr-1" />
-          {UserRole[user?.role || UserRole.Regular]}
+          {delegator
+            ? `Delegate for ${delegatorUser?.name || formatAddress(delegator)}`
+            : UserRole[user?.role || UserRole.Regular]}
         </Badge>
       </div>
 
@@ -309,10 +758,8 @@ export default function ApprovalsPage() {
             <Clock className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">{pendingApprovals.length}</div>
-            <p className="text-xs text-muted-foreground">
-              Awaiting your review
-            </p>
+            <div className="text-2xl font-bold">{pendingTotal}</div>
+            <p className="text-xs text-muted-foreground">Awaiting review</p>
           </CardContent>
         </Card>
 
@@ -328,7 +775,7 @@ export default function ApprovalsPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {pendingTransactionsWithoutApproval.length}
+              {allPendingTransactionsWithoutApproval.length}
             </div>
             <p className="text-xs text-muted-foreground">
               Pending transactions
@@ -364,9 +811,7 @@ export default function ApprovalsPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">
-              {pendingApprovals.length +
-                pendingTransactionsWithoutApproval.length >
-              0
+              {pendingTotal + allPendingTransactionsWithoutApproval.length > 0
                 ? 'Review'
                 : 'None'}
             </div>
@@ -377,21 +822,56 @@ export default function ApprovalsPage() {
         </Card>
       </div>
 
+      {/* Filters (kept in the URL so filtered views can be shared) */}
+      <div
+        className="animate-in slide-in-from-top-4 duration-500"
+        style={{ animationDelay: '300ms' }}
+      >
+        <FilterBar
+          filters={filters}
+          onChange={setFilters}
+          onClear={clearFilters}
+          searchPlaceholder="Search by name, address, reason or description..."
+          choiceLabel="Types"
+          choiceOptions={
+            canReviewAdminRequests
+              ? APPROVAL_TYPE_OPTIONS
+              : APPROVAL_TYPE_OPTIONS.slice(0, 1)
+          }
+          selectedChoices={filters.type ?? []}
+          onChoicesChange={(type) => setFilters({ type })}
+          sortOptions={APPROVAL_SORT_OPTIONS}
+        />
+      </div>
+
       {/* Pending Transactions Without Approval Requests */}
       {pendingTransactionsWithoutApproval.length > 0 && (
         <Card
           className="animate-in slide-in-from-bottom-4 duration-500"
           style={{ animationDelay: '350ms' }}
         >
-          <CardHeader>
-            <CardTitle className="flex items-center">
-              <AlertTriangle className="w-5 h-5 mr-2" />
-              Pending Transactions (No Approval Request)
-            </CardTitle>
-            <CardDescription>
-              These transactions are pending but haven&apos;t had approval
-              requested yet
-            </CardDescription>
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center">
+                <AlertTriangle className="w-5 h-5 mr-2" />
+                Pending Transactions (No Approval Request)
+              </CardTitle>
+              <CardDescription>
+                These transactions are pending but haven&apos;t had approval
+                requested yet
+              </CardDescription>
+            </div>
+            <ExportMenu
+              onExport={(format) =>
+                exportTransactions(
+                  pendingTransactionsWithoutApproval,
+                  users,
+                  tokens,
+                  'unrequested-transactions',
+                  format
+                )
+              }
+            />
           </CardHeader>
           <CardContent>
             <Table>
@@ -401,12 +881,13 @@ export default function ApprovalsPage() {
                   <TableHead>From</TableHead>
                   <TableHead>To</TableHead>
                   <TableHead>Amount</TableHead>
+                  <TableHead>Token</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Created</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {pendingTransactionsWithoutApproval.map((tx, index) => (
+                {unrequestedPagination.pageItems.map((tx, index) => (
                   <TableRow
                     key={tx.id.toString()}
                     className="animate-in slide-in-from-left-4 duration-300"
@@ -426,7 +907,14 @@ export default function ApprovalsPage() {
                       </div>
                     </TableCell>
                     <TableCell className="font-medium">
-                      {formatTokenAmount(tx.amount)} ETH
+                      <TokenAmount
+                        amount={tx.amount}
+                        token={tx.token}
+                        showSymbol={false}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TokenSymbol token={tx.token} />
                     </TableCell>
                     <TableCell className="max-w-xs truncate">
                       {tx.description}
@@ -440,60 +928,246 @@ export default function ApprovalsPage() {
                 ))}
               </TableBody>
             </Table>
+            <TablePagination
+              page={unrequestedPagination.page}
+              pageSize={unrequestedPagination.pageSize}
+              total={unrequestedPagination.total}
+              onPageChange={unrequestedPagination.setPage}
+            />
           </CardContent>
         </Card>
       )}
 
-      {/* Pending Approval Requests Table */}
-      <Card
-        className="animate-in slide-in-from-bottom-4 duration-500"
+      {/* Batch Actions */}
+      {selectedIds.length > 0 && (
+        <div className="flex items-center justify-between gap-4 p-3 border rounded-lg bg-muted animate-in fade-in duration-300">
+          <span className="text-sm font-medium">
+            {selectedIds.length} approval{selectedIds.length !== 1 ? 's' : ''}{' '}
+            selected
+          </span>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setBatchSelection([])}
+            >
+              Clear
+            </Button>
+            <Button size="sm" onClick={() => setIsBatchDialogOpen(true)}>
+              <CheckSquare className="w-4 h-4 mr-2" />
+              Process Selected
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Tabs
+        defaultValue="transactions"
+        className="space-y-4 animate-in slide-in-from-bottom-4 duration-500"
         style={{ animationDelay: '300ms' }}
       >
-        <CardHeader>
-          <CardTitle className="flex items-center">
-            <CheckSquare className="w-5 h-5 mr-2" />
-            Pending Approval Requests
-          </CardTitle>
-          <CardDescription>
-            Review and process transaction approval requests
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {pendingApprovals.length === 0 ? (
-            <div className="text-center py-12 animate-in fade-in duration-500">
-              <CheckCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
-              <h3 className="text-lg font-medium mb-2">No Pending Approvals</h3>
-              <p className="text-muted-foreground">
-                All approval requests have been processed. Check back later for
-                new requests.
-              </p>
-            </div>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Request ID</TableHead>
-                  <TableHead>Requester</TableHead>
-                  <TableHead>Transaction Details</TableHead>
-                  <TableHead>Amount</TableHead>
-                  <TableHead>Requested</TableHead>
-                  <TableHead>Actions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {pendingApprovals.map((approval, index) => (
-                  <ApprovalRow
-                    key={approval.id.toString()}
-                    approval={approval}
-                    onSelect={setSelectedApproval}
-                    index={index}
-                  />
-                ))}
-              </TableBody>
-            </Table>
+        <TabsList>
+          <TabsTrigger value="transactions">Transactions</TabsTrigger>
+          {canReviewAdminRequests && (
+            <TabsTrigger value="roles">Roles &amp; Config</TabsTrigger>
           )}
-        </CardContent>
-      </Card>
+        </TabsList>
+
+        <TabsContent value="transactions" className="space-y-4">
+          {/* Pending Approval Requests Table */}
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center">
+                  <CheckSquare className="w-5 h-5 mr-2" />
+                  Pending Approval Requests
+                </CardTitle>
+                <CardDescription>
+                  Review and process transaction approval requests
+                </CardDescription>
+              </div>
+              <ExportMenu
+                disabled={transactionApprovals.length === 0}
+                onExport={(format) =>
+                  exportApprovals(
+                    transactionApprovals,
+                    allTransactions,
+                    users,
+                    tokens,
+                    'transaction-approvals',
+                    format
+                  )
+                }
+              />
+            </CardHeader>
+            <CardContent>
+              {transactionApprovals.length === 0 ? (
+                <div className="text-center py-12 animate-in fade-in duration-500">
+                  <CheckCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <h3 className="text-lg font-medium mb-2">No Pending Approvals</h3>
+                  <p className="text-muted-foreground">
+                    {hasOtherPages
+                      ? 'No transaction approvals on this page. Other pages have more requests.'
+                      : 'All approval requests have been processed. Check back later for new requests.'}
+                  </p>
+                </div>
+              ) : (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-8">
+                          <input
+                            type="checkbox"
+                            aria-label="Select all on this page"
+                            checked={isPageSelected(transactionApprovals)}
+                            onChange={() => togglePage(transactionApprovals)}
+                          />
+                        </TableHead>
+                        <TableHead>Request ID</TableHead>
+                        <TableHead>Requester</TableHead>
+                        <TableHead>Transaction Details</TableHead>
+                        <TableHead>Amount</TableHead>
+                        <TableHead>Token</TableHead>
+                        <TableHead>Progress</TableHead>
+                        <TableHead>Requested</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {transactionApprovals.map((approval, index) => (
+                        <ApprovalRow
+                          key={approval.id.toString()}
+                          approval={approval}
+                          currentAddress={signer}
+                          onSelect={setSelectedApproval}
+                          checked={selectedIds.includes(Number(approval.id))}
+                          onCheckedChange={() =>
+                            toggleSelected(Number(approval.id))
+                          }
+                          index={index}
+                        />
+                      ))}
+                    </TableBody>
+                  </Table>
+                </>
+              )}
+              <TablePagination {...approvalPagination} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {canReviewAdminRequests && (
+          <TabsContent value="roles" className="space-y-4">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="flex items-center">
+                    <Shield className="w-5 h-5 mr-2" />
+                    Role &amp; Config Requests
+                  </CardTitle>
+                  <CardDescription>
+                    Role promotions and system configuration changes require
+                    approval from another admin
+                  </CardDescription>
+                </div>
+                <ExportMenu
+                  disabled={adminApprovals.length === 0}
+                  onExport={(format) =>
+                    exportApprovals(
+                      adminApprovals,
+                      allTransactions,
+                      users,
+                      tokens,
+                      'admin-approvals',
+                      format
+                    )
+                  }
+                />
+              </CardHeader>
+              <CardContent>
+                {adminApprovals.length === 0 ? (
+                  <div className="text-center py-12 animate-in fade-in duration-500">
+                    <CheckCircle className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                    <h3 className="text-lg font-medium mb-2">
+                      No Pending Requests
+                    </h3>
+                    <p className="text-muted-foreground">
+                      {hasOtherPages
+                        ? 'No role or configuration changes on this page. Other pages have more requests.'
+                        : 'There are no role or configuration changes awaiting approval.'}
+                    </p>
+                  </div>
+                ) : (
+                  <>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-8">
+                            <input
+                              type="checkbox"
+                              aria-label="Select all on this page"
+                              checked={isPageSelected(adminApprovals)}
+                              onChange={() => togglePage(adminApprovals)}
+                            />
+                          </TableHead>
+                          <TableHead>Request ID</TableHead>
+                          <TableHead>Type</TableHead>
+                          <TableHead>Requester</TableHead>
+                          <TableHead>Change</TableHead>
+                          <TableHead>Reason</TableHead>
+                          <TableHead>Requested</TableHead>
+                          <TableHead>Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {adminApprovals.map((approval, index) => (
+                          <AdminApprovalRow
+                            key={approval.id.toString()}
+                            approval={approval}
+                            currentAddress={signer}
+                            onSelect={setSelectedApproval}
+                            checked={selectedIds.includes(
+                              Number(approval.id)
+                            )}
+                            onCheckedChange={() =>
+                              toggleSelected(Number(approval.id))
+                            }
+                            index={index}
+                          />
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </>
+                )}
+                <TablePagination {...approvalPagination} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        )}
+      </Tabs>
+
+      {/* Approval Delegation (own approver role only) */}
+      {!delegator && <DelegationCard />}
+
+      {/* Multi-Signature Policies (Admin only) */}
+      {user?.role === UserRole.Admin && user.isActive && (
+        <ApprovalPoliciesCard />
+      )}
+
+      {/* Batch Approval Dialog */}
+      <Dialog open={isBatchDialogOpen} onOpenChange={setIsBatchDialogOpen}>
+        {isBatchDialogOpen && (
+          <BatchApprovalDialog
+            approvalIds={selectedIds}
+            onProcessed={(processedIds) =>
+              setBatchSelection((current) =>
+                current.filter((id) => !processedIds.includes(id))
+              )
+            }
+          />
+        )}
+      </Dialog>
 
       {/* Approval Action Dialog */}
       {selectedApproval && (
@@ -512,13 +1186,36 @@ export default function ApprovalsPage() {
   );
 }
 
+// Whether one of `accounts` requested the approval. Transaction approvals are
+// always requested by the transaction's sender.
+const isOwnApproval = (approval: Approval, accounts: string[]) =>
+  accounts.some(
+    (account) => account.toLowerCase() === approval.requester.toLowerCase()
+  );
+
 // Separate component for approval rows to handle transaction data loading
 const ApprovalRow: React.FC<{
   approval: Approval;
+  currentAddress: string;
   onSelect: (approval: Approval & { transaction: Transaction }) => void;
+  checked: boolean;
+  onCheckedChange: () => void;
   index: number;
-}> = ({ approval, onSelect, index }) => {
+}> = ({
+  approval,
+  currentAddress,
+  onSelect,
+  checked,
+  onCheckedChange,
+  index,
+}) => {
+  const { address } = useWallet();
   const { data: transaction } = useTransaction(Number(approval.transactionId));
+  const hasSigned = approval.signatures.some(
+    (sig) => sig.approver.toLowerCase() === currentAddress.toLowerCase()
+  );
+  const isOwnRequest = isOwnApproval(approval, [currentAddress, address ?? '']);
+  const isExpired = isApprovalExpired(approval);
 
   if (!transaction) {
     return (
@@ -526,7 +1223,7 @@ const ApprovalRow: React.FC<{
         className="animate-in slide-in-from-left-4 duration-300"
         style={{ animationDelay: `${index * 50}ms` }}
       >
-        <TableCell colSpan={6}>
+        <TableCell colSpan={9}>
           <div className="flex items-center justify-center py-4">
             <Loader2 className="w-4 h-4 animate-spin mr-2" />
             Loading transaction details...
@@ -541,6 +1238,15 @@ const ApprovalRow: React.FC<{
       className="animate-in slide-in-from-left-4 duration-300"
       style={{ animationDelay: `${index * 50}ms` }}
     >
+      <TableCell>
+        <input
+          type="checkbox"
+          aria-label={`Select approval #${approval.id}`}
+          checked={checked}
+          onChange={onCheckedChange}
+          disabled={hasSigned || isOwnRequest || isExpired}
+        />
+      </TableCell>
       <TableCell className="font-medium">#{approval.id.toString()}</TableCell>
       <TableCell>
         <div className="font-mono text-sm">
@@ -559,18 +1265,102 @@ const ApprovalRow: React.FC<{
         </div>
       </TableCell>
       <TableCell className="font-medium">
-        {formatTokenAmount(transaction.amount)} ETH
+        <TokenAmount
+          amount={transaction.amount}
+          token={transaction.token}
+          showSymbol={false}
+        />
       </TableCell>
       <TableCell>
-        {new Date(Number(approval.timestamp) * 1000).toLocaleDateString()}
+        <TokenSymbol token={transaction.token} />
       </TableCell>
       <TableCell>
-        <Button
-          size="sm"
-          onClick={() => onSelect({ ...approval, transaction })}
-        >
-          Review
-        </Button>
+        <ApprovalProgress approval={approval} compact />
+      </TableCell>
+      <TableCell>
+        <ApprovalDateCell approval={approval} />
+      </TableCell>
+      <TableCell>
+        {isExpired ? (
+          <ExpireApprovalButton approval={approval} />
+        ) : hasSigned ? (
+          <Badge variant="outline">Signed</Badge>
+        ) : isOwnRequest ? (
+          <Badge variant="outline">Your request</Badge>
+        ) : (
+          <Button
+            size="sm"
+            onClick={() => onSelect({ ...approval, transaction })}
+          >
+            Review
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+};
+
+// Row for UserRole / SystemConfig requests, which have no transaction attached
+const AdminApprovalRow: React.FC<{
+  approval: Approval;
+  currentAddress: string;
+  onSelect: (approval: Approval) => void;
+  checked: boolean;
+  onCheckedChange: () => void;
+  index: number;
+}> = ({
+  approval,
+  currentAddress,
+  onSelect,
+  checked,
+  onCheckedChange,
+  index,
+}) => {
+  const isOwnRequest = isOwnApproval(approval, [currentAddress]);
+  const isExpired = isApprovalExpired(approval);
+
+  return (
+    <TableRow
+      className="animate-in slide-in-from-left-4 duration-300"
+      style={{ animationDelay: `${index * 50}ms` }}
+    >
+      <TableCell>
+        <input
+          type="checkbox"
+          aria-label={`Select approval #${approval.id}`}
+          checked={checked}
+          onChange={onCheckedChange}
+          disabled={isOwnRequest || isExpired}
+        />
+      </TableCell>
+      <TableCell className="font-medium">#{approval.id.toString()}</TableCell>
+      <TableCell>
+        <Badge variant="secondary">
+          {ApprovalType[Number(approval.approvalType)]}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        <div className="font-mono text-sm">
+          {formatAddress(approval.requester)}
+        </div>
+      </TableCell>
+      <TableCell className="text-sm">{describeChange(approval)}</TableCell>
+      <TableCell className="max-w-40 truncate text-sm text-muted-foreground">
+        {approval.reason}
+      </TableCell>
+      <TableCell>
+        <ApprovalDateCell approval={approval} />
+      </TableCell>
+      <TableCell>
+        {isExpired ? (
+          <ExpireApprovalButton approval={approval} />
+        ) : isOwnRequest ? (
+          <Badge variant="outline">Your request</Badge>
+        ) : (
+          <Button size="sm" onClick={() => onSelect(approval)}>
+            Review
+          </Button>
+        )}
       </TableCell>
     </TableRow>
   );
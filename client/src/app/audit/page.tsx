@@ -0,0 +1,419 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { isAddress } from 'ethers';
+import { useWallet } from '@/lib/hooks/useWallet';
+import { useAllUsers, useUser } from '@/lib/hooks/useContract';
+import {
+  useAuditLog,
+  useExportAuditLog,
+  useVerifyAuditExport,
+} from '@/lib/hooks/useAuditLog';
+import { usePagination } from '@/lib/hooks/usePagination';
+import { useRoleGuard } from '@/lib/hooks/useRoleGuard';
+import { AUDIT_ACTIONS } from '@/lib/audit/ledger';
+import { AuditVerificationStatus } from '@/lib/audit/export';
+import { toUnixSeconds } from '@/lib/filters';
+import { UserRole } from '@/types/contracts';
+import { formatAddress } from '@/lib/web3/provider';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { LoadingPage } from '@/components/ui/loading-spinner';
+import {
+  AlertTriangle,
+  FileJson,
+  FileSpreadsheet,
+  RefreshCw,
+  ScrollText,
+  ShieldCheck,
+} from 'lucide-react';
+
+// How each verification outcome reads on the page
+const VERIFICATION_LABELS: Record<
+  AuditVerificationStatus,
+  { label: string; description: string; trusted: boolean }
+> = {
+  verified: {
+    label: 'Verified',
+    description: 'Signed by a platform admin; no tampering detected',
+    trusted: true,
+  },
+  unsigned: {
+    label: 'Unsigned',
+    description:
+      'The rows are consistent, but nothing proves who produced them',
+    trusted: false,
+  },
+  modified: {
+    label: 'Modified',
+    description: 'The rows or head hash have been changed',
+    trusted: false,
+  },
+  'invalid-signature': {
+    label: 'Invalid signature',
+    description: 'The signature does not match the stated signer',
+    trusted: false,
+  },
+  'not-admin': {
+    label: 'Untrusted signer',
+    description: 'Signed by an account that is not a platform admin',
+    trusted: false,
+  },
+};
+
+export default function AuditPage() {
+  const { isConnected, address } = useWallet();
+  const { data: user, isLoading: userLoading } = useUser(address || '');
+  const {
+    data: entries = [],
+    isLoading: auditLoading,
+    isFetching: auditFetching,
+    refetch,
+  } = useAuditLog();
+  const { data: users = [] } = useAllUsers();
+  const exportMutation = useExportAuditLog();
+  const verifyMutation = useVerifyAuditExport();
+  const verifyInputRef = useRef<HTMLInputElement>(null);
+
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [actorFilter, setActorFilter] = useState('all');
+  const [actionFilter, setActionFilter] = useState('all');
+
+  // Leave the page if a role change or deactivation revokes access while
+  // it's open
+  useRoleGuard([UserRole.Admin]);
+
+  const isAdmin = user?.role === UserRole.Admin && user.isActive;
+
+  // Registered names for actors and targets, keyed by lowercase address
+  const userNames = new Map(
+    users.map((u) => [u.walletAddress.toLowerCase(), u.name])
+  );
+  const describeAccount = (account: string) => {
+    const name = userNames.get(account.toLowerCase());
+    return name
+      ? `${name} (${formatAddress(account)})`
+      : formatAddress(account);
+  };
+
+  const actors = [...new Set(entries.map((entry) => entry.actor))];
+
+  // Filtered in chronological order, which is the order exports are chained in
+  const filteredEntries = entries.filter(
+    (entry) =>
+      (!fromDate || entry.timestamp >= toUnixSeconds(fromDate)) &&
+      (!toDate || entry.timestamp <= toUnixSeconds(toDate, true)) &&
+      (actorFilter === 'all' ||
+        entry.actor.toLowerCase() === actorFilter.toLowerCase()) &&
+      (actionFilter === 'all' || entry.action === actionFilter)
+  );
+  const auditPagination = usePagination([...filteredEntries].reverse(), 25);
+
+  const handleVerifyFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) verifyMutation.mutate(file);
+    e.target.value = '';
+  };
+
+  if (!isConnected) {
+    return (
+      <div className="flex items-center justify-center h-[60vh] animate-in fade-in duration-500">
+        <Card className="w-full max-w-md animate-in slide-in-from-bottom-4 duration-500">
+          <CardHeader className="text-center">
+            <CardTitle>Connect Your Wallet</CardTitle>
+            <CardDescription>
+              Please connect your wallet to access the audit log
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  if (userLoading) {
+    return <LoadingPage message="Loading user data..." />;
+  }
+
+  if (!isAdmin) {
+    return (
+      <div className="flex items-center justify-center h-[60vh] animate-in fade-in duration-500">
+        <Card className="w-full max-w-md animate-in slide-in-from-bottom-4 duration-500">
+          <CardHeader className="text-center">
+            <CardTitle className="flex items-center justify-center">
+              <AlertTriangle className="w-5 h-5 mr-2 text-yellow-500" />
+              Access Denied
+            </CardTitle>
+            <CardDescription>
+              You need Admin role to access the audit log
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
+      <div className="flex items-center justify-between space-y-2 animate-in slide-in-from-top-4 duration-500">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight">Audit Log</h2>
+          <p className="text-muted-foreground">
+            Every platform event, with hash-chained exports for compliance
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            onClick={() => refetch()}
+            disabled={auditFetching}
+          >
+            <RefreshCw
+              className={`w-4 h-4 mr-2 ${auditFetching ? 'animate-spin' : ''}`}
+            />
+            Refresh
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => verifyInputRef.current?.click()}
+            disabled={verifyMutation.isPending}
+          >
+            <ShieldCheck className="w-4 h-4 mr-2" />
+            Verify Export
+          </Button>
+          <input
+            ref={verifyInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleVerifyFile}
+          />
+        </div>
+      </div>
+
+      {verifyMutation.data && (
+        <Card className="animate-in fade-in duration-500">
+          <CardContent className="flex items-center gap-3 pt-6">
+            {VERIFICATION_LABELS[verifyMutation.data.status].trusted ? (
+              <ShieldCheck className="w-5 h-5 text-green-600" />
+            ) : (
+              <AlertTriangle className="w-5 h-5 text-yellow-500" />
+            )}
+            <div>
+              <div className="flex items-center gap-2 font-medium">
+                Last verified export
+                <Badge
+                  variant={
+                    VERIFICATION_LABELS[verifyMutation.data.status].trusted
+                      ? 'default'
+                      : 'destructive'
+                  }
+                >
+                  {VERIFICATION_LABELS[verifyMutation.data.status].label}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {VERIFICATION_LABELS[verifyMutation.data.status].description}
+                {verifyMutation.data.signer &&
+                  `. Signer: ${describeAccount(verifyMutation.data.signer)}`}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="animate-in slide-in-from-bottom-4 duration-500">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <ScrollText className="w-5 h-5 mr-2" />
+              Platform Events
+            </CardTitle>
+            <CardDescription>
+              {filteredEntries.length} of {entries.length} events. Exports cover
+              the filtered events; only JSON exports are signed by your wallet
+              and can be verified.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                exportMutation.mutate({
+                  entries: filteredEntries,
+                  format: 'csv',
+                })
+              }
+              disabled={exportMutation.isPending || !filteredEntries.length}
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Export CSV
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() =>
+                exportMutation.mutate({
+                  entries: filteredEntries,
+                  format: 'json',
+                })
+              }
+              disabled={exportMutation.isPending || !filteredEntries.length}
+            >
+              <FileJson className="w-4 h-4 mr-2" />
+              Export JSON
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Actor</Label>
+              <Select value={actorFilter} onValueChange={setActorFilter}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Filter by actor" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Actors</SelectItem>
+                  {actors.map((actor) => (
+                    <SelectItem key={actor} value={actor}>
+                      {describeAccount(actor)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Event Type</Label>
+              <Select value={actionFilter} onValueChange={setActionFilter}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Filter by type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Events</SelectItem>
+                  {AUDIT_ACTIONS.map((action) => (
+                    <SelectItem key={action} value={action}>
+                      {action}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {auditLoading ? (
+            <div className="py-8 text-center text-muted-foreground">
+              Loading audit log...
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Actor</TableHead>
+                    <TableHead>Target</TableHead>
+                    <TableHead>Details</TableHead>
+                    <TableHead>Block</TableHead>
+                    <TableHead>Tx Hash</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.length === 0 && (
+                    <TableRow>
+                      <TableCell
+                        colSpan={7}
+                        className="p-4 text-center text-muted-foreground"
+                      >
+                        No events match these filters
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {auditPagination.pageItems.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.timestamp * 1000).toLocaleString()}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{entry.action}</Badge>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {describeAccount(entry.actor)}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {isAddress(entry.target)
+                          ? describeAccount(entry.target)
+                          : entry.target}
+                      </TableCell>
+                      <TableCell className="max-w-80 whitespace-normal break-words text-muted-foreground">
+                        {entry.details}
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        #{entry.blockNumber}
+                      </TableCell>
+                      <TableCell className="font-mono">
+                        {formatAddress(entry.transactionHash)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <TablePagination
+                page={auditPagination.page}
+                pageSize={auditPagination.pageSize}
+                total={auditPagination.total}
+                onPageChange={auditPagination.setPage}
+              />
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -14,13 +14,15 @@ import { Badge } from '@/components/ui/badge';
 import { useWallet } from '@/lib/hooks/useWallet';
 import {
   useDashboardMetrics,
-  usePendingApprovals,
+  usePaginatedUserTransactions,
   useUserTransactions,
 } from '@/lib/hooks/useContract';
 import { TransactionChart } from '@/components/dashboard/TransactionChart';
+import { TokenBalanceCard } from '@/components/dashboard/TokenBalanceCard';
+import { TokenAmount } from '@/components/web3/TokenAmount';
 import { LoadingPage } from '@/components/ui/loading-spinner';
 import { UserRole, TransactionStatus } from '@/types/contracts';
-import { formatTokenAmount, formatAddress } from '@/lib/web3/provider';
+import { formatAddress } from '@/lib/web3/provider';
 import {
   Users,
   ArrowLeftRight,
@@ -56,9 +58,13 @@ const MetricCard: React.FC<{
 
 const ActivityFeed: React.FC = () => {
   const { address } = useWallet();
-  const { data: userTransactions = [] } = useUserTransactions(address || '');
+  const { data: recentPage } = usePaginatedUserTransactions(
+    address || '',
+    0,
+    5
+  );
 
-  const recentTransactions = userTransactions.slice(0, 5);
+  const recentTransactions = recentPage?.items ?? [];
 
   return (
     <Card
@@ -90,6 +96,9 @@ const ActivityFeed: React.FC = () => {
                         ? 'bg-green-500'
                         : tx.status === TransactionStatus.Rejected
                         ? 'bg-red-500'
+                        : tx.status === TransactionStatus.Cancelled ||
+                          tx.status === TransactionStatus.Expired
+                        ? 'bg-gray-400'
                         : tx.status === TransactionStatus.Active
                         ? 'bg-blue-500'
                         : 'bg-yellow-500'
@@ -100,7 +109,7 @@ const ActivityFeed: React.FC = () => {
                       {tx.from.toLowerCase() === address?.toLowerCase()
                         ? 'Sent'
                         : 'Received'}{' '}
-                      {formatTokenAmount(tx.amount)} ETH
+                      <TokenAmount amount={tx.amount} token={tx.token} />
                     </p>
                     <p className="text-xs text-muted-foreground">
                       {tx.from.toLowerCase() === address?.toLowerCase()
@@ -137,7 +146,6 @@ const ActivityFeed: React.FC = () => {
 export default function DashboardPage() {
   const { isConnected, address } = useWallet();
   const { data: metrics, isLoading: metricsLoading } = useDashboardMetrics();
-  const { data: pendingApprovals } = usePendingApprovals();
   const { data: userTransactions = [] } = useUserTransactions(address || '');
   const queryClient = useQueryClient();
 
@@ -258,7 +266,7 @@ export default function DashboardPage() {
                     <div>
                       <p className="text-sm font-medium">Review Approvals</p>
                       <p className="text-xs text-muted-foreground">
-                        {pendingApprovals?.length || 0} pending approvals
+                        {metrics.pendingApprovals} pending approvals
                       </p>
                     </div>
                   </Link>
@@ -283,18 +291,19 @@ export default function DashboardPage() {
           </CardContent>
         </Card>
 
-        {/* Transaction Chart */}
-        {userTransactions.length > 0 && (
-          <div
-            className="col-span-1 md:col-span-2 lg:col-span-5 animate-in slide-in-from-bottom duration-700"
-            style={{ animationDelay: '600ms' }}
-          >
+        {/* Wallet Balance & Transaction Chart */}
+        <div
+          className="col-span-1 md:col-span-2 lg:col-span-5 space-y-4 animate-in slide-in-from-bottom duration-700"
+          style={{ animationDelay: '600ms' }}
+        >
+          <TokenBalanceCard userAddress={address || ''} />
+          {userTransactions.length > 0 && (
             <TransactionChart
               transactions={userTransactions}
               userAddress={address || ''}
             />
-          </div>
-        )}
+          )}
+        </div>
       </div>
     </div>
   );
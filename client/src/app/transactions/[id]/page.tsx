@@ -2,6 +2,7 @@
 
 import React from 'react';
 import { useParams, useRouter } from 'next/navigation';
+import { ZeroAddress } from 'ethers';
 import { useWallet } from '@/lib/hooks/useWallet';
 import {
   useTransaction,
@@ -9,10 +10,11 @@ import {
   useCompleteTransaction,
   useRequestApproval,
   useApproval,
-  useUser as useUserByAddress,
+  useTransactionSettlement,
+  useCancelTransaction,
 } from '@/lib/hooks/useContract';
 import { TransactionStatus, UserRole } from '@/types/contracts';
-import { formatTokenAmount, formatAddress } from '@/lib/web3/provider';
+import { formatAddress } from '@/lib/web3/provider';
 import {
   Card,
   CardContent,
@@ -33,6 +35,8 @@ import {
   Calendar,
   Hash,
   ArrowRight,
+  Ban,
+  TimerOff,
 } from 'lucide-react';
 import {
   Dialog,
@@ -45,6 +49,9 @@ import {
 import { Input } from '@/components/ui/input';
 import { toast } from 'sonner';
 import { extractErrorMessage } from '@/lib/errors';
+import { ApprovalProgress } from '@/components/approvals/ApprovalProgress';
+import { TransactionTimeline } from '@/components/transactions/TransactionTimeline';
+import { TokenAmount } from '@/components/web3/TokenAmount';
 
 // Improved status config
 const getStatusConfig = (
@@ -76,6 +83,18 @@ const getStatusConfig = (
         color: 'bg-red-100 text-red-800 border-red-200',
         icon: XCircle,
       };
+    case TransactionStatus.Cancelled:
+      return {
+        label: 'Cancelled',
+        color: 'bg-gray-100 text-gray-800 border-gray-200',
+        icon: Ban,
+      };
+    case TransactionStatus.Expired:
+      return {
+        label: 'Expired',
+        color: 'bg-orange-100 text-orange-800 border-orange-200',
+        icon: TimerOff,
+      };
     default:
       return {
         label: 'Unknown',
@@ -92,6 +111,7 @@ export default function TransactionDetailsPage() {
   const { data: user } = useUser(address || '');
   const completeTransactionMutation = useCompleteTransaction();
   const requestApprovalMutation = useRequestApproval();
+  const cancelTransactionMutation = useCancelTransaction();
   const [isRequestDialogOpen, setIsRequestDialogOpen] = React.useState(false);
   const [approvalReason, setApprovalReason] = React.useState('');
 
@@ -106,8 +126,13 @@ export default function TransactionDetailsPage() {
       ? Number(transaction?.approvalId)
       : undefined;
   const { data: approval } = useApproval(approvalIdNum);
-  const approverAddress = approval?.approver || '';
-  const { data: approverUser } = useUserByAddress(approverAddress);
+
+  // Fetch the token settlement once the transaction is completed
+  const { data: settlement } = useTransactionSettlement(
+    Number(transaction?.status) === TransactionStatus.Completed
+      ? Number(transactionId)
+      : undefined
+  );
 
   if (!isConnected) {
     return (
@@ -201,6 +226,11 @@ export default function TransactionDetailsPage() {
 
   const canRequestApproval = isOwner && isPendingLike && approvalIdIsZero;
 
+  const canCancel =
+    isOwner &&
+    (statusNum === TransactionStatus.Pending ||
+      statusNum === TransactionStatus.Active);
+
   const canRequestApprovalByManager =
     (user?.role === UserRole.Manager || user?.role === UserRole.Admin) &&
     isPendingLike &&
@@ -247,10 +277,22 @@ export default function TransactionDetailsPage() {
               <div className="flex justify-between items-center">
                 <span className="text-sm text-muted-foreground">Amount</span>
                 <span className="font-mono text-lg font-semibold">
-                  {formatTokenAmount(transaction.amount)} ETH
+                  <TokenAmount
+                    amount={transaction.amount}
+                    token={transaction.token}
+                  />
                 </span>
               </div>
 
+              {transaction.token !== ZeroAddress && (
+                <div className="flex justify-between items-center">
+                  <span className="text-sm text-muted-foreground">Token</span>
+                  <span className="font-mono text-sm">
+                    {formatAddress(transaction.token)}
+                  </span>
+                </div>
+              )}
+
               <Separator />
 
               <div className="flex justify-between items-center">
@@ -337,77 +379,27 @@ export default function TransactionDetailsPage() {
                     'Transaction has been successfully completed.'}
                   {transaction.status === TransactionStatus.Rejected &&
                     'Transaction has been rejected and cannot be completed.'}
+                  {transaction.status === TransactionStatus.Cancelled &&
+                    'Transaction was cancelled by its sender.'}
+                  {transaction.status === TransactionStatus.Expired &&
+                    'The approval request expired before it was decided.'}
                 </p>
               </div>
 
-              {/* Status History */}
+              {/* Multi-Signature Progress */}
+              {approval && (
+                <div className="p-4 rounded-lg border">
+                  <ApprovalProgress approval={approval} />
+                </div>
+              )}
+
+              {/* Lifecycle Timeline */}
               <div>
                 <h4 className="font-medium mb-3">Transaction History</h4>
-                <div className="space-y-3">
-                  <div className="flex items-center space-x-3">
-                    <div className="w-2 h-2 bg-blue-500 rounded-full" />
-                    <div className="flex-1">
-                      <p className="text-sm font-medium">Transaction Created</p>
-                      <p className="text-xs text-muted-foreground">
-                        {new Date(
-                          Number(transaction.timestamp) * 1000
-                        ).toLocaleString()}
-                      </p>
-                    </div>
-                  </div>
-
-                  {/* Show approval/rejection only for Active, Completed, or Rejected status */}
-                  {(statusNum === TransactionStatus.Active ||
-                    statusNum === TransactionStatus.Completed ||
-                    statusNum === TransactionStatus.Rejected) && (
-                    <div className="flex items-center space-x-3">
-                      <div
-                        className={`w-2 h-2 rounded-full ${
-                          statusNum === TransactionStatus.Rejected
-                            ? 'bg-red-500'
-                            : 'bg-green-500'
-                        }`}
-                      />
-                      <div className="flex-1">
-                        <p className="text-sm font-medium">
-                          {statusNum === TransactionStatus.Rejected
-                            ? 'Transaction Rejected'
-                            : statusNum === TransactionStatus.Active
-                            ? 'Transaction Approved'
-                            : 'Transaction Completed'}
-                        </p>
-                        {approval && (
-                          <p className="text-xs text-muted-foreground">
-                            By:{' '}
-                            {approval.approver
-                              ? `${approval.approver.slice(
-                                  0,
-                                  6
-                                )}...${approval.approver.slice(-4)}`
-                              : 'Unknown'}
-                            {approverUser && (
-                              <span> ({UserRole[approverUser.role]})</span>
-                            )}
-                          </p>
-                        )}
-                      </div>
-                    </div>
-                  )}
-
-                  {transaction.status === TransactionStatus.Completed && (
-                    <div className="flex items-center space-x-3">
-                      <div className="w-2 h-2 bg-green-600 rounded-full" />
-                      <div className="flex-1">
-                        <p className="text-sm font-medium">
-                          Transaction Completed
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          Funds transferred successfully
-                        </p>
-                      </div>
-                    </div>
-                  )}
-                </div>
+                <TransactionTimeline
+                  transactionId={Number(transaction.id)}
+                  settlement={settlement}
+                />
               </div>
 
               {/* Actions */}
@@ -564,7 +556,7 @@ export default function TransactionDetailsPage() {
                     disabled={completeTransactionMutation.isPending}
                   >
                     {completeTransactionMutation.isPending
-                      ? 'Completing...'
+                      ? 'Settling...'
                       : 'Complete Transaction'}
                   </Button>
                   {completeTransactionMutation.isError && (
@@ -573,7 +565,28 @@ export default function TransactionDetailsPage() {
                     </p>
                   )}
                   <p className="text-xs text-muted-foreground text-center mt-2">
-                    This will transfer the funds to the recipient
+                    This will transfer the funds to the recipient. You may be
+                    asked to approve the token transfer first.
+                  </p>
+                </div>
+              )}
+              {canCancel && (
+                <div className="pt-4 border-t">
+                  <Button
+                    className="w-full"
+                    variant="destructive"
+                    onClick={() =>
+                      cancelTransactionMutation.mutate(Number(transaction.id))
+                    }
+                    disabled={cancelTransactionMutation.isPending}
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    {cancelTransactionMutation.isPending
+                      ? 'Cancelling...'
+                      : 'Cancel Transaction'}
+                  </Button>
+                  <p className="text-xs text-muted-foreground text-center mt-2">
+                    Any open approval request is withdrawn as well
                   </p>
                 </div>
               )}
@@ -1,12 +1,25 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { Suspense, useState, useEffect } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import Link from 'next/link';
 import { useWallet } from '@/lib/hooks/useWallet';
-import { useUserTransactions } from '@/lib/hooks/useContract';
+import {
+  useAllUsers,
+  useTokens,
+  useUserSchedules,
+  useUserTransactions,
+} from '@/lib/hooks/useContract';
+import { Pagination, usePagination } from '@/lib/hooks/usePagination';
+import { useUrlFilters } from '@/lib/hooks/useUrlFilters';
+import { filterTransactions } from '@/lib/filters';
+import {
+  TransactionFilterFormData,
+  transactionFilterSchema,
+} from '@/lib/schemas/forms';
+import { exportTransactions } from '@/lib/reports';
 import { TransactionStatus, Transaction } from '@/types/contracts';
-import { formatTokenAmount, formatAddress } from '@/lib/web3/provider';
+import { formatAddress } from '@/lib/web3/provider';
 import {
   Card,
   CardContent,
@@ -16,14 +29,6 @@ import {
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 import {
   Table,
   TableBody,
@@ -42,18 +47,25 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { LoadingPage } from '@/components/ui/loading-spinner';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { ExportMenu } from '@/components/ui/export-menu';
 import {
   ArrowLeftRight,
   Plus,
-  Search,
-  Filter,
+  Upload,
   Eye,
   Clock,
   CheckCircle,
   XCircle,
   AlertCircle,
+  Ban,
+  TimerOff,
 } from 'lucide-react';
 import { CreateTransactionForm } from '@/components/transactions/CreateTransactionForm';
+import { BulkTransactionImport } from '@/components/transactions/BulkTransactionImport';
+import { TransactionSchedules } from '@/components/transactions/TransactionSchedules';
+import { TokenAmount, TokenSymbol } from '@/components/web3/TokenAmount';
+import { FilterBar, FilterOption } from '@/components/filters/FilterBar';
 
 const getStatusIcon = (
   status: TransactionStatus | number | string | bigint
@@ -64,6 +76,10 @@ const getStatusIcon = (
       return <CheckCircle className="w-4 h-4 text-green-500" />;
     case TransactionStatus.Rejected:
       return <XCircle className="w-4 h-4 text-red-500" />;
+    case TransactionStatus.Cancelled:
+      return <Ban className="w-4 h-4 text-gray-500" />;
+    case TransactionStatus.Expired:
+      return <TimerOff className="w-4 h-4 text-orange-500" />;
     case TransactionStatus.Active:
       return <CheckCircle className="w-4 h-4 text-blue-500" />;
     case TransactionStatus.Pending:
@@ -85,6 +101,14 @@ const getStatusBadge = (
       variant: 'destructive' as const,
       label: 'Rejected',
     },
+    [TransactionStatus.Cancelled]: {
+      variant: 'outline' as const,
+      label: 'Cancelled',
+    },
+    [TransactionStatus.Expired]: {
+      variant: 'outline' as const,
+      label: 'Expired',
+    },
     [TransactionStatus.Active]: {
       variant: 'secondary' as const,
       label: 'Approved',
@@ -109,13 +133,46 @@ const getStatusBadge = (
   return <Badge variant={variant}>{label}</Badge>;
 };
 
+const TRANSACTION_STATUS_OPTIONS: FilterOption<
+  NonNullable<TransactionFilterFormData['status']>[number]
+>[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'active', label: 'Active' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'rejected', label: 'Rejected' },
+  { value: 'cancelled', label: 'Cancelled' },
+  { value: 'expired', label: 'Expired' },
+];
+
+const TRANSACTION_SORT_OPTIONS: FilterOption<
+  NonNullable<TransactionFilterFormData['sortBy']>
+>[] = [
+  { value: 'date', label: 'date' },
+  { value: 'amount', label: 'amount' },
+  { value: 'status', label: 'status' },
+  { value: 'description', label: 'description' },
+];
+
+// useSearchParams needs a Suspense boundary when the page is prerendered
 export default function TransactionsPage() {
+  return (
+    <Suspense fallback={<LoadingPage message="Loading transactions..." />}>
+      <TransactionsPageContent />
+    </Suspense>
+  );
+}
+
+function TransactionsPageContent() {
   const { isConnected, address } = useWallet();
   const { data: transactions = [], isLoading } = useUserTransactions(
     address || ''
   );
-  const [searchTerm, setSearchTerm] = useState('');
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const { data: users = [] } = useAllUsers();
+  const { data: tokens = [] } = useTokens();
+  const { data: schedules = [] } = useUserSchedules(address || '');
+  const { filters, setFilters, clearFilters } = useUrlFilters(
+    transactionFilterSchema
+  );
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const queryClient = useQueryClient();
 
@@ -126,19 +183,12 @@ export default function TransactionsPage() {
     }
   }, [address, queryClient]);
 
-  // Filter transactions
-  const filteredTransactions = transactions.filter((tx) => {
-    const matchesSearch =
-      formatAddress(tx.to).toLowerCase().includes(searchTerm.toLowerCase()) ||
-      formatAddress(tx.from).toLowerCase().includes(searchTerm.toLowerCase()) ||
-      tx.description.toLowerCase().includes(searchTerm.toLowerCase());
-
-    const matchesStatus =
-      statusFilter === 'all' ||
-      TransactionStatus[tx.status].toLowerCase() === statusFilter;
-
-    return matchesSearch && matchesStatus;
-  });
+  const filteredTransactions = filterTransactions(
+    transactions,
+    filters,
+    users,
+    tokens
+  );
 
   // Separate transactions by direction
   const sentTransactions = filteredTransactions.filter(
@@ -148,6 +198,11 @@ export default function TransactionsPage() {
     (tx) => tx.to === address
   );
 
+  // Each tab pages independently
+  const allPagination = usePagination(filteredTransactions);
+  const sentPagination = usePagination(sentTransactions);
+  const receivedPagination = usePagination(receivedTransactions);
+
   if (!isConnected) {
     return (
       <div className="flex items-center justify-center h-[60vh] animate-in fade-in duration-500">
@@ -169,81 +224,112 @@ export default function TransactionsPage() {
 
   const TransactionTable = ({
     transactions,
+    pagination,
     title,
+    exportName,
   }: {
     transactions: Transaction[];
+    pagination: Pagination<Transaction>;
     title: string;
+    exportName: string;
   }) => (
     <Card className="animate-in slide-in-from-bottom-4 duration-500">
-      <CardHeader>
-        <CardTitle className="flex items-center">
-          <ArrowLeftRight className="w-5 h-5 mr-2" />
-          {title}
-        </CardTitle>
-        <CardDescription>
-          {transactions.length} transaction
-          {transactions.length !== 1 ? 's' : ''}
-        </CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center">
+            <ArrowLeftRight className="w-5 h-5 mr-2" />
+            {title}
+          </CardTitle>
+          <CardDescription>
+            {pagination.total} transaction
+            {pagination.total !== 1 ? 's' : ''}
+          </CardDescription>
+        </div>
+        {/* Exports the whole filtered list, not just the current page */}
+        <ExportMenu
+          disabled={transactions.length === 0}
+          onExport={(format) =>
+            exportTransactions(transactions, users, tokens, exportName, format)
+          }
+        />
       </CardHeader>
       <CardContent>
-        {transactions.length === 0 ? (
+        {pagination.total === 0 ? (
           <div className="text-center py-8 text-muted-foreground animate-in fade-in duration-500">
             No transactions found
           </div>
         ) : (
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Status</TableHead>
-                <TableHead>From/To</TableHead>
-                <TableHead>Amount</TableHead>
-                <TableHead>Description</TableHead>
-                <TableHead>Date</TableHead>
-                <TableHead>Actions</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {transactions.map((tx, index) => (
-                <TableRow
-                  key={tx.id.toString()}
-                  className="animate-in slide-in-from-left-4 duration-300"
-                  style={{ animationDelay: `${index * 50}ms` }}
-                >
-                  <TableCell>
-                    <div className="flex items-center space-x-2">
-                      {getStatusIcon(tx.status)}
-                      {getStatusBadge(tx.status)}
-                    </div>
-                  </TableCell>
-                  <TableCell>
-                    <div className="font-mono text-sm">
-                      {tx.from === address ? (
-                        <span>To: {formatAddress(tx.to)}</span>
-                      ) : (
-                        <span>From: {formatAddress(tx.from)}</span>
-                      )}
-                    </div>
-                  </TableCell>
-                  <TableCell className="font-medium">
-                    {formatTokenAmount(tx.amount)} ETH
-                  </TableCell>
-                  <TableCell className="max-w-xs truncate">
-                    {tx.description}
-                  </TableCell>
-                  <TableCell>
-                    {new Date(Number(tx.timestamp) * 1000).toLocaleDateString()}
-                  </TableCell>
-                  <TableCell>
-                    <Link href={`/transactions/${tx.id}`}>
-                      <Button variant="ghost" size="sm">
-                        <Eye className="w-4 h-4" />
-                      </Button>
-                    </Link>
-                  </TableCell>
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Status</TableHead>
+                  <TableHead>From/To</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Token</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Actions</TableHead>
                 </TableRow>
-              ))}
-            </TableBody>
-          </Table>
+              </TableHeader>
+              <TableBody>
+                {pagination.pageItems.map((tx, index) => (
+                  <TableRow
+                    key={tx.id.toString()}
+                    className="animate-in slide-in-from-left-4 duration-300"
+                    style={{ animationDelay: `${index * 50}ms` }}
+                  >
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        {getStatusIcon(tx.status)}
+                        {getStatusBadge(tx.status)}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono text-sm">
+                        {tx.from === address ? (
+                          <span>To: {formatAddress(tx.to)}</span>
+                        ) : (
+                          <span>From: {formatAddress(tx.from)}</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-medium">
+                      <TokenAmount
+                        amount={tx.amount}
+                        token={tx.token}
+                        showSymbol={false}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <TokenSymbol token={tx.token} />
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">
+                      {tx.description}
+                    </TableCell>
+                    <TableCell>
+                      {new Date(
+                        Number(tx.timestamp) * 1000
+                      ).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <Link href={`/transactions/${tx.id}`}>
+                        <Button variant="ghost" size="sm">
+                          <Eye className="w-4 h-4" />
+                        </Button>
+                      </Link>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <TablePagination
+              page={pagination.page}
+              pageSize={pagination.pageSize}
+              total={pagination.total}
+              onPageChange={pagination.setPage}
+            />
+          </>
         )}
       </CardContent>
     </Card>
@@ -253,57 +339,72 @@ export default function TransactionsPage() {
     <div className="flex-1 space-y-4 p-4 md:p-8 pt-6">
       <div className="flex items-center justify-between space-y-2 animate-in slide-in-from-top-4 duration-500">
         <h2 className="text-3xl font-bold tracking-tight">Transactions</h2>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button
-              className="animate-in slide-in-from-right-4 duration-500"
-              style={{ animationDelay: '200ms' }}
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Create Transaction
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Create New Transaction</DialogTitle>
-              <DialogDescription>
-                Send funds to another registered user
-              </DialogDescription>
-            </DialogHeader>
-            <CreateTransactionForm
-              onSuccess={() => setIsCreateDialogOpen(false)}
-            />
-          </DialogContent>
-        </Dialog>
+        <div className="flex items-center gap-2">
+          <Dialog>
+            <DialogTrigger asChild>
+              <Button
+                variant="outline"
+                className="animate-in slide-in-from-right-4 duration-500"
+                style={{ animationDelay: '200ms' }}
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import CSV
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-3xl">
+              <DialogHeader>
+                <DialogTitle>Import Transactions</DialogTitle>
+                <DialogDescription>
+                  Create many transactions at once from a CSV file
+                </DialogDescription>
+              </DialogHeader>
+              <BulkTransactionImport />
+            </DialogContent>
+          </Dialog>
+          <Dialog
+            open={isCreateDialogOpen}
+            onOpenChange={setIsCreateDialogOpen}
+          >
+            <DialogTrigger asChild>
+              <Button
+                className="animate-in slide-in-from-right-4 duration-500"
+                style={{ animationDelay: '200ms' }}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Create Transaction
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="sm:max-w-md">
+              <DialogHeader>
+                <DialogTitle>Create New Transaction</DialogTitle>
+                <DialogDescription>
+                  Send funds to another registered user
+                </DialogDescription>
+              </DialogHeader>
+              <CreateTransactionForm
+                onSuccess={() => setIsCreateDialogOpen(false)}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
-      {/* Filters */}
+      {/* Filters (kept in the URL so filtered views can be shared) */}
       <div
-        className="flex flex-col sm:flex-row gap-4 animate-in slide-in-from-top-4 duration-500"
+        className="animate-in slide-in-from-top-4 duration-500"
         style={{ animationDelay: '100ms' }}
       >
-        <div className="relative flex-1">
-          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search by address or description..."
-            value={searchTerm}
-            onChange={(e) => setSearchTerm(e.target.value)}
-            className="pl-9"
-          />
-        </div>
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
-          <SelectTrigger className="w-[180px]">
-            <Filter className="w-4 h-4 mr-2" />
-            <SelectValue placeholder="Filter by status" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="pending">Pending</SelectItem>
-            <SelectItem value="active">Active</SelectItem>
-            <SelectItem value="completed">Completed</SelectItem>
-            <SelectItem value="rejected">Rejected</SelectItem>
-          </SelectContent>
-        </Select>
+        <FilterBar
+          filters={filters}
+          onChange={setFilters}
+          onClear={clearFilters}
+          searchPlaceholder="Search by name, address or description..."
+          choiceLabel="Statuses"
+          choiceOptions={TRANSACTION_STATUS_OPTIONS}
+          selectedChoices={filters.status ?? []}
+          onChoicesChange={(status) => setFilters({ status })}
+          sortOptions={TRANSACTION_SORT_OPTIONS}
+        />
       </div>
 
       {/* Transaction Tables */}
@@ -322,28 +423,42 @@ export default function TransactionsPage() {
           <TabsTrigger value="received">
             Received ({receivedTransactions.length})
           </TabsTrigger>
+          <TabsTrigger value="schedules">
+            Schedules ({schedules.length})
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="all" className="space-y-4">
           <TransactionTable
             transactions={filteredTransactions}
+            pagination={allPagination}
             title="All Transactions"
+            exportName="all-transactions"
           />
         </TabsContent>
 
         <TabsContent value="sent" className="space-y-4">
           <TransactionTable
             transactions={sentTransactions}
+            pagination={sentPagination}
             title="Sent Transactions"
+            exportName="sent-transactions"
           />
         </TabsContent>
 
         <TabsContent value="received" className="space-y-4">
           <TransactionTable
             transactions={receivedTransactions}
+            pagination={receivedPagination}
             title="Received Transactions"
+            exportName="received-transactions"
           />
         </TabsContent>
+
+        {/* Recurring templates aren't affected by the filters above */}
+        <TabsContent value="schedules" className="space-y-4">
+          <TransactionSchedules />
+        </TabsContent>
       </Tabs>
     </div>
   );
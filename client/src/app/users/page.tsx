@@ -6,11 +6,19 @@ import {
   useUser,
   useRegisterUser,
   useUpdateUserRole,
+  useRequestRoleChange,
+  useDeactivateUser,
+  useReactivateUser,
   useAllUsers,
+  useDelegations,
+  usePendingApprovals,
 } from '@/lib/hooks/useContract';
-import { UserRole } from '@/types/contracts';
+import { usePagination } from '@/lib/hooks/usePagination';
+import { useRoleGuard } from '@/lib/hooks/useRoleGuard';
+import { ApprovalType, User, UserRole } from '@/types/contracts';
 import { getAddress } from 'ethers';
 import { extractErrorMessage } from '@/lib/errors';
+import { formatAddress } from '@/lib/web3/provider';
 
 import {
   Card,
@@ -39,6 +47,10 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Separator } from '@/components/ui/separator';
+import { TablePagination } from '@/components/ui/table-pagination';
+import { EditProfileDialog } from '@/components/users/EditProfileDialog';
+import { SpendingLimitsCard } from '@/components/users/SpendingLimitsCard';
+import { AllowedTokensCard } from '@/components/web3/AllowedTokensCard';
 
 import {
   Users,
@@ -48,6 +60,9 @@ import {
   AlertTriangle,
   Loader2,
   CheckCircle,
+  UserX,
+  UserCheck,
+  Pencil,
 } from 'lucide-react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
@@ -63,7 +78,8 @@ const registerUserSchema = z.object({
     .min(1, 'Name is required')
     .max(100, 'Name must be less than 100 characters'),
   email: z.string().min(1, 'Email is required').email('Invalid email format'),
-  role: z.enum(['0', '1', '2']),
+  // Admins are promoted from registered users, with another admin's approval
+  role: z.enum(['0', '1']),
 });
 
 type RegisterUserFormData = z.infer<typeof registerUserSchema>;
@@ -118,8 +134,6 @@ const RegisterUserForm: React.FC<RegisterUserFormProps> = ({ onSuccess }) => {
         return 'Can create transactions and view own data';
       case '1':
         return 'Can approve transactions and manage regular users';
-      case '2':
-        return 'Full system access including user management';
       default:
         return '';
     }
@@ -183,7 +197,7 @@ const RegisterUserForm: React.FC<RegisterUserFormProps> = ({ onSuccess }) => {
         <Label htmlFor="role">User Role *</Label>
         <Select
           value={watch('role')}
-          onValueChange={(value) => setValue('role', value as '0' | '1' | '2')}
+          onValueChange={(value) => setValue('role', value as '0' | '1')}
           disabled={isLoading}
         >
           <SelectTrigger className={errors.role ? 'border-red-500' : ''}>
@@ -202,19 +216,14 @@ const RegisterUserForm: React.FC<RegisterUserFormProps> = ({ onSuccess }) => {
                 Manager
               </div>
             </SelectItem>
-            <SelectItem value="2">
-              <div className="flex items-center">
-                <Shield className="w-4 h-4 mr-2" />
-                Admin
-              </div>
-            </SelectItem>
           </SelectContent>
         </Select>
         {errors.role && (
           <p className="text-sm text-red-500">{errors.role.message}</p>
         )}
         <p className="text-xs text-muted-foreground">
-          {getRoleDescription(watch('role'))}
+          {getRoleDescription(watch('role'))}. Admins are added by promoting a
+          registered user.
         </p>
       </div>
 
@@ -243,7 +252,6 @@ const RegisterUserForm: React.FC<RegisterUserFormProps> = ({ onSuccess }) => {
             <span className="font-medium">
               {watch('role') === '0' && 'Regular User'}
               {watch('role') === '1' && 'Manager'}
-              {watch('role') === '2' && 'Admin'}
               {!watch('role') && 'Not selected'}
             </span>
           </div>
@@ -288,23 +296,45 @@ const RegisterUserForm: React.FC<RegisterUserFormProps> = ({ onSuccess }) => {
   );
 };
 
-// Add a new component for updating user roles
+// Add a new component for updating user roles.
+// Demotions apply immediately; promotions are submitted as a UserRole
+// approval request that another admin must process.
 const UpdateUserRoleForm: React.FC<{
   walletAddress: string;
   currentRole: UserRole;
   onSuccess?: (newRole: UserRole) => void;
 }> = ({ walletAddress, currentRole, onSuccess }) => {
   const updateUserRoleMutation = useUpdateUserRole();
+  const requestRoleChangeMutation = useRequestRoleChange();
   const [role, setRole] = React.useState<UserRole>(currentRole);
+  const [reason, setReason] = React.useState('');
   const [error, setError] = React.useState<string | null>(null);
 
+  const isPromotion = role > currentRole;
+  const isPending =
+    updateUserRoleMutation.isPending || requestRoleChangeMutation.isPending;
+
   const handleUpdate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (role === currentRole) return;
+    if (isPromotion && !reason.trim()) {
+      setError('Reason is required for promotions');
+      return;
+    }
     setError(null);
     try {
       // Normalize and validate the address
       const normalizedAddress = getAddress(walletAddress);
+      if (isPromotion) {
+        await requestRoleChangeMutation.mutateAsync({
+          walletAddress: normalizedAddress,
+          role,
+          reason: reason.trim(),
+        });
+        setReason('');
+        setRole(currentRole);
+        return;
+      }
       await updateUserRoleMutation.mutateAsync({
         walletAddress: normalizedAddress,
         role,
@@ -330,18 +360,75 @@ const UpdateUserRoleForm: React.FC<{
           <SelectItem value="2">Admin</SelectItem>
         </SelectContent>
       </Select>
+      {isPromotion && (
+        <Input
+          placeholder="Reason for promotion"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          disabled={isPending}
+          className="w-48"
+        />
+      )}
       <Button
         type="submit"
         size="sm"
-        disabled={updateUserRoleMutation.isPending || role === currentRole}
+        disabled={isPending || role === currentRole}
       >
-        {updateUserRoleMutation.isPending ? 'Updating...' : 'Update'}
+        {isPending
+          ? 'Submitting...'
+          : isPromotion
+          ? 'Request Approval'
+          : 'Update'}
       </Button>
       {error && <span className="text-xs text-red-500 ml-2">{error}</span>}
     </form>
   );
 };
 
+// Deactivate / reactivate action for a single user
+const UserActivationButton: React.FC<{
+  walletAddress: string;
+  isActive: boolean;
+  isSelf: boolean;
+}> = ({ walletAddress, isActive, isSelf }) => {
+  const deactivateUserMutation = useDeactivateUser();
+  const reactivateUserMutation = useReactivateUser();
+  const isPending =
+    deactivateUserMutation.isPending || reactivateUserMutation.isPending;
+
+  const handleClick = async () => {
+    try {
+      const normalizedAddress = getAddress(walletAddress);
+      if (isActive) {
+        await deactivateUserMutation.mutateAsync(normalizedAddress);
+      } else {
+        await reactivateUserMutation.mutateAsync(normalizedAddress);
+      }
+    } catch (err) {
+      console.error('Error updating user status:', err);
+    }
+  };
+
+  return (
+    <Button
+      variant={isActive ? 'outline' : 'default'}
+      size="sm"
+      onClick={handleClick}
+      disabled={isPending || isSelf}
+      title={isSelf ? 'You cannot deactivate yourself' : undefined}
+    >
+      {isPending ? (
+        <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+      ) : isActive ? (
+        <UserX className="w-4 h-4 mr-1" />
+      ) : (
+        <UserCheck className="w-4 h-4 mr-1" />
+      )}
+      {isActive ? 'Deactivate' : 'Reactivate'}
+    </Button>
+  );
+};
+
 export default function UsersPage() {
   const { isConnected, address } = useWallet();
   const { data: user } = useUser(address || '');
@@ -351,10 +438,62 @@ export default function UsersPage() {
     error: usersError,
     refetch,
   } = useAllUsers();
+  const { data: pendingApprovals = [] } = usePendingApprovals();
+  const { data: delegations = [] } = useDelegations();
   const [isRegisterDialogOpen, setIsRegisterDialogOpen] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+
+  // Leave the page if a role change or deactivation revokes access while
+  // it's open
+  useRoleGuard([UserRole.Admin]);
+
+  // Check if user has (active) admin permissions
+  const isAdmin = user?.role === UserRole.Admin && user.isActive;
+
+  // Promotions awaiting another admin's approval, keyed by user address
+  const pendingRoleChanges = new Map(
+    pendingApprovals
+      .filter(
+        (approval) =>
+          Number(approval.approvalType) === ApprovalType.UserRole &&
+          approval.roleChange
+      )
+      .map((approval) => [
+        approval.roleChange!.userAddress.toLowerCase(),
+        approval.roleChange!.newRole,
+      ])
+  );
 
-  // Check if user has admin permissions
-  const isAdmin = user?.role === UserRole.Admin;
+  // Current and scheduled delegations, from either side
+  const getUserName = (account: string) =>
+    users.find(
+      (u) => u.walletAddress.toLowerCase() === account.toLowerCase()
+    )?.name || formatAddress(account);
+  const describeDelegations = (account: string) =>
+    delegations.flatMap((delegation) => {
+      const until = new Date(
+        Number(delegation.endsAt) * 1000
+      ).toLocaleDateString();
+      if (delegation.delegator.toLowerCase() === account.toLowerCase()) {
+        return [
+          `Delegated to ${getUserName(delegation.delegate)} until ${until}`,
+        ];
+      }
+      if (delegation.delegate.toLowerCase() === account.toLowerCase()) {
+        return [
+          `Covering for ${getUserName(delegation.delegator)} until ${until}`,
+        ];
+      }
+      return [];
+    });
+
+  const filteredUsers = users.filter(
+    (u) =>
+      statusFilter === 'all' ||
+      (statusFilter === 'active' ? u.isActive : !u.isActive)
+  );
+  const userPagination = usePagination(filteredUsers);
 
   if (!isConnected) {
     return (
@@ -460,7 +599,9 @@ export default function UsersPage() {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold">{users.length}</div>
-            <p className="text-xs text-muted-foreground">Registered users</p>
+            <p className="text-xs text-muted-foreground">
+              {users.filter((u) => !u.isActive).length} inactive
+            </p>
           </CardContent>
         </Card>
 
@@ -629,7 +770,14 @@ export default function UsersPage() {
                 style={{ animationDelay: `${400 + index * 50}ms` }}
               >
                 <div className="flex items-center justify-between mb-2">
-                  <span className="font-medium text-sm">{user.name}</span>
+                  <span className="font-medium text-sm">
+                    {user.name}
+                    {!user.isActive && (
+                      <Badge variant="destructive" className="ml-2 text-xs">
+                        Inactive
+                      </Badge>
+                    )}
+                  </span>
                   <Badge
                     variant={
                       user.role === UserRole.Admin
@@ -656,9 +804,24 @@ export default function UsersPage() {
         className="animate-in slide-in-from-bottom-4 duration-500"
         style={{ animationDelay: '400ms' }}
       >
-        <CardHeader>
-          <CardTitle>User Role Management</CardTitle>
-          <CardDescription>Update user roles as an admin</CardDescription>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>User Role Management</CardTitle>
+            <CardDescription>
+              Update user roles as an admin. Promotions require approval from
+              another admin.
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Users</SelectItem>
+              <SelectItem value="active">Active</SelectItem>
+              <SelectItem value="inactive">Inactive</SelectItem>
+            </SelectContent>
+          </Select>
         </CardHeader>
         <CardContent>
           <table className="min-w-full text-sm">
@@ -667,11 +830,24 @@ export default function UsersPage() {
                 <th className="text-left p-2">Name</th>
                 <th className="text-left p-2">Address</th>
                 <th className="text-left p-2">Current Role</th>
+                <th className="text-left p-2">Status</th>
                 <th className="text-left p-2">Update Role</th>
+                <th className="text-left p-2">Access</th>
+                <th className="text-left p-2">Profile</th>
               </tr>
             </thead>
             <tbody>
-              {users.map((user, index) => (
+              {filteredUsers.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={7}
+                    className="p-4 text-center text-muted-foreground"
+                  >
+                    No users match this filter
+                  </td>
+                </tr>
+              )}
+              {userPagination.pageItems.map((user, index) => (
                 <tr
                   key={user.walletAddress}
                   className="border-b animate-in slide-in-from-left-4 duration-300"
@@ -679,7 +855,39 @@ export default function UsersPage() {
                 >
                   <td className="p-2">{user.name}</td>
                   <td className="p-2 font-mono">{user.walletAddress}</td>
-                  <td className="p-2">{UserRole[user.role]}</td>
+                  <td className="p-2">
+                    <div className="flex items-center gap-2">
+                      {UserRole[user.role]}
+                      {pendingRoleChanges.has(
+                        user.walletAddress.toLowerCase()
+                      ) && (
+                        <Badge variant="outline" className="text-xs">
+                          Pending →{' '}
+                          {
+                            UserRole[
+                              pendingRoleChanges.get(
+                                user.walletAddress.toLowerCase()
+                              )!
+                            ]
+                          }
+                        </Badge>
+                      )}
+                      {describeDelegations(user.walletAddress).map((text) => (
+                        <Badge
+                          key={text}
+                          variant="secondary"
+                          className="text-xs"
+                        >
+                          {text}
+                        </Badge>
+                      ))}
+                    </div>
+                  </td>
+                  <td className="p-2">
+                    <Badge variant={user.isActive ? 'outline' : 'destructive'}>
+                      {user.isActive ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </td>
                   <td className="p-2">
                     <UpdateUserRoleForm
                       walletAddress={user.walletAddress}
@@ -687,12 +895,60 @@ export default function UsersPage() {
                       onSuccess={() => refetch()}
                     />
                   </td>
+                  <td className="p-2">
+                    <UserActivationButton
+                      walletAddress={user.walletAddress}
+                      isActive={user.isActive}
+                      isSelf={
+                        user.walletAddress.toLowerCase() ===
+                        address?.toLowerCase()
+                      }
+                    />
+                  </td>
+                  <td className="p-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingUser(user)}
+                    >
+                      <Pencil className="w-4 h-4 mr-1" />
+                      Edit
+                    </Button>
+                  </td>
                 </tr>
               ))}
             </tbody>
           </table>
+          <TablePagination
+            page={userPagination.page}
+            pageSize={userPagination.pageSize}
+            total={userPagination.total}
+            onPageChange={userPagination.setPage}
+          />
         </CardContent>
       </Card>
+
+      {/* Spending Limits */}
+      <SpendingLimitsCard />
+
+      {/* Allowed Tokens */}
+      <AllowedTokensCard />
+
+      {/* Edit Profile Dialog */}
+      {editingUser && (
+        <Dialog
+          open={!!editingUser}
+          onOpenChange={() => setEditingUser(null)}
+        >
+          <EditProfileDialog
+            user={editingUser}
+            onSuccess={() => {
+              setEditingUser(null);
+              refetch();
+            }}
+          />
+        </Dialog>
+      )}
     </div>
   );
 }
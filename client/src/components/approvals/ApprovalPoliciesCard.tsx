@@ -0,0 +1,377 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  useApprovalPolicies,
+  useSetApprovalPolicy,
+  useRemoveApprovalPolicy,
+  useApprovalDeadline,
+  useSetApprovalDeadline,
+  useApprovalTiers,
+  useSetApprovalTiers,
+} from '@/lib/hooks/useContract';
+import { formatTokenBalance, parseTokenAmount } from '@/lib/web3/provider';
+import { describeThreshold } from '@/components/approvals/ApprovalProgress';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Settings, Trash2 } from 'lucide-react';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+// Admin setting for how long new approval requests stay open
+const ApprovalDeadlineForm: React.FC = () => {
+  const { data: deadline = 0 } = useApprovalDeadline();
+  const setDeadlineMutation = useSetApprovalDeadline();
+  const [days, setDays] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const value = Number(days);
+    if (days.trim() === '' || isNaN(value) || value < 0) {
+      setError('Enter a number of days, or 0 for no deadline');
+      return;
+    }
+
+    try {
+      await setDeadlineMutation.mutateAsync(
+        Math.round(value * SECONDS_PER_DAY)
+      );
+      setDays('');
+    } catch (err) {
+      console.error('Error saving approval deadline:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-2 pt-4 border-t">
+      <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2 md:col-span-3">
+          <Label htmlFor="approvalDeadlineDays">
+            Approval Deadline (days)
+          </Label>
+          <Input
+            id="approvalDeadlineDays"
+            type="number"
+            min="0"
+            step="any"
+            placeholder={
+              deadline > 0 ? String(deadline / SECONDS_PER_DAY) : 'No deadline'
+            }
+            value={days}
+            onChange={(e) => setDays(e.target.value)}
+          />
+        </div>
+        <div className="flex items-end">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={setDeadlineMutation.isPending}
+          >
+            {setDeadlineMutation.isPending ? 'Saving...' : 'Save Deadline'}
+          </Button>
+        </div>
+      </form>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <p className="text-xs text-muted-foreground">
+        Requests still undecided after the deadline expire and can no longer be
+        approved. Use 0 for no deadline; open requests keep their current one.
+      </p>
+    </div>
+  );
+};
+
+// Admin setting for routing new transactions by amount
+const ApprovalTiersForm: React.FC = () => {
+  const { data: tiers } = useApprovalTiers();
+  const setTiersMutation = useSetApprovalTiers();
+  const [autoApproveBelow, setAutoApproveBelow] = useState('');
+  const [adminApprovalFrom, setAdminApprovalFrom] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    let autoApproveWei: bigint;
+    let adminFromWei: bigint;
+    try {
+      autoApproveWei = parseTokenAmount(autoApproveBelow || '0');
+      adminFromWei = parseTokenAmount(adminApprovalFrom);
+    } catch {
+      setError('Enter both tiers as PLT amounts');
+      return;
+    }
+    if (autoApproveWei > adminFromWei) {
+      setError('The auto-approve tier cannot be above the admin tier');
+      return;
+    }
+
+    try {
+      await setTiersMutation.mutateAsync({
+        enabled: true,
+        autoApproveBelow: autoApproveWei,
+        adminApprovalFrom: adminFromWei,
+      });
+      setAutoApproveBelow('');
+      setAdminApprovalFrom('');
+    } catch (err) {
+      console.error('Error saving approval tiers:', err);
+    }
+  };
+
+  const handleDisable = async () => {
+    if (!tiers) return;
+    try {
+      await setTiersMutation.mutateAsync({ ...tiers, enabled: false });
+    } catch (err) {
+      console.error('Error disabling approval tiers:', err);
+    }
+  };
+
+  return (
+    <div className="space-y-2 pt-4 border-t">
+      <p className="text-sm font-medium">
+        Approval Routing:{' '}
+        {tiers?.enabled
+          ? `auto-approve below ${formatTokenBalance(
+              tiers.autoApproveBelow
+            )} PLT, admins only from ${formatTokenBalance(
+              tiers.adminApprovalFrom
+            )} PLT`
+          : 'off (senders request approval themselves)'}
+      </p>
+      <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4">
+        <div className="space-y-2">
+          <Label htmlFor="autoApproveBelow">Auto-Approve Below (PLT)</Label>
+          <Input
+            id="autoApproveBelow"
+            type="number"
+            min="0"
+            placeholder="100"
+            value={autoApproveBelow}
+            onChange={(e) => setAutoApproveBelow(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="adminApprovalFrom">Admins Only From (PLT)</Label>
+          <Input
+            id="adminApprovalFrom"
+            type="number"
+            min="0"
+            placeholder="10000"
+            value={adminApprovalFrom}
+            onChange={(e) => setAdminApprovalFrom(e.target.value)}
+          />
+        </div>
+        <div className="flex items-end">
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={setTiersMutation.isPending}
+          >
+            {setTiersMutation.isPending ? 'Saving...' : 'Save Tiers'}
+          </Button>
+        </div>
+        <div className="flex items-end">
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handleDisable}
+            disabled={!tiers?.enabled || setTiersMutation.isPending}
+          >
+            Turn Off
+          </Button>
+        </div>
+      </form>
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      <p className="text-xs text-muted-foreground">
+        New transactions below the first tier are approved straight away; the
+        rest get an approval request, which only admins can sign from the
+        second tier. Existing requests keep their routing.
+      </p>
+    </div>
+  );
+};
+
+// Admin-only configuration of multi-signature approval thresholds
+export const ApprovalPoliciesCard: React.FC = () => {
+  const { data: policies = [], isLoading } = useApprovalPolicies();
+  const setPolicyMutation = useSetApprovalPolicy();
+  const removePolicyMutation = useRemoveApprovalPolicy();
+
+  const [minAmount, setMinAmount] = useState('');
+  const [requiredApprovals, setRequiredApprovals] = useState('2');
+  const [requiredAdminApprovals, setRequiredAdminApprovals] = useState('1');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const approvals = parseInt(requiredApprovals);
+    const adminApprovals = parseInt(requiredAdminApprovals || '0');
+    if (isNaN(approvals) || approvals < 1) {
+      setError('At least one approval is required');
+      return;
+    }
+    if (isNaN(adminApprovals) || adminApprovals < 0) {
+      setError('Admin approvals must be zero or more');
+      return;
+    }
+
+    let minAmountWei: bigint;
+    try {
+      minAmountWei = parseTokenAmount(minAmount || '0');
+    } catch {
+      setError('Invalid minimum amount');
+      return;
+    }
+
+    try {
+      await setPolicyMutation.mutateAsync({
+        minAmount: minAmountWei,
+        requiredApprovals: approvals,
+        requiredAdminApprovals: adminApprovals,
+      });
+      setMinAmount('');
+    } catch (err) {
+      console.error('Error saving approval policy:', err);
+    }
+  };
+
+  return (
+    <Card className="animate-in slide-in-from-bottom-4 duration-500">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Settings className="w-5 h-5 mr-2" />
+          Approval Policies
+        </CardTitle>
+        <CardDescription>
+          Require multiple approvers for larger transactions. Transactions
+          below every policy need a single approval.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-4 h-4 animate-spin mr-2" />
+            Loading policies...
+          </div>
+        ) : policies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No policies configured
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Amount From</TableHead>
+                <TableHead>Requirement</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.minAmount.toString()}>
+                  <TableCell className="font-medium">
+                    {formatTokenBalance(policy.minAmount)} PLT
+                  </TableCell>
+                  <TableCell>
+                    {describeThreshold(
+                      policy.requiredApprovals,
+                      policy.requiredAdminApprovals
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        removePolicyMutation.mutate(policy.minAmount)
+                      }
+                      disabled={removePolicyMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label htmlFor="policyMinAmount">Amount From (PLT)</Label>
+            <Input
+              id="policyMinAmount"
+              type="number"
+              min="0"
+              placeholder="10000"
+              value={minAmount}
+              onChange={(e) => setMinAmount(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policyApprovals">Approvals</Label>
+            <Input
+              id="policyApprovals"
+              type="number"
+              min="1"
+              value={requiredApprovals}
+              onChange={(e) => setRequiredApprovals(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="policyAdminApprovals">Or Admins</Label>
+            <Input
+              id="policyAdminApprovals"
+              type="number"
+              min="0"
+              value={requiredAdminApprovals}
+              onChange={(e) => setRequiredAdminApprovals(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={setPolicyMutation.isPending}
+            >
+              {setPolicyMutation.isPending ? 'Saving...' : 'Save Policy'}
+            </Button>
+          </div>
+        </form>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <p className="text-xs text-muted-foreground">
+          Set &quot;Or Admins&quot; to 0 to disable the admin shortcut. Saving a
+          policy for an existing amount replaces it.
+        </p>
+
+        <ApprovalTiersForm />
+
+        <ApprovalDeadlineForm />
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,159 @@
+'use client';
+
+import React from 'react';
+import { ethers } from 'ethers';
+import { useUser } from '@/lib/hooks/useContract';
+import {
+  Approval,
+  ApprovalSignature,
+  ApprovalStatus,
+  UserRole,
+} from '@/types/contracts';
+import { formatAddress } from '@/lib/web3/provider';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle, Clock, XCircle } from 'lucide-react';
+
+interface ApprovalProgressProps {
+  approval: Approval;
+  compact?: boolean;
+}
+
+// Count approving signatures, and how many of those came from admins
+export const countApprovals = (approval: Approval) => {
+  const approvedSignatures = approval.signatures.filter((sig) => sig.approved);
+  return {
+    approvalCount: approvedSignatures.length,
+    adminApprovalCount: approvedSignatures.filter((sig) => sig.isAdmin).length,
+  };
+};
+
+// Human-readable summary of an approval's threshold, e.g. "2 approvals or 1 admin"
+export const describeThreshold = (
+  requiredApprovals: bigint,
+  requiredAdminApprovals: bigint
+): string => {
+  const approvals = Number(requiredApprovals);
+  const admins = Number(requiredAdminApprovals);
+  const base = `${approvals} approval${approvals !== 1 ? 's' : ''}`;
+  return admins > 0 ? `${base} or ${admins} admin${admins !== 1 ? 's' : ''}` : base;
+};
+
+const SignatureRow: React.FC<{ signature: ApprovalSignature }> = ({
+  signature,
+}) => {
+  const { data: signer } = useUser(signature.approver);
+  const hasDelegate = signature.delegate !== ethers.ZeroAddress;
+  const { data: delegate } = useUser(hasDelegate ? signature.delegate : '');
+
+  return (
+    <div className="flex items-start space-x-3">
+      {signature.approved ? (
+        <CheckCircle className="w-4 h-4 mt-0.5 text-green-500" />
+      ) : (
+        <XCircle className="w-4 h-4 mt-0.5 text-red-500" />
+      )}
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium">
+            {signer?.name || formatAddress(signature.approver)}
+          </span>
+          <Badge variant="outline" className="text-xs">
+            {signature.isAdmin ? 'Admin' : 'Manager'}
+          </Badge>
+        </div>
+        {hasDelegate && (
+          <p className="text-xs text-muted-foreground">
+            Signed by delegate{' '}
+            {delegate?.name || formatAddress(signature.delegate)}
+          </p>
+        )}
+        {signature.reason && (
+          <p className="text-xs text-muted-foreground break-words">
+            {signature.reason}
+          </p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {new Date(Number(signature.timestamp) * 1000).toLocaleString()}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export const ApprovalProgress: React.FC<ApprovalProgressProps> = ({
+  approval,
+  compact = false,
+}) => {
+  const { approvalCount, adminApprovalCount } = countApprovals(approval);
+  const required = Number(approval.requiredApprovals) || 1;
+  const requiredAdmins = Number(approval.requiredAdminApprovals);
+
+  // Progress towards whichever threshold is closer to being met
+  const progress = Math.min(
+    1,
+    Math.max(
+      approvalCount / required,
+      requiredAdmins > 0 ? adminApprovalCount / requiredAdmins : 0
+    )
+  );
+
+  if (compact) {
+    return (
+      <div className="space-y-1 min-w-24">
+        <div className="text-xs font-medium">
+          {approvalCount} / {required} approvals
+        </div>
+        <div className="h-1.5 bg-gray-100 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-green-500 transition-all duration-300"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+        {requiredAdmins > 0 && (
+          <div className="text-xs text-muted-foreground">
+            or {requiredAdmins} admin
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const remaining = Math.max(0, required - approvalCount);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Approval Progress</span>
+        <span className="text-xs text-muted-foreground">
+          Requires{' '}
+          {describeThreshold(
+            approval.requiredApprovals,
+            approval.requiredAdminApprovals
+          )}
+          {approval.approverRole === UserRole.Admin && ' from admins'}
+        </span>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-green-500 transition-all duration-300"
+          style={{ width: `${progress * 100}%` }}
+        />
+      </div>
+      <div className="space-y-3">
+        {approval.signatures.map((signature) => (
+          <SignatureRow key={signature.approver} signature={signature} />
+        ))}
+        {Number(approval.status) === ApprovalStatus.Pending &&
+          Array.from({ length: remaining }).map((_, index) => (
+            <div
+              key={`awaiting-${index}`}
+              className="flex items-center space-x-3 text-muted-foreground"
+            >
+              <Clock className="w-4 h-4" />
+              <span className="text-sm">Awaiting approver</span>
+            </div>
+          ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useWallet } from '@/lib/hooks/useWallet';
+import {
+  useAllUsers,
+  useDelegations,
+  useDelegateApprovals,
+  useRevokeDelegation,
+} from '@/lib/hooks/useContract';
+import { UserRole } from '@/types/contracts';
+import { formatAddress } from '@/lib/web3/provider';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { UserCheck } from 'lucide-react';
+
+const formatTimestamp = (seconds: bigint) =>
+  new Date(Number(seconds) * 1000).toLocaleString();
+
+// Unix seconds for a datetime-local input value, in local time
+const toSeconds = (value: string) =>
+  Math.floor(new Date(value).getTime() / 1000);
+
+// Hands the connected approver's signing authority to another user while away
+export const DelegationCard: React.FC = () => {
+  const { address } = useWallet();
+  const { data: users = [] } = useAllUsers();
+  const { data: delegations = [] } = useDelegations();
+  const delegateMutation = useDelegateApprovals();
+  const revokeMutation = useRevokeDelegation();
+
+  const [delegate, setDelegate] = useState('');
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const lowerAddress = (address || '').toLowerCase();
+  const current = delegations.find(
+    (delegation) => delegation.delegator.toLowerCase() === lowerAddress
+  );
+  const getName = (account: string) =>
+    users.find(
+      (user) => user.walletAddress.toLowerCase() === account.toLowerCase()
+    )?.name || formatAddress(account);
+
+  // The contract only accepts active users without an approver role
+  const candidates = users.filter(
+    (user) =>
+      user.isActive &&
+      user.role === UserRole.Regular &&
+      user.walletAddress.toLowerCase() !== lowerAddress
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!delegate) {
+      setError('Choose who will cover for you');
+      return;
+    }
+    if (!endsAt) {
+      setError('Choose when the delegation ends');
+      return;
+    }
+
+    const start = startsAt
+      ? toSeconds(startsAt)
+      : Math.floor(Date.now() / 1000);
+    const end = toSeconds(endsAt);
+    if (end <= start || end * 1000 <= Date.now()) {
+      setError('The delegation must end in the future, after it starts');
+      return;
+    }
+
+    try {
+      await delegateMutation.mutateAsync({
+        delegate,
+        startsAt: start,
+        endsAt: end,
+      });
+      setDelegate('');
+      setStartsAt('');
+      setEndsAt('');
+    } catch (err) {
+      console.error('Error delegating approvals:', err);
+    }
+  };
+
+  return (
+    <Card className="animate-in slide-in-from-bottom-4 duration-500">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <UserCheck className="w-5 h-5 mr-2" />
+          Approval Delegation
+        </CardTitle>
+        <CardDescription>
+          Let another user sign approvals on your behalf while you&apos;re
+          away. Their signatures count as yours.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {current ? (
+          <div className="flex items-center justify-between gap-4 p-4 rounded-lg border">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">
+                  {getName(current.delegate)}
+                </span>
+                <Badge variant="outline" className="text-xs">
+                  {Number(current.startsAt) * 1000 > Date.now()
+                    ? 'Scheduled'
+                    : 'Active'}
+                </Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {formatTimestamp(current.startsAt)} –{' '}
+                {formatTimestamp(current.endsAt)}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => revokeMutation.mutate()}
+              disabled={revokeMutation.isPending}
+            >
+              {revokeMutation.isPending ? 'Revoking...' : 'Revoke'}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            You haven&apos;t delegated your approvals
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Delegate</Label>
+            <Select value={delegate} onValueChange={setDelegate}>
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Choose a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((user) => (
+                  <SelectItem
+                    key={user.walletAddress}
+                    value={user.walletAddress}
+                  >
+                    {user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegationStartsAt">From</Label>
+            <Input
+              id="delegationStartsAt"
+              type="datetime-local"
+              value={startsAt}
+              onChange={(e) => setStartsAt(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="delegationEndsAt">Until</Label>
+            <Input
+              id="delegationEndsAt"
+              type="datetime-local"
+              value={endsAt}
+              onChange={(e) => setEndsAt(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={delegateMutation.isPending}
+            >
+              {delegateMutation.isPending ? 'Saving...' : 'Delegate'}
+            </Button>
+          </div>
+        </form>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <p className="text-xs text-muted-foreground">
+          Leave &quot;From&quot; empty to start now. Saving replaces your
+          current delegation.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
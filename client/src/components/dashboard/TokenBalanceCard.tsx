@@ -0,0 +1,61 @@
+'use client';
+
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { useTokenAllowance, useTokenBalance } from '@/lib/hooks/useContract';
+import { formatTokenBalance } from '@/lib/web3/provider';
+import { Coins } from 'lucide-react';
+
+interface TokenBalanceCardProps {
+  userAddress: string;
+}
+
+export const TokenBalanceCard: React.FC<TokenBalanceCardProps> = ({
+  userAddress,
+}) => {
+  const { data: tokenBalance, isLoading } = useTokenBalance(userAddress);
+  const { data: allowance = BigInt(0) } = useTokenAllowance(userAddress);
+
+  const symbol = tokenBalance?.symbol || 'PLT';
+  const decimals = tokenBalance?.decimals ?? 18;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Coins className="w-5 h-5 mr-2" />
+          Wallet Balance
+        </CardTitle>
+        <CardDescription>Platform token used to settle payments</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-3xl font-bold">
+            {isLoading || !tokenBalance
+              ? '—'
+              : formatTokenBalance(tokenBalance.balance, decimals)}
+            <span className="text-base font-medium text-muted-foreground ml-2">
+              {symbol}
+            </span>
+          </p>
+        </div>
+
+        <Separator />
+
+        <div className="flex justify-between items-center text-sm">
+          <span className="text-muted-foreground">Approved for settlement</span>
+          <span className="font-medium">
+            {formatTokenBalance(allowance, decimals)} {symbol}
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
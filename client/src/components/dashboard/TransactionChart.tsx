@@ -3,7 +3,9 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { ZeroAddress } from 'ethers';
 import { Transaction } from '@/types/contracts';
+import { useTokenInfo } from '@/lib/hooks/useContract';
 import { formatTokenAmount } from '@/lib/web3/provider';
 import { TrendingUp, TrendingDown, BarChart3 } from 'lucide-react';
 
@@ -23,13 +25,22 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
   transactions,
   userAddress,
 }) => {
+  // Totals are in the settlement token; other tokens only count as activity
+  const { data: settlementToken } = useTokenInfo();
+  const symbol = settlementToken?.symbol ?? '';
+
   // Process transactions into chart data
   const processChartData = (): ChartData[] => {
     const dataMap = new Map<string, ChartData>();
 
     transactions.forEach((tx) => {
       const date = new Date(Number(tx.timestamp) * 1000).toLocaleDateString();
-      const amount = Number(formatTokenAmount(tx.amount));
+      const amount =
+        settlementToken &&
+        (tx.token === ZeroAddress ||
+          tx.token.toLowerCase() === settlementToken.address.toLowerCase())
+          ? Number(formatTokenAmount(tx.amount, settlementToken.decimals))
+          : 0;
 
       if (!dataMap.has(date)) {
         dataMap.set(date, { date, sent: 0, received: 0, count: 0 });
@@ -99,7 +110,7 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
               <span className="text-sm font-medium">Sent</span>
             </div>
             <p className="text-lg font-bold text-red-600">
-              {totalSent.toFixed(2)} ETH
+              {totalSent.toFixed(2)} {symbol}
             </p>
           </div>
           <div className="text-center">
@@ -108,7 +119,7 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
               <span className="text-sm font-medium">Received</span>
             </div>
             <p className="text-lg font-bold text-green-600">
-              {totalReceived.toFixed(2)} ETH
+              {totalReceived.toFixed(2)} {symbol}
             </p>
           </div>
           <div className="text-center">
@@ -176,8 +187,12 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
                   </div>
                 </div>
                 <div className="flex justify-between text-xs text-muted-foreground">
-                  <span>{data.sent.toFixed(2)} ETH</span>
-                  <span>{data.received.toFixed(2)} ETH</span>
+                  <span>
+                    {data.sent.toFixed(2)} {symbol}
+                  </span>
+                  <span>
+                    {data.received.toFixed(2)} {symbol}
+                  </span>
                 </div>
               </div>
             ))}
@@ -202,7 +217,7 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
               )}
               <span className="font-bold">
                 {totalReceived - totalSent >= 0 ? '+' : ''}
-                {(totalReceived - totalSent).toFixed(2)} ETH
+                {(totalReceived - totalSent).toFixed(2)} {symbol}
               </span>
             </div>
           </div>
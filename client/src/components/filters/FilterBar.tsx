@@ -0,0 +1,227 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { BaseFilters } from '@/lib/filters';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Filter, Search, X } from 'lucide-react';
+
+// Typing is committed to the URL after a short pause
+const INPUT_COMMIT_DELAY_MS = 300;
+
+interface FilterInputProps extends Omit<
+  React.ComponentProps<typeof Input>,
+  'value' | 'onChange'
+> {
+  value?: string;
+  onCommit: (value: string) => void;
+}
+
+// Text input that keeps a local draft and commits it once typing pauses
+const FilterInput: React.FC<FilterInputProps> = ({
+  value = '',
+  onCommit,
+  ...props
+}) => {
+  const [draft, setDraft] = useState(value);
+  const latest = useRef({ value, onCommit });
+  latest.current = { value, onCommit };
+
+  // Follow outside changes such as "Clear" or browser navigation
+  useEffect(() => setDraft(value), [value]);
+
+  // Only edits are committed, so a value the URL rejects isn't resent
+  useEffect(() => {
+    if (draft === latest.current.value) return;
+    const timer = setTimeout(
+      () => latest.current.onCommit(draft),
+      INPUT_COMMIT_DELAY_MS
+    );
+    return () => clearTimeout(timer);
+  }, [draft]);
+
+  return (
+    <Input
+      {...props}
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+    />
+  );
+};
+
+export interface FilterOption<T extends string = string> {
+  value: T;
+  label: string;
+}
+
+interface FilterBarProps<Choice extends string, Sort extends string> {
+  filters: BaseFilters & { sortBy?: Sort };
+  onChange: (changes: Partial<BaseFilters & { sortBy?: Sort }>) => void;
+  onClear: () => void;
+  searchPlaceholder: string;
+  // Multi-select shown next to the search box (status or approval type)
+  choiceLabel: string;
+  choiceOptions: FilterOption<Choice>[];
+  selectedChoices: Choice[];
+  onChoicesChange: (choices: Choice[]) => void;
+  sortOptions: FilterOption<Sort>[];
+}
+
+/**
+ * Search, multi-select, date and amount range, counterparty and sort
+ * controls shared by the transaction and approval tables.
+ */
+export const FilterBar = <Choice extends string, Sort extends string>({
+  filters,
+  onChange,
+  onClear,
+  searchPlaceholder,
+  choiceLabel,
+  choiceOptions,
+  selectedChoices,
+  onChoicesChange,
+  sortOptions,
+}: FilterBarProps<Choice, Sort>) => {
+  const isFiltered =
+    Object.values(filters).some(Boolean) || selectedChoices.length > 0;
+
+  const toggleChoice = (choice: Choice, checked: boolean) =>
+    onChoicesChange(
+      checked
+        ? [...selectedChoices, choice]
+        : selectedChoices.filter((selected) => selected !== choice)
+    );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+          <FilterInput
+            placeholder={searchPlaceholder}
+            value={filters.search}
+            onCommit={(search) => onChange({ search })}
+            className="pl-9"
+          />
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" className="sm:w-[180px] justify-start">
+              <Filter className="w-4 h-4 mr-2" />
+              {selectedChoices.length === 0
+                ? `All ${choiceLabel}`
+                : selectedChoices.length === 1
+                  ? choiceOptions.find(
+                      (option) => option.value === selectedChoices[0]
+                    )?.label
+                  : `${selectedChoices.length} ${choiceLabel}`}
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {choiceOptions.map((option) => (
+              <DropdownMenuCheckboxItem
+                key={option.value}
+                checked={selectedChoices.includes(option.value)}
+                onCheckedChange={(checked) =>
+                  toggleChoice(option.value, checked)
+                }
+                // Keep the menu open to pick several options
+                onSelect={(e) => e.preventDefault()}
+              >
+                {option.label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <div className="flex gap-2">
+          <Select
+            value={filters.sortBy ?? 'default'}
+            onValueChange={(value) =>
+              onChange({
+                sortBy: value === 'default' ? undefined : (value as Sort),
+              })
+            }
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="default">Default order</SelectItem>
+              {sortOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  Sort by {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            disabled={!filters.sortBy}
+            aria-label={
+              filters.sortDir === 'asc' ? 'Sort ascending' : 'Sort descending'
+            }
+            onClick={() =>
+              onChange({ sortDir: filters.sortDir === 'asc' ? 'desc' : 'asc' })
+            }
+          >
+            {filters.sortDir === 'asc' ? (
+              <ArrowUp className="w-4 h-4" />
+            ) : (
+              <ArrowDown className="w-4 h-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-6">
+        <Input
+          type="date"
+          aria-label="From date"
+          value={filters.dateFrom ?? ''}
+          onChange={(e) => onChange({ dateFrom: e.target.value })}
+        />
+        <Input
+          type="date"
+          aria-label="To date"
+          value={filters.dateTo ?? ''}
+          onChange={(e) => onChange({ dateTo: e.target.value })}
+        />
+        <FilterInput
+          inputMode="decimal"
+          placeholder="Min amount"
+          value={filters.minAmount}
+          onCommit={(minAmount) => onChange({ minAmount })}
+        />
+        <FilterInput
+          inputMode="decimal"
+          placeholder="Max amount"
+          value={filters.maxAmount}
+          onCommit={(maxAmount) => onChange({ maxAmount })}
+        />
+        <FilterInput
+          placeholder="Counterparty name or address"
+          value={filters.counterparty}
+          onCommit={(counterparty) => onChange({ counterparty })}
+        />
+        <Button variant="ghost" onClick={onClear} disabled={!isFiltered}>
+          <X className="w-4 h-4 mr-2" />
+          Clear filters
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useWallet } from '@/lib/hooks/useWallet';
 import { useUser } from '@/lib/hooks/useContract';
 import { UserRole } from '@/types/contracts';
 import { formatAddress } from '@/lib/web3/provider';
 import { WalletConnect } from '@/components/web3/WalletConnect';
+import { TokenBalanceBadge } from '@/components/web3/TokenBalanceBadge';
+import { NotificationCenter } from '@/components/layout/NotificationCenter';
+import { EditProfileDialog } from '@/components/users/EditProfileDialog';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -17,11 +20,13 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { User, LogOut, Settings } from 'lucide-react';
+import { Dialog } from '@/components/ui/dialog';
+import { User, LogOut, Settings, Eye } from 'lucide-react';
 
 export const Header: React.FC = () => {
-  const { isConnected, address, disconnect } = useWallet();
+  const { isConnected, isReadOnly, address, disconnect } = useWallet();
   const { data: user } = useUser(address || '');
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
 
   const getRoleBadgeColor = (role?: UserRole) => {
     switch (role) {
@@ -59,6 +64,22 @@ export const Header: React.FC = () => {
           >
             Show Tour
           </Button>
+          {isConnected && <TokenBalanceBadge />}
+          {isConnected && <NotificationCenter />}
+          {isReadOnly && (
+            <Badge variant="secondary" className="text-xs">
+              <Eye className="w-3 h-3 mr-1" />
+              Viewing as {formatAddress(address || '')}
+            </Badge>
+          )}
+          {user && (
+            <Dialog open={isProfileOpen} onOpenChange={setIsProfileOpen}>
+              <EditProfileDialog
+                user={user}
+                onSuccess={() => setIsProfileOpen(false)}
+              />
+            </Dialog>
+          )}
           {isConnected ? (
             user ? (
               <DropdownMenu>
@@ -107,7 +128,10 @@ export const Header: React.FC = () => {
                     </div>
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
-                  <DropdownMenuItem className="cursor-pointer">
+                  <DropdownMenuItem
+                    className="cursor-pointer"
+                    onClick={() => setIsProfileOpen(true)}
+                  >
                     <User className="mr-2 h-4 w-4" />
                     <span>Profile</span>
                   </DropdownMenuItem>
@@ -121,7 +145,9 @@ export const Header: React.FC = () => {
                     onClick={disconnect}
                   >
                     <LogOut className="mr-2 h-4 w-4" />
-                    <span>Disconnect</span>
+                    <span>
+                      {isReadOnly ? 'Exit Read-only Mode' : 'Disconnect'}
+                    </span>
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -170,7 +196,9 @@ export const Header: React.FC = () => {
                     onClick={disconnect}
                   >
                     <LogOut className="mr-2 h-4 w-4" />
-                    <span>Disconnect</span>
+                    <span>
+                      {isReadOnly ? 'Exit Read-only Mode' : 'Disconnect'}
+                    </span>
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
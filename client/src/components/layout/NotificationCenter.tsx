@@ -0,0 +1,122 @@
+'use client';
+
+import React from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  useMarkNotificationsRead,
+  useNotifications,
+} from '@/lib/hooks/useNotifications';
+import { AppNotification } from '@/types/contracts';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Bell, CheckCheck } from 'lucide-react';
+
+// Only the most recent notifications are listed in the dropdown
+const VISIBLE_NOTIFICATIONS = 20;
+
+export const NotificationCenter: React.FC = () => {
+  const router = useRouter();
+  const { data: inbox } = useNotifications();
+  const markReadMutation = useMarkNotificationsRead();
+
+  const notifications = inbox?.notifications ?? [];
+  const unreadCount = notifications.filter((n) => !n.read).length;
+
+  const handleSelect = (notification: AppNotification) => {
+    if (!notification.read) {
+      markReadMutation.mutate([notification.id]);
+    }
+    if (notification.href) {
+      router.push(notification.href);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="relative"
+          aria-label={`Notifications (${unreadCount} unread)`}
+        >
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-5 h-5 px-1 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-80" align="end">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-auto px-2 py-1 text-xs"
+              onClick={(e) => {
+                e.preventDefault();
+                markReadMutation.mutate(undefined);
+              }}
+            >
+              <CheckCheck className="w-3 h-3 mr-1" />
+              Mark all as read
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">
+            You&apos;re all caught up
+          </div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications
+              .slice(0, VISIBLE_NOTIFICATIONS)
+              .map((notification) => (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onClick={() => handleSelect(notification)}
+                  className={cn(
+                    'flex flex-col items-start gap-1 cursor-pointer',
+                    !notification.read && 'bg-blue-50'
+                  )}
+                >
+                  <div className="flex w-full items-center justify-between">
+                    <span
+                      className={cn(
+                        'text-sm',
+                        !notification.read && 'font-semibold'
+                      )}
+                    >
+                      {notification.title}
+                    </span>
+                    {!notification.read && (
+                      <span className="w-2 h-2 rounded-full bg-blue-500" />
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {notification.message}
+                  </span>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(notification.timestamp * 1000).toLocaleString()}
+                  </span>
+                </DropdownMenuItem>
+              ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
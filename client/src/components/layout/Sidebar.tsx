@@ -4,7 +4,7 @@ import React, { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { useWallet } from '@/lib/hooks/useWallet';
-import { useUser } from '@/lib/hooks/useContract';
+import { useActiveDelegator, useUser } from '@/lib/hooks/useContract';
 import { UserRole } from '@/types/contracts';
 import { formatAddress } from '@/lib/web3/provider';
 import { Button } from '@/components/ui/button';
@@ -15,6 +15,7 @@ import {
   ArrowLeftRight,
   CheckSquare,
   Users,
+  ScrollText,
   Menu,
   X,
   Wallet,
@@ -37,6 +38,8 @@ interface NavItem {
   href: string;
   icon: React.ComponentType<{ className?: string }>;
   requiredRole?: UserRole[];
+  // Also shown to users covering for an approver through a delegation
+  allowDelegates?: boolean;
   badge?: string;
 }
 
@@ -46,6 +49,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ className }) => {
   const pathname = usePathname();
   const { isConnected, address, disconnect } = useWallet();
   const { data: user } = useUser(address || '');
+  const { data: delegator } = useActiveDelegator(address);
 
   const navItems: NavItem[] = [
     {
@@ -63,6 +67,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ className }) => {
       href: '/approvals',
       icon: CheckSquare,
       requiredRole: [UserRole.Manager, UserRole.Admin],
+      allowDelegates: true,
     },
     {
       title: 'Users',
@@ -70,11 +75,18 @@ export const Sidebar: React.FC<SidebarProps> = ({ className }) => {
       icon: Users,
       requiredRole: [UserRole.Admin],
     },
+    {
+      title: 'Audit Log',
+      href: '/audit',
+      icon: ScrollText,
+      requiredRole: [UserRole.Admin],
+    },
   ];
 
   const filteredNavItems = navItems.filter((item) => {
     if (!item.requiredRole) return true;
     if (!user) return false;
+    if (item.allowDelegates && delegator) return true;
     return item.requiredRole.includes(user.role);
   });
 
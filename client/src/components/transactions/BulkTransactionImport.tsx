@@ -0,0 +1,460 @@
+'use client';
+
+import React, { useState } from 'react';
+import { isAddress } from 'ethers';
+import {
+  useBulkCreateTransactions,
+  useBulkRequestApproval,
+  useApprovalTiers,
+  useTokens,
+} from '@/lib/hooks/useContract';
+import { createTransactionSchema } from '@/lib/schemas/forms';
+import { parseCsv } from '@/lib/csv';
+import { formatAddress, parseTokenAmount } from '@/lib/web3/provider';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Loader2, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+
+type RowStatus = 'invalid' | 'ready' | 'created' | 'failed';
+
+interface ImportRow {
+  line: number;
+  to: string;
+  amount: string;
+  description: string;
+  status: RowStatus;
+  // Validation errors (invalid) or the submission error (failed)
+  errors: string[];
+  transactionId?: number;
+  approvalRequested?: boolean;
+  approvalError?: string;
+}
+
+const CSV_COLUMNS = ['to', 'amount', 'description'] as const;
+
+/**
+ * Parses an import file into rows validated with createTransactionSchema.
+ * A header row (to, amount, description in any order) is optional; without
+ * one the columns are read in that order. Amounts are checked against the
+ * `decimals` of the token the import is in.
+ */
+const parseImportFile = (text: string, decimals?: number): ImportRow[] => {
+  const records = parseCsv(text);
+  const header = records[0]?.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const hasHeader = CSV_COLUMNS.every((column) => header.includes(column));
+  const columns = CSV_COLUMNS.map((column, i) =>
+    hasHeader ? header.indexOf(column) : i
+  );
+
+  return records.slice(hasHeader ? 1 : 0).map((record, i) => {
+    const [to, amount, description] = columns.map(
+      (column) => record[column]?.trim() ?? ''
+    );
+    const result = createTransactionSchema.safeParse({
+      to,
+      amount,
+      description,
+    });
+    const errors = result.success
+      ? []
+      : result.error.issues.map((issue) => issue.message);
+
+    // The schema accepts any positive number; the token limits the decimals
+    if (result.success) {
+      try {
+        parseTokenAmount(amount, decimals);
+      } catch {
+        errors.push('Amount has too many decimal places');
+      }
+    }
+
+    return {
+      line: i + (hasHeader ? 2 : 1),
+      to,
+      amount,
+      description,
+      status: errors.length ? 'invalid' : 'ready',
+      errors,
+    };
+  });
+};
+
+const StatusCell: React.FC<{ row: ImportRow }> = ({ row }) => {
+  switch (row.status) {
+    case 'invalid':
+    case 'failed':
+      return (
+        <div className="space-y-1">
+          <Badge variant="destructive">
+            {row.status === 'invalid' ? 'Invalid' : 'Failed'}
+          </Badge>
+          {row.errors.map((error) => (
+            <p key={error} className="text-xs text-red-500">
+              {error}
+            </p>
+          ))}
+        </div>
+      );
+    case 'created':
+      return (
+        <div className="space-y-1">
+          <Badge variant="secondary">Created #{row.transactionId}</Badge>
+          {row.approvalRequested && (
+            <p className="text-xs text-muted-foreground">Approval requested</p>
+          )}
+          {row.approvalError && (
+            <p className="text-xs text-red-500">
+              Approval request failed: {row.approvalError}
+            </p>
+          )}
+        </div>
+      );
+    default:
+      return <Badge variant="outline">Ready</Badge>;
+  }
+};
+
+export const BulkTransactionImport: React.FC = () => {
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  // Every row is in this token; empty for the settlement token
+  const [token, setToken] = useState('');
+  const [mode, setMode] = useState<'sequential' | 'batched'>('sequential');
+  const [requestApproval, setRequestApproval] = useState(true);
+  const [approvalReason, setApprovalReason] = useState(
+    'Bulk import approval request'
+  );
+  const bulkCreateMutation = useBulkCreateTransactions();
+  const bulkApprovalMutation = useBulkRequestApproval();
+  const { data: approvalTiers } = useApprovalTiers();
+  const { data: tokens = [] } = useTokens();
+
+  const findToken = (address: string) =>
+    tokens.find(
+      (info) => info.address.toLowerCase() === address.toLowerCase()
+    ) ?? tokens.find((info) => info.isSettlementToken);
+  const selectedToken = findToken(token);
+
+  // With approval tiers the contract routes each transaction by amount itself
+  const routesApprovals = !!approvalTiers?.enabled;
+  const shouldRequestApproval = requestApproval && !routesApprovals;
+
+  const isSubmitting =
+    bulkCreateMutation.isPending || bulkApprovalMutation.isPending;
+  const batched = mode === 'batched';
+
+  const updateRow = (line: number, changes: Partial<ImportRow>) =>
+    setRows((current) =>
+      current.map((row) => (row.line === line ? { ...row, ...changes } : row))
+    );
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    const parsed = parseImportFile(text, selectedToken?.decimals);
+    if (parsed.length === 0) {
+      toast.error('The file contains no rows');
+      return;
+    }
+    setFileName(file.name);
+    setFileText(text);
+    setRows(parsed);
+  };
+
+  // Amounts are re-checked against the new token's decimals
+  const handleTokenChange = (address: string) => {
+    setToken(address);
+    if (fileText) {
+      setRows(parseImportFile(fileText, findToken(address)?.decimals));
+    }
+  };
+
+  const validRows = rows.filter((row) => row.status !== 'invalid');
+  const createdRows = rows.filter((row) => row.status === 'created');
+  const remainingRows = rows.filter(
+    (row) => row.status === 'ready' || row.status === 'failed'
+  );
+  const awaitingApproval = createdRows.filter(
+    (row) => !row.approvalRequested
+  );
+  const progress = validRows.length ? createdRows.length / validRows.length : 0;
+
+  // Creates every ready or previously failed row, then requests approval
+  // for created rows that don't have one yet. Safe to run again to resume.
+  const handleSubmit = async () => {
+    const created = new Map(
+      createdRows.map((row) => [row.line, row.transactionId!])
+    );
+    let failures = 0;
+
+    if (remainingRows.length > 0) {
+      await bulkCreateMutation.mutateAsync({
+        rows: remainingRows.map((row) => ({
+          id: row.line,
+          to: row.to,
+          amount: parseTokenAmount(row.amount, selectedToken?.decimals),
+          description: row.description,
+          token: selectedToken?.isSettlementToken
+            ? undefined
+            : selectedToken?.address,
+        })),
+        batched,
+        onRowSettled: (line, result) => {
+          if ('error' in result) {
+            failures++;
+            updateRow(line, { status: 'failed', errors: [result.error] });
+          } else {
+            created.set(line, result.value);
+            updateRow(line, {
+              status: 'created',
+              errors: [],
+              transactionId: result.value,
+            });
+          }
+        },
+      });
+    }
+
+    if (shouldRequestApproval) {
+      const approvedLines = new Set(
+        rows.filter((row) => row.approvalRequested).map((row) => row.line)
+      );
+      const pending = [...created].filter(
+        ([line]) => !approvedLines.has(line)
+      );
+      const lineByTransaction = new Map(
+        pending.map(([line, transactionId]) => [transactionId, line])
+      );
+
+      if (pending.length > 0) {
+        await bulkApprovalMutation.mutateAsync({
+          transactionIds: pending.map(([, transactionId]) => transactionId),
+          reason: approvalReason,
+          batched,
+          onSettled: (transactionId, result) => {
+            const line = lineByTransaction.get(transactionId)!;
+            if ('error' in result) {
+              failures++;
+              updateRow(line, { approvalError: result.error });
+            } else {
+              updateRow(line, {
+                approvalRequested: true,
+                approvalError: undefined,
+              });
+            }
+          },
+        });
+      }
+    }
+
+    if (failures > 0) {
+      toast.error(
+        `${failures} step${failures !== 1 ? 's' : ''} failed. Fix the issue and submit again to resume.`
+      );
+    } else {
+      toast.success(`${created.size} transactions created`);
+    }
+  };
+
+  const submitLabel =
+    remainingRows.length > 0
+      ? `${createdRows.length > 0 ? 'Resume: create' : 'Create'} ${
+          remainingRows.length
+        } transaction${remainingRows.length !== 1 ? 's' : ''}`
+      : 'Request remaining approvals';
+  const canSubmit =
+    !isSubmitting &&
+    (remainingRows.length > 0 ||
+      (shouldRequestApproval && awaitingApproval.length > 0)) &&
+    (!shouldRequestApproval || approvalReason.trim().length >= 3);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="bulk-import-file">CSV file</Label>
+        <Input
+          id="bulk-import-file"
+          type="file"
+          accept=".csv,text/csv"
+          onChange={handleFile}
+          disabled={isSubmitting}
+        />
+        <p className="text-xs text-muted-foreground">
+          Columns: <span className="font-mono">to, amount, description</span>
+          . Amounts are in the token chosen below, e.g. 1250.50.
+          {fileName && ` Loaded ${fileName}.`}
+        </p>
+      </div>
+
+      {rows.length > 0 && (
+        <>
+          <div className="max-h-80 overflow-y-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Line</TableHead>
+                  <TableHead>To</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Token</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.line}>
+                    <TableCell>{row.line}</TableCell>
+                    <TableCell className="font-mono text-sm">
+                      {isAddress(row.to) ? formatAddress(row.to) : row.to}
+                    </TableCell>
+                    <TableCell>{row.amount}</TableCell>
+                    <TableCell>{selectedToken?.symbol}</TableCell>
+                    <TableCell className="max-w-48 truncate">
+                      {row.description}
+                    </TableCell>
+                    <TableCell>
+                      <StatusCell row={row} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {validRows.length} of {rows.length} rows valid
+            {rows.length !== validRows.length &&
+              '; invalid rows are skipped. Fix them in the file and re-upload to include them.'}
+          </p>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label>Token</Label>
+              <Select
+                value={selectedToken?.address}
+                onValueChange={handleTokenChange}
+                disabled={isSubmitting || createdRows.length > 0}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {tokens.map((info) => (
+                    <SelectItem key={info.address} value={info.address}>
+                      {info.symbol}
+                      {info.isSettlementToken && ' (settlement token)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Submission</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) =>
+                  setMode(value as 'sequential' | 'batched')
+                }
+                disabled={isSubmitting}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="sequential">
+                    Sequential (wait for each)
+                  </SelectItem>
+                  <SelectItem value="batched">
+                    Batched (send several, then wait)
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={shouldRequestApproval}
+                  onChange={(e) => setRequestApproval(e.target.checked)}
+                  disabled={isSubmitting || routesApprovals}
+                />
+                {routesApprovals
+                  ? 'Approvals are routed by amount'
+                  : 'Request approval for all'}
+              </Label>
+              <Input
+                value={approvalReason}
+                onChange={(e) => setApprovalReason(e.target.value)}
+                placeholder="Reason for approval request"
+                disabled={isSubmitting || !shouldRequestApproval}
+              />
+            </div>
+          </div>
+
+          {/* Progress */}
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>
+                {createdRows.length} / {validRows.length} created
+              </span>
+              {shouldRequestApproval && (
+                <span>
+                  {createdRows.length - awaitingApproval.length} approvals
+                  requested
+                </span>
+              )}
+            </div>
+            <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-green-500 transition-all duration-300"
+                style={{ width: `${progress * 100}%` }}
+              />
+            </div>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleSubmit}
+            disabled={!canSubmit}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                {bulkApprovalMutation.isPending
+                  ? 'Requesting approvals...'
+                  : 'Creating transactions...'}
+              </>
+            ) : (
+              <>
+                <Upload className="w-4 h-4 mr-2" />
+                {submitLabel}
+              </>
+            )}
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,45 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { ethers } from 'ethers';
 import {
   useCreateTransaction,
   useUserTransactions,
   useRequestApproval,
+  useTokenBalance,
+  useRemainingLimit,
+  useApprovalTiers,
+  useTokens,
 } from '@/lib/hooks/useContract';
 import { useWallet } from '@/lib/hooks/useWallet';
+import {
+  useAddressBook,
+  useRemoveTemplate,
+  useSaveTemplate,
+} from '@/lib/hooks/useAddressBook';
+import { formatTokenBalance, parseTokenAmount } from '@/lib/web3/provider';
+import { ApprovalTiers } from '@/types/contracts';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { Loader2, Send } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { RecipientInput } from './RecipientInput';
+import {
+  AlertTriangle,
+  BookmarkPlus,
+  Loader2,
+  Send,
+  Trash2,
+} from 'lucide-react';
 import { toast } from 'sonner';
 
 const createTransactionSchema = z.object({
@@ -38,10 +62,34 @@ const createTransactionSchema = z.object({
     .string()
     .min(1, 'Description is required')
     .max(200, 'Description must be less than 200 characters'),
+  // Address of the token to send in; empty for the settlement token
+  token: z.string(),
 });
 
 type CreateTransactionFormData = z.infer<typeof createTransactionSchema>;
 
+type ApprovalRoute = 'auto' | 'approver' | 'admin';
+
+const APPROVAL_ROUTE_LABELS: Record<ApprovalRoute, string> = {
+  auto: 'Approved automatically',
+  approver: 'Approval requested from managers and admins',
+  admin: 'Approval requested from admins',
+};
+
+// How the contract routes a new transaction of `amount`, or null when
+// routing is off and the sender requests approval themselves. Tiers are in
+// the settlement token, so transactions in other tokens always go to admins.
+const getApprovalRoute = (
+  tiers: ApprovalTiers | null | undefined,
+  amount: bigint,
+  isSettlementToken: boolean
+): ApprovalRoute | null => {
+  if (!tiers?.enabled) return null;
+  if (!isSettlementToken) return 'admin';
+  if (amount < tiers.autoApproveBelow) return 'auto';
+  return amount >= tiers.adminApprovalFrom ? 'admin' : 'approver';
+};
+
 interface CreateTransactionFormProps {
   onSuccess?: () => void;
 }
@@ -55,6 +103,14 @@ export const CreateTransactionForm: React.FC<CreateTransactionFormProps> = ({
   const { refetch: refetchUserTransactions } = useUserTransactions(
     address || ''
   );
+  const { data: tokens = [] } = useTokens();
+  const { data: remainingLimit } = useRemainingLimit(address || '');
+  const { data: approvalTiers } = useApprovalTiers();
+  const { data: addressBook } = useAddressBook();
+  const saveTemplateMutation = useSaveTemplate();
+  const removeTemplateMutation = useRemoveTemplate();
+  const [templateId, setTemplateId] = useState('');
+  const [templateName, setTemplateName] = useState('');
 
   const {
     register,
@@ -62,41 +118,145 @@ export const CreateTransactionForm: React.FC<CreateTransactionFormProps> = ({
     formState: { errors, isValid },
     watch,
     reset,
+    setValue,
   } = useForm<CreateTransactionFormData>({
     resolver: zodResolver(createTransactionSchema),
     mode: 'onChange',
+    defaultValues: { to: '', amount: '', description: '', token: '' },
   });
 
   const watchedValues = watch();
+  const templates = addressBook?.templates ?? [];
+
+  const selectedToken =
+    tokens.find(
+      (token) =>
+        token.address.toLowerCase() === watchedValues.token.toLowerCase()
+    ) ?? tokens.find((token) => token.isSettlementToken);
+  const isSettlementToken = !selectedToken || selectedToken.isSettlementToken;
+  const { data: tokenBalance } = useTokenBalance(
+    address || '',
+    selectedToken?.address
+  );
+
+  // Amount in the selected token's smallest unit; throws if invalid
+  const parseAmount = (amount: string) =>
+    parseTokenAmount(amount, selectedToken?.decimals);
+
+  const applyTemplate = (id: string) => {
+    const template = templates.find((saved) => saved.id === id);
+    if (!template) return;
+
+    setTemplateId(id);
+    setValue('to', template.to, { shouldValidate: true });
+    setValue('amount', template.amount, { shouldValidate: true });
+    setValue('description', template.description, { shouldValidate: true });
+    setValue('token', template.token ?? '', { shouldValidate: true });
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateName.trim()) return;
+    try {
+      await saveTemplateMutation.mutateAsync({
+        id: crypto.randomUUID(),
+        name: templateName.trim(),
+        ...watchedValues,
+      });
+      setTemplateName('');
+    } catch (error) {
+      console.error('Error saving template:', error);
+    }
+  };
+
+  // Warn (without blocking) when the amount exceeds the sender's token balance,
+  // since completing the transaction would fail to settle
+  const exceedsBalance = (() => {
+    if (!tokenBalance || !watchedValues.amount) return false;
+    try {
+      return (
+        parseTokenAmount(watchedValues.amount, tokenBalance.decimals) >
+        tokenBalance.balance
+      );
+    } catch {
+      return false;
+    }
+  })();
+
+  // Block amounts over the sender's remaining spending limit, which the
+  // contract would reject. Limits only apply to the settlement token.
+  const limitError = (() => {
+    if (!remainingLimit || !watchedValues.amount || !isSettlementToken) {
+      return null;
+    }
+    try {
+      const amount = parseAmount(watchedValues.amount);
+      if (remainingLimit.daily !== null && amount > remainingLimit.daily) {
+        return `Exceeds your remaining daily limit of ${formatTokenBalance(
+          remainingLimit.daily
+        )} PLT`;
+      }
+      if (remainingLimit.monthly !== null && amount > remainingLimit.monthly) {
+        return `Exceeds your remaining monthly limit of ${formatTokenBalance(
+          remainingLimit.monthly
+        )} PLT`;
+      }
+    } catch {
+      // Invalid amounts are reported by the schema
+    }
+    return null;
+  })();
+
+  const approvalRoute = (() => {
+    if (!watchedValues.amount) return null;
+    try {
+      return getApprovalRoute(
+        approvalTiers,
+        parseAmount(watchedValues.amount),
+        isSettlementToken
+      );
+    } catch {
+      return null;
+    }
+  })();
 
   const onSubmit = async (data: CreateTransactionFormData) => {
+    if (limitError) return;
+
     try {
-      const amountInWei = ethers.parseEther(data.amount);
+      const amount = parseAmount(data.amount);
 
       // Step 1: Create the transaction and get its ID
       const transactionId = await createTransactionMutation.mutateAsync({
         to: data.to,
-        amount: amountInWei,
+        amount,
         description: data.description,
+        token: isSettlementToken ? undefined : selectedToken.address,
       });
 
-      // Step 2: Automatically request approval for the new transaction
-      try {
-        await requestApprovalMutation.mutateAsync({
-          transactionId,
-          reason: 'Automatic approval request after transaction creation',
-        });
-        toast.success(
-          'Transaction created and approval requested successfully!'
-        );
-      } catch (approvalError) {
-        // Only show a gentle info toast, not a blocking error
-        toast.info(
-          'Transaction created, but automatic approval request failed. You can request approval manually from the transaction details page.'
-        );
+      // Step 2: Automatically request approval for the new transaction,
+      // unless the contract already routed it by amount
+      const route = getApprovalRoute(approvalTiers, amount, isSettlementToken);
+      if (route) {
+        toast.success(`Transaction created. ${APPROVAL_ROUTE_LABELS[route]}.`);
+      } else {
+        try {
+          await requestApprovalMutation.mutateAsync({
+            transactionId,
+            reason: 'Automatic approval request after transaction creation',
+          });
+          toast.success(
+            'Transaction created and approval requested successfully!'
+          );
+        } catch (approvalError) {
+          // Only show a gentle info toast, not a blocking error
+          toast.info(
+            'Transaction created, but automatic approval request failed. You can request approval manually from the transaction details page.'
+          );
+        }
       }
 
       reset();
+      setTemplateId('');
       onSuccess?.();
     } catch (error) {
       console.error('Error creating transaction:', error);
@@ -110,26 +270,95 @@ export const CreateTransactionForm: React.FC<CreateTransactionFormProps> = ({
   return (
     <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
       <div className="space-y-4">
+        {/* Saved Templates */}
+        {templates.length > 0 && (
+          <div className="space-y-2">
+            <Label>Template</Label>
+            <div className="flex items-center gap-2">
+              <Select value={templateId} onValueChange={applyTemplate}>
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Start from a saved template" />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {templateId && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  title="Delete template"
+                  onClick={() => {
+                    removeTemplateMutation.mutate(templateId);
+                    setTemplateId('');
+                  }}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
         {/* Recipient Address */}
         <div className="space-y-2">
-          <Label htmlFor="to">Recipient Address</Label>
-          <Input
+          <Label htmlFor="to">Recipient</Label>
+          <RecipientInput
             id="to"
-            placeholder="0x..."
-            {...register('to')}
-            className={errors.to ? 'border-red-500' : ''}
+            value={watchedValues.to ?? ''}
+            onChange={(value) =>
+              setValue('to', value, { shouldValidate: true })
+            }
+            hasError={!!errors.to}
           />
           {errors.to && (
             <p className="text-sm text-red-500">{errors.to.message}</p>
           )}
           <p className="text-xs text-muted-foreground">
-            Enter the Ethereum address of the recipient
+            Search registered users and saved contacts, or paste an address
           </p>
         </div>
 
+        {/* Token */}
+        {tokens.length > 0 && (
+          <div className="space-y-2">
+            <Label>Token</Label>
+            <Select
+              value={selectedToken?.address}
+              onValueChange={(value) =>
+                setValue('token', value, { shouldValidate: true })
+              }
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {tokens.map((token) => (
+                  <SelectItem key={token.address} value={token.address}>
+                    {token.symbol}
+                    {token.isSettlementToken && ' (settlement token)'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {!isSettlementToken && (
+              <p className="text-xs text-muted-foreground">
+                Spending limits don&apos;t apply to this token
+              </p>
+            )}
+          </div>
+        )}
+
         {/* Amount */}
         <div className="space-y-2">
-          <Label htmlFor="amount">Amount (ETH)</Label>
+          <Label htmlFor="amount">
+            Amount{selectedToken ? ` (${selectedToken.symbol})` : ''}
+          </Label>
           <Input
             id="amount"
             type="number"
@@ -142,7 +371,43 @@ export const CreateTransactionForm: React.FC<CreateTransactionFormProps> = ({
           {errors.amount && (
             <p className="text-sm text-red-500">{errors.amount.message}</p>
           )}
-          <p className="text-xs text-muted-foreground">Amount to send in ETH</p>
+          {limitError && <p className="text-sm text-red-500">{limitError}</p>}
+          {exceedsBalance && tokenBalance && (
+            <p className="text-sm text-amber-600 flex items-center">
+              <AlertTriangle className="w-4 h-4 mr-1" />
+              Amount exceeds your balance of{' '}
+              {formatTokenBalance(tokenBalance.balance, tokenBalance.decimals)}{' '}
+              {tokenBalance.symbol}
+            </p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Amount to send{selectedToken && ` in ${selectedToken.symbol}`}
+            {tokenBalance &&
+              ` · Available: ${formatTokenBalance(
+                tokenBalance.balance,
+                tokenBalance.decimals
+              )} ${tokenBalance.symbol}`}
+          </p>
+          {remainingLimit &&
+            isSettlementToken &&
+            (remainingLimit.daily !== null ||
+              remainingLimit.monthly !== null) && (
+              <p className="text-xs text-muted-foreground">
+                Remaining limit:{' '}
+                {remainingLimit.daily !== null
+                  ? `${formatTokenBalance(remainingLimit.daily)} PLT today`
+                  : 'no daily limit'}
+                {' · '}
+                {remainingLimit.monthly !== null
+                  ? `${formatTokenBalance(remainingLimit.monthly)} PLT this month`
+                  : 'no monthly limit'}
+              </p>
+            )}
+          {approvalRoute && (
+            <p className="text-xs text-muted-foreground">
+              Routing: {APPROVAL_ROUTE_LABELS[approvalRoute]}
+            </p>
+          )}
         </div>
 
         {/* Description */}
@@ -182,7 +447,7 @@ export const CreateTransactionForm: React.FC<CreateTransactionFormProps> = ({
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Amount:</span>
                   <span className="font-medium">
-                    {watchedValues.amount} ETH
+                    {watchedValues.amount} {selectedToken?.symbol}
                   </span>
                 </div>
                 <div className="flex justify-between">
@@ -196,8 +461,34 @@ export const CreateTransactionForm: React.FC<CreateTransactionFormProps> = ({
           </>
         )}
 
+      {/* Save as Template */}
+      {isValid && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Save these details as a template..."
+            value={templateName}
+            onChange={(e) => setTemplateName(e.target.value)}
+            className="h-8 text-sm"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleSaveTemplate}
+            disabled={!templateName.trim() || saveTemplateMutation.isPending}
+          >
+            <BookmarkPlus className="w-4 h-4 mr-1" />
+            Save
+          </Button>
+        </div>
+      )}
+
       {/* Submit Button */}
-      <Button type="submit" className="w-full" disabled={!isValid || isLoading}>
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!isValid || !!limitError || isLoading}
+      >
         {isLoading ? (
           <>
             <Loader2 className="w-4 h-4 mr-2 animate-spin" />
@@ -0,0 +1,161 @@
+'use client';
+
+import React, { useState } from 'react';
+import { ethers } from 'ethers';
+import {
+  useAddressBookEntries,
+  useRemoveContact,
+  useSaveContact,
+} from '@/lib/hooks/useAddressBook';
+import { formatAddress } from '@/lib/web3/provider';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { BookUser, X } from 'lucide-react';
+
+// Suggestions shown at once; typing narrows the list
+const MAX_SUGGESTIONS = 8;
+
+interface RecipientInputProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  hasError?: boolean;
+}
+
+// Address field with lookup by name, email or address across registered
+// users and saved contacts. Unknown addresses can be saved as contacts.
+export const RecipientInput: React.FC<RecipientInputProps> = ({
+  id,
+  value,
+  onChange,
+  hasError,
+}) => {
+  const entries = useAddressBookEntries();
+  const saveContactMutation = useSaveContact();
+  const removeContactMutation = useRemoveContact();
+  const [isOpen, setIsOpen] = useState(false);
+  const [contactName, setContactName] = useState('');
+
+  const query = value.trim().toLowerCase();
+  const suggestions = entries
+    .filter(
+      (entry) =>
+        !query ||
+        entry.name.toLowerCase().includes(query) ||
+        entry.email?.toLowerCase().includes(query) ||
+        entry.address.toLowerCase().includes(query)
+    )
+    .slice(0, MAX_SUGGESTIONS);
+
+  const selected = entries.find(
+    (entry) => entry.address.toLowerCase() === query
+  );
+  const canSaveContact = !selected && ethers.isAddress(value.trim());
+
+  const handleSaveContact = async () => {
+    if (!contactName.trim()) return;
+    try {
+      await saveContactMutation.mutateAsync({
+        address: ethers.getAddress(value.trim()),
+        name: contactName.trim(),
+      });
+      setContactName('');
+    } catch (error) {
+      console.error('Error saving contact:', error);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Input
+          id={id}
+          placeholder="Name, email or 0x..."
+          autoComplete="off"
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setIsOpen(true);
+          }}
+          onFocus={() => setIsOpen(true)}
+          // Delay so a click on a suggestion lands before the list closes
+          onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+          className={hasError ? 'border-red-500' : ''}
+        />
+        {isOpen && suggestions.length > 0 && !selected && (
+          <div className="absolute z-50 mt-1 w-full max-h-64 overflow-y-auto rounded-md border bg-popover shadow-md">
+            {suggestions.map((entry) => (
+              <div
+                key={entry.address}
+                className="flex items-center justify-between gap-2 px-3 py-2 text-sm cursor-pointer hover:bg-accent"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => {
+                  onChange(entry.address);
+                  setIsOpen(false);
+                }}
+              >
+                <div className="min-w-0">
+                  <div className="font-medium truncate">{entry.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {entry.email
+                      ? `${entry.email} · ${formatAddress(entry.address)}`
+                      : formatAddress(entry.address)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Badge variant="outline" className="text-xs">
+                    {entry.isRegistered ? 'User' : 'Contact'}
+                  </Badge>
+                  {!entry.isRegistered && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      title="Remove contact"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        removeContactMutation.mutate(entry.address);
+                      }}
+                    >
+                      <X className="w-3 h-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && (
+        <p className="text-xs text-muted-foreground flex items-center">
+          <BookUser className="w-3 h-3 mr-1" />
+          {selected.name}
+          {selected.isRegistered ? '' : ' (saved contact)'}
+        </p>
+      )}
+
+      {canSaveContact && (
+        <div className="flex items-center gap-2">
+          <Input
+            placeholder="Save this address as..."
+            value={contactName}
+            onChange={(e) => setContactName(e.target.value)}
+            className="h-8 text-sm"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleSaveContact}
+            disabled={!contactName.trim() || saveContactMutation.isPending}
+          >
+            Save Contact
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
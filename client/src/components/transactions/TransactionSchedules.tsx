@@ -0,0 +1,429 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import {
+  useAllUsers,
+  useCancelSchedule,
+  useCreateSchedule,
+  useTokenInfo,
+  useUserSchedules,
+} from '@/lib/hooks/useContract';
+import {
+  createScheduleSchema,
+  CreateScheduleFormData,
+  SCHEDULE_INTERVALS,
+} from '@/lib/schemas/forms';
+import { Schedule } from '@/types/contracts';
+import { formatAddress, parseTokenAmount } from '@/lib/web3/provider';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { TokenAmount, TokenSymbol } from '@/components/web3/TokenAmount';
+import { CalendarClock, Loader2, Plus } from 'lucide-react';
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+const INTERVAL_OPTIONS: Record<
+  (typeof SCHEDULE_INTERVALS)[number],
+  { label: string; seconds: number }
+> = {
+  daily: { label: 'Daily', seconds: SECONDS_PER_DAY },
+  weekly: { label: 'Weekly', seconds: 7 * SECONDS_PER_DAY },
+  biweekly: { label: 'Every 2 weeks', seconds: 14 * SECONDS_PER_DAY },
+  monthly: { label: 'Every 30 days', seconds: 30 * SECONDS_PER_DAY },
+};
+
+const formatInterval = (interval: bigint) => {
+  const option = Object.values(INTERVAL_OPTIONS).find(
+    (option) => option.seconds === Number(interval)
+  );
+  if (option) return option.label;
+
+  const days = Number(interval) / SECONDS_PER_DAY;
+  return Number.isInteger(days)
+    ? `Every ${days} days`
+    : `Every ${Math.round(Number(interval) / 3600)} hours`;
+};
+
+const formatTimestamp = (seconds: bigint) =>
+  new Date(Number(seconds) * 1000).toLocaleString();
+
+// Unix seconds for a datetime-local input value (0 when empty)
+const toSeconds = (value?: string) =>
+  value ? Math.floor(new Date(value).getTime() / 1000) : 0;
+
+// The contract only stores an active flag, so a finished schedule is told
+// apart from a cancelled one by whether it ran out of occurrences or time
+const getScheduleStatus = (schedule: Schedule) => {
+  if (schedule.active) {
+    return Number(schedule.nextRunAt) * 1000 <= Date.now() ? 'Due' : 'Active';
+  }
+  const ranOut =
+    (schedule.maxOccurrences > BigInt(0) &&
+      schedule.occurrences >= schedule.maxOccurrences) ||
+    (schedule.endsAt > BigInt(0) && schedule.nextRunAt > schedule.endsAt);
+  return ranOut ? 'Completed' : 'Cancelled';
+};
+
+const getStatusBadge = (status: ReturnType<typeof getScheduleStatus>) => {
+  const variants = {
+    Active: 'default',
+    Due: 'secondary',
+    Completed: 'outline',
+    Cancelled: 'destructive',
+  } as const;
+  return <Badge variant={variants[status]}>{status}</Badge>;
+};
+
+interface CreateScheduleFormProps {
+  onSuccess?: () => void;
+}
+
+const CreateScheduleForm: React.FC<CreateScheduleFormProps> = ({
+  onSuccess,
+}) => {
+  const createScheduleMutation = useCreateSchedule();
+  // Scheduled payments are always in the settlement token
+  const { data: settlementToken } = useTokenInfo();
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors, isValid },
+    reset,
+  } = useForm<CreateScheduleFormData>({
+    resolver: zodResolver(createScheduleSchema),
+    mode: 'onChange',
+    defaultValues: { interval: 'monthly' },
+  });
+
+  const onSubmit = async (data: CreateScheduleFormData) => {
+    try {
+      await createScheduleMutation.mutateAsync({
+        to: data.to,
+        amount: parseTokenAmount(data.amount, settlementToken?.decimals),
+        description: data.description,
+        interval: INTERVAL_OPTIONS[data.interval].seconds,
+        startsAt: toSeconds(data.startsAt),
+        endsAt: toSeconds(data.endsAt),
+        maxOccurrences: Number(data.maxOccurrences || 0),
+      });
+      reset();
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error creating schedule:', error);
+      // The useCreateSchedule hook already shows a toast on error
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="schedule-to">Recipient Address</Label>
+        <Input
+          id="schedule-to"
+          placeholder="0x..."
+          {...register('to')}
+          className={errors.to ? 'border-red-500' : ''}
+        />
+        {errors.to && (
+          <p className="text-sm text-red-500">{errors.to.message}</p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-amount">
+            Amount{settlementToken ? ` (${settlementToken.symbol})` : ''}
+          </Label>
+          <Input
+            id="schedule-amount"
+            type="number"
+            step="0.01"
+            min="0"
+            placeholder="0.00"
+            {...register('amount')}
+            className={errors.amount ? 'border-red-500' : ''}
+          />
+          {errors.amount && (
+            <p className="text-sm text-red-500">{errors.amount.message}</p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label>Repeats</Label>
+          <Select
+            value={watch('interval')}
+            onValueChange={(value) =>
+              setValue(
+                'interval',
+                value as CreateScheduleFormData['interval'],
+                { shouldValidate: true }
+              )
+            }
+          >
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SCHEDULE_INTERVALS.map((interval) => (
+                <SelectItem key={interval} value={interval}>
+                  {INTERVAL_OPTIONS[interval].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="schedule-description">Description</Label>
+        <Input
+          id="schedule-description"
+          placeholder="Monthly retainer..."
+          {...register('description')}
+          className={errors.description ? 'border-red-500' : ''}
+        />
+        {errors.description && (
+          <p className="text-sm text-red-500">{errors.description.message}</p>
+        )}
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="schedule-starts-at">First Payment</Label>
+          <Input
+            id="schedule-starts-at"
+            type="datetime-local"
+            {...register('startsAt')}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="schedule-ends-at">End Date</Label>
+          <Input
+            id="schedule-ends-at"
+            type="datetime-local"
+            {...register('endsAt')}
+            className={errors.endsAt ? 'border-red-500' : ''}
+          />
+          {errors.endsAt && (
+            <p className="text-sm text-red-500">{errors.endsAt.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="schedule-max-occurrences">Maximum Payments</Label>
+        <Input
+          id="schedule-max-occurrences"
+          type="number"
+          min="0"
+          step="1"
+          placeholder="Unlimited"
+          {...register('maxOccurrences')}
+          className={errors.maxOccurrences ? 'border-red-500' : ''}
+        />
+        {errors.maxOccurrences && (
+          <p className="text-sm text-red-500">
+            {errors.maxOccurrences.message}
+          </p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={!isValid || createScheduleMutation.isPending}
+      >
+        {createScheduleMutation.isPending ? (
+          <>
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Creating Schedule...
+          </>
+        ) : (
+          <>
+            <CalendarClock className="w-4 h-4 mr-2" />
+            Create Schedule
+          </>
+        )}
+      </Button>
+
+      <div className="text-xs text-muted-foreground space-y-1">
+        <p>• Leave &quot;First Payment&quot; empty to start now</p>
+        <p>• Leave the end date and maximum empty to repeat until cancelled</p>
+        <p>
+          • Each payment is created as a regular transaction once it is due
+        </p>
+      </div>
+    </form>
+  );
+};
+
+// Recurring transaction templates owned by the connected account. The keeper
+// script creates each occurrence as a regular transaction once it is due.
+export const TransactionSchedules: React.FC = () => {
+  const { data: schedules = [], isLoading } = useUserSchedules();
+  const { data: users = [] } = useAllUsers();
+  const cancelScheduleMutation = useCancelSchedule();
+  const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+
+  const getName = (account: string) =>
+    users.find(
+      (user) => user.walletAddress.toLowerCase() === account.toLowerCase()
+    )?.name || formatAddress(account);
+
+  return (
+    <Card className="animate-in slide-in-from-bottom-4 duration-500">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center">
+            <CalendarClock className="w-5 h-5 mr-2" />
+            Recurring Schedules
+          </CardTitle>
+          <CardDescription>
+            {schedules.length} schedule{schedules.length !== 1 ? 's' : ''}
+          </CardDescription>
+        </div>
+        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <Plus className="w-4 h-4 mr-2" />
+              New Schedule
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>New Recurring Transaction</DialogTitle>
+              <DialogDescription>
+                Send the same payment on a fixed interval
+              </DialogDescription>
+            </DialogHeader>
+            <CreateScheduleForm
+              onSuccess={() => setIsCreateDialogOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : schedules.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground animate-in fade-in duration-500">
+            No schedules yet
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Status</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Amount</TableHead>
+                <TableHead>Token</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Repeats</TableHead>
+                <TableHead>Next Payment</TableHead>
+                <TableHead>Payments</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map((schedule, index) => (
+                <TableRow
+                  key={schedule.id.toString()}
+                  className="animate-in slide-in-from-left-4 duration-300"
+                  style={{ animationDelay: `${index * 50}ms` }}
+                >
+                  <TableCell>
+                    {getStatusBadge(getScheduleStatus(schedule))}
+                  </TableCell>
+                  <TableCell>{getName(schedule.to)}</TableCell>
+                  <TableCell className="font-medium">
+                    <TokenAmount
+                      amount={schedule.amount}
+                      token={schedule.token}
+                      showSymbol={false}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TokenSymbol token={schedule.token} />
+                  </TableCell>
+                  <TableCell className="max-w-xs truncate">
+                    {schedule.description}
+                  </TableCell>
+                  <TableCell>{formatInterval(schedule.interval)}</TableCell>
+                  <TableCell className="text-sm">
+                    {schedule.active ? (
+                      formatTimestamp(schedule.nextRunAt)
+                    ) : (
+                      <span className="text-muted-foreground">—</span>
+                    )}
+                    {schedule.active && schedule.endsAt > BigInt(0) && (
+                      <p className="text-xs text-muted-foreground">
+                        Ends {formatTimestamp(schedule.endsAt)}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {schedule.occurrences.toString()}
+                    {schedule.maxOccurrences > BigInt(0) &&
+                      ` / ${schedule.maxOccurrences}`}
+                  </TableCell>
+                  <TableCell>
+                    {schedule.active && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() =>
+                          cancelScheduleMutation.mutate(schedule.id)
+                        }
+                        disabled={cancelScheduleMutation.isPending}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
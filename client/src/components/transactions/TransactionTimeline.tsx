@@ -0,0 +1,137 @@
+'use client';
+
+import React from 'react';
+import {
+  useTransactionTimeline,
+  useUser as useUserByAddress,
+} from '@/lib/hooks/useContract';
+import {
+  TransactionSettlement,
+  TransactionStatus,
+  TransactionTimelineEvent,
+  UserRole,
+} from '@/types/contracts';
+import { formatAddress, formatTokenAmount } from '@/lib/web3/provider';
+import { Loader2 } from 'lucide-react';
+
+interface TransactionTimelineProps {
+  transactionId: number;
+  settlement?: TransactionSettlement | null;
+}
+
+// Title and dot colour for each lifecycle step
+const describeEvent = (
+  event: TransactionTimelineEvent
+): { title: string; color: string } => {
+  switch (event.type) {
+    case 'created':
+      return { title: 'Transaction Created', color: 'bg-blue-500' };
+    case 'approvalRequested':
+      return {
+        title: `Approval #${event.approvalId} Requested`,
+        color: 'bg-yellow-500',
+      };
+    case 'approvalSigned':
+      return event.approved
+        ? { title: 'Approver Signed Off', color: 'bg-green-400' }
+        : { title: 'Approver Rejected', color: 'bg-red-400' };
+    case 'statusUpdated':
+      switch (event.status) {
+        case TransactionStatus.Active:
+          return { title: 'Transaction Approved', color: 'bg-green-500' };
+        case TransactionStatus.Completed:
+          return { title: 'Transaction Completed', color: 'bg-green-600' };
+        case TransactionStatus.Rejected:
+          return { title: 'Transaction Rejected', color: 'bg-red-500' };
+        case TransactionStatus.Cancelled:
+          return { title: 'Transaction Cancelled', color: 'bg-gray-500' };
+        case TransactionStatus.Expired:
+          return { title: 'Approval Deadline Passed', color: 'bg-orange-500' };
+      }
+  }
+  return { title: 'Status Updated', color: 'bg-gray-400' };
+};
+
+const TimelineActor: React.FC<{ address: string }> = ({ address }) => {
+  const { data: user } = useUserByAddress(address);
+  // Unregistered addresses read back as an empty user with id 0
+  const actor = user && user.id !== BigInt(0) ? user : undefined;
+
+  return (
+    <span>
+      {actor?.name || formatAddress(address)}
+      {actor && (
+        <span>
+          {' '}
+          ({UserRole[actor.role]} · {formatAddress(address)})
+        </span>
+      )}
+    </span>
+  );
+};
+
+export const TransactionTimeline: React.FC<TransactionTimelineProps> = ({
+  transactionId,
+  settlement,
+}) => {
+  const { data: events = [], isLoading } =
+    useTransactionTimeline(transactionId);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (events.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No history available</p>
+    );
+  }
+
+  return (
+    <ol className="relative space-y-4 border-l border-muted ml-1">
+      {events.map((event) => {
+        const { title, color } = describeEvent(event);
+        const isCompletion =
+          event.type === 'statusUpdated' &&
+          event.status === TransactionStatus.Completed;
+
+        return (
+          <li
+            key={`${event.transactionHash}:${event.logIndex}`}
+            className="relative ml-4"
+          >
+            <div
+              className={`absolute -left-[20.5px] top-1.5 w-2 h-2 rounded-full ${color}`}
+            />
+            <p className="text-sm font-medium">{title}</p>
+            <p className="text-xs text-muted-foreground">
+              By <TimelineActor address={event.actor} /> ·{' '}
+              {new Date(event.timestamp * 1000).toLocaleString()}
+            </p>
+            {event.reason && (
+              <p className="text-xs text-muted-foreground break-words">
+                &ldquo;{event.reason}&rdquo;
+              </p>
+            )}
+            {isCompletion && settlement && (
+              <p className="text-xs text-muted-foreground">
+                {formatTokenAmount(settlement.amount, settlement.tokenDecimals)}{' '}
+                {settlement.tokenSymbol || 'tokens'} transferred to{' '}
+                {formatAddress(settlement.to)}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground font-mono">
+              Tx {formatAddress(event.transactionHash)} · Block #
+              {event.blockNumber}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ExportFormat } from '@/lib/export';
+import { Download, FileSpreadsheet, FileText } from 'lucide-react';
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void;
+  disabled?: boolean;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({
+  onExport,
+  disabled,
+}) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <Button variant="outline" size="sm" disabled={disabled}>
+        <Download className="w-4 h-4 mr-2" />
+        Export
+      </Button>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent align="end">
+      <DropdownMenuItem onClick={() => onExport('csv')}>
+        <FileText className="w-4 h-4 mr-2" />
+        CSV
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={() => onExport('xlsx')}>
+        <FileSpreadsheet className="w-4 h-4 mr-2" />
+        Excel (.xlsx)
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
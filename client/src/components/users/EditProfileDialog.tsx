@@ -0,0 +1,203 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useWallet } from '@/lib/hooks/useWallet';
+import {
+  useUser,
+  useUpdateName,
+  useUpdateUserEmail,
+  useProfileHistory,
+} from '@/lib/hooks/useContract';
+import {
+  updateProfileSchema,
+  UpdateProfileFormData,
+} from '@/lib/schemas/forms';
+import { User, UserRole } from '@/types/contracts';
+import { formatAddress } from '@/lib/web3/provider';
+import { extractErrorMessage } from '@/lib/errors';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import {
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { History, Loader2 } from 'lucide-react';
+
+interface EditProfileDialogProps {
+  user: User;
+  onSuccess?: () => void;
+}
+
+// Names are self-service; emails can only be changed by an admin
+export const EditProfileDialog: React.FC<EditProfileDialogProps> = ({
+  user,
+  onSuccess,
+}) => {
+  const { address } = useWallet();
+  const { data: viewer } = useUser(address || '');
+  const { data: history = [], isLoading: historyLoading } = useProfileHistory(
+    user.walletAddress
+  );
+  const updateNameMutation = useUpdateName();
+  const updateEmailMutation = useUpdateUserEmail();
+
+  const isSelf = user.walletAddress.toLowerCase() === address?.toLowerCase();
+  const isAdmin = viewer?.role === UserRole.Admin;
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    reset,
+  } = useForm<UpdateProfileFormData>({
+    resolver: zodResolver(updateProfileSchema),
+    defaultValues: { name: user.name, email: user.email },
+  });
+
+  useEffect(() => {
+    reset({ name: user.name, email: user.email });
+  }, [user.name, user.email, reset]);
+
+  const onSubmit = async (data: UpdateProfileFormData) => {
+    try {
+      if (isSelf && data.name !== user.name) {
+        await updateNameMutation.mutateAsync(data.name);
+      }
+      if (isAdmin && data.email !== user.email) {
+        await updateEmailMutation.mutateAsync({
+          walletAddress: user.walletAddress,
+          email: data.email,
+        });
+      }
+      onSuccess?.();
+    } catch (error) {
+      console.error('Error updating profile:', extractErrorMessage(error));
+    }
+  };
+
+  const isLoading =
+    isSubmitting ||
+    updateNameMutation.isPending ||
+    updateEmailMutation.isPending;
+
+  return (
+    <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+      <DialogHeader>
+        <DialogTitle>Edit Profile</DialogTitle>
+        <DialogDescription>
+          {user.name} · {formatAddress(user.walletAddress)}
+        </DialogDescription>
+      </DialogHeader>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="profile-name">Full Name</Label>
+          <Input
+            id="profile-name"
+            {...register('name')}
+            className={errors.name ? 'border-red-500' : ''}
+            disabled={isLoading || !isSelf}
+          />
+          {errors.name && (
+            <p className="text-sm text-red-500">{errors.name.message}</p>
+          )}
+          {!isSelf && (
+            <p className="text-xs text-muted-foreground">
+              Only the user can change their own name
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="profile-email">Email Address</Label>
+          <Input
+            id="profile-email"
+            type="email"
+            {...register('email')}
+            className={errors.email ? 'border-red-500' : ''}
+            disabled={isLoading || !isAdmin}
+          />
+          {errors.email && (
+            <p className="text-sm text-red-500">{errors.email.message}</p>
+          )}
+          {!isAdmin && (
+            <p className="text-xs text-muted-foreground">
+              Contact an admin to change your email address
+            </p>
+          )}
+        </div>
+
+        <Button
+          type="submit"
+          className="w-full"
+          disabled={isLoading || (!isSelf && !isAdmin)}
+        >
+          {isLoading ? (
+            <>
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            'Save Changes'
+          )}
+        </Button>
+      </form>
+
+      <Separator />
+
+      {/* Profile History */}
+      <div className="space-y-3">
+        <h4 className="font-medium flex items-center text-sm">
+          <History className="w-4 h-4 mr-2" />
+          Change History
+        </h4>
+        {historyLoading ? (
+          <div className="flex items-center text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            Loading history...
+          </div>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No changes since registration
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {history.map((change) => (
+              <div
+                key={change.transactionHash}
+                className="p-3 border rounded-lg text-sm space-y-1"
+              >
+                {change.previousName !== change.name && (
+                  <p>
+                    Name:{' '}
+                    <span className="line-through">{change.previousName}</span>{' '}
+                    → <span className="font-medium">{change.name}</span>
+                  </p>
+                )}
+                {change.previousEmail !== change.email && (
+                  <p>
+                    Email:{' '}
+                    <span className="line-through">{change.previousEmail}</span>{' '}
+                    → <span className="font-medium">{change.email}</span>
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {new Date(change.timestamp * 1000).toLocaleString()} by{' '}
+                  <span className="font-mono">
+                    {formatAddress(change.updatedBy)}
+                  </span>
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </DialogContent>
+  );
+};
@@ -0,0 +1,234 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  useAllUsers,
+  useRemoveUserLimit,
+  useRoleLimits,
+  useSetRoleLimit,
+  useSetUserLimit,
+  useUserLimits,
+} from '@/lib/hooks/useContract';
+import { SpendingLimit, UserRole } from '@/types/contracts';
+import {
+  formatAddress,
+  formatTokenBalance,
+  parseTokenAmount,
+} from '@/lib/web3/provider';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Gauge, Trash2 } from 'lucide-react';
+
+const ROLES = [UserRole.Regular, UserRole.Manager, UserRole.Admin];
+
+const formatLimit = (value: bigint) =>
+  value === BigInt(0) ? 'No limit' : `${formatTokenBalance(value)} PLT`;
+
+// Admin-only daily/monthly caps, per role with per-user overrides
+export const SpendingLimitsCard: React.FC = () => {
+  const { data: users = [] } = useAllUsers();
+  const { data: roleLimits = [] } = useRoleLimits();
+  const { data: userLimits = [] } = useUserLimits();
+  const setRoleLimitMutation = useSetRoleLimit();
+  const setUserLimitMutation = useSetUserLimit();
+  const removeUserLimitMutation = useRemoveUserLimit();
+
+  // "role:<UserRole>" or "user:<address>"
+  const [target, setTarget] = useState(`role:${UserRole.Regular}`);
+  const [daily, setDaily] = useState('');
+  const [monthly, setMonthly] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const getName = (account: string) =>
+    users.find(
+      (user) => user.walletAddress.toLowerCase() === account.toLowerCase()
+    )?.name || formatAddress(account);
+
+  const isPending =
+    setRoleLimitMutation.isPending || setUserLimitMutation.isPending;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    let limit: SpendingLimit;
+    try {
+      limit = {
+        daily: parseTokenAmount(daily || '0'),
+        monthly: parseTokenAmount(monthly || '0'),
+      };
+    } catch {
+      setError('Enter limits as PLT amounts, or leave empty for no limit');
+      return;
+    }
+    if (
+      limit.daily > BigInt(0) &&
+      limit.monthly > BigInt(0) &&
+      limit.daily > limit.monthly
+    ) {
+      setError('The daily limit cannot be above the monthly limit');
+      return;
+    }
+
+    const [kind, value] = target.split(':');
+    try {
+      if (kind === 'role') {
+        await setRoleLimitMutation.mutateAsync({
+          role: Number(value) as UserRole,
+          ...limit,
+        });
+      } else {
+        await setUserLimitMutation.mutateAsync({
+          userAddress: value,
+          ...limit,
+        });
+      }
+      setDaily('');
+      setMonthly('');
+    } catch (err) {
+      console.error('Error saving spending limit:', err);
+    }
+  };
+
+  return (
+    <Card className="animate-in slide-in-from-bottom-4 duration-500">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Gauge className="w-5 h-5 mr-2" />
+          Spending Limits
+        </CardTitle>
+        <CardDescription>
+          Cap how much users can send per UTC day and calendar month. A
+          user&apos;s own limit replaces their role&apos;s.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Applies To</TableHead>
+              <TableHead>Daily</TableHead>
+              <TableHead>Monthly</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {roleLimits.map((limit, role) => (
+              <TableRow key={`role-${role}`}>
+                <TableCell className="font-medium">
+                  All {UserRole[role]} users
+                </TableCell>
+                <TableCell>{formatLimit(limit.daily)}</TableCell>
+                <TableCell>{formatLimit(limit.monthly)}</TableCell>
+                <TableCell />
+              </TableRow>
+            ))}
+            {userLimits.map((limit) => (
+              <TableRow key={limit.userAddress}>
+                <TableCell className="font-medium">
+                  {getName(limit.userAddress)}
+                </TableCell>
+                <TableCell>{formatLimit(limit.daily)}</TableCell>
+                <TableCell>{formatLimit(limit.monthly)}</TableCell>
+                <TableCell>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    title="Use the role's limits"
+                    onClick={() =>
+                      removeUserLimitMutation.mutate(limit.userAddress)
+                    }
+                    disabled={removeUserLimitMutation.isPending}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2">
+            <Label>Applies To</Label>
+            <Select value={target} onValueChange={setTarget}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ROLES.map((role) => (
+                  <SelectItem key={role} value={`role:${role}`}>
+                    All {UserRole[role]} users
+                  </SelectItem>
+                ))}
+                {users.map((user) => (
+                  <SelectItem
+                    key={user.walletAddress}
+                    value={`user:${user.walletAddress}`}
+                  >
+                    {user.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="dailyLimit">Daily (PLT)</Label>
+            <Input
+              id="dailyLimit"
+              type="number"
+              min="0"
+              placeholder="No limit"
+              value={daily}
+              onChange={(e) => setDaily(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="monthlyLimit">Monthly (PLT)</Label>
+            <Input
+              id="monthlyLimit"
+              type="number"
+              min="0"
+              placeholder="No limit"
+              value={monthly}
+              onChange={(e) => setMonthly(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button type="submit" className="w-full" disabled={isPending}>
+              {isPending ? 'Saving...' : 'Save Limit'}
+            </Button>
+          </div>
+        </form>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <p className="text-xs text-muted-foreground">
+          Leave a field empty for no limit. Every transaction created counts
+          towards the limit, whatever its outcome.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
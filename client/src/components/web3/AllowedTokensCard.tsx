@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState } from 'react';
+import { isAddress } from 'ethers';
+import { useSetTokenAllowed, useTokens } from '@/lib/hooks/useContract';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Coins, Loader2, Trash2 } from 'lucide-react';
+
+// Admin-only allowlist of the ERC-20 tokens transactions can be made in
+export const AllowedTokensCard: React.FC = () => {
+  const { data: tokens = [] } = useTokens();
+  const setTokenAllowedMutation = useSetTokenAllowed();
+  const [tokenAddress, setTokenAddress] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const address = tokenAddress.trim();
+    if (!isAddress(address)) {
+      setError('Enter a valid token contract address');
+      return;
+    }
+    if (
+      tokens.some(
+        (token) => token.address.toLowerCase() === address.toLowerCase()
+      )
+    ) {
+      setError('This token is already allowed');
+      return;
+    }
+
+    try {
+      await setTokenAllowedMutation.mutateAsync({
+        token: address,
+        allowed: true,
+      });
+      setTokenAddress('');
+    } catch (err) {
+      console.error('Error allowing token:', err);
+    }
+  };
+
+  return (
+    <Card className="animate-in slide-in-from-bottom-4 duration-500">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Coins className="w-5 h-5 mr-2" />
+          Allowed Tokens
+        </CardTitle>
+        <CardDescription>
+          ERC-20 tokens users can create transactions in. Spending limits and
+          approval tiers are set in the settlement token; transactions in other
+          tokens always need admin approval when tiers are enabled.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Token</TableHead>
+              <TableHead>Address</TableHead>
+              <TableHead>Decimals</TableHead>
+              <TableHead>Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tokens.map((token) => (
+              <TableRow key={token.address}>
+                <TableCell className="font-medium">
+                  {token.symbol}
+                  {token.isSettlementToken && (
+                    <Badge variant="outline" className="ml-2 text-xs">
+                      Settlement
+                    </Badge>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-sm">
+                  {token.address}
+                </TableCell>
+                <TableCell>{token.decimals}</TableCell>
+                <TableCell>
+                  {!token.isSettlementToken && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title="Stop new transactions in this token"
+                      onClick={() =>
+                        setTokenAllowedMutation.mutate({
+                          token: token.address,
+                          allowed: false,
+                        })
+                      }
+                      disabled={setTokenAllowedMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <form onSubmit={handleSubmit} className="grid gap-4 md:grid-cols-4">
+          <div className="space-y-2 md:col-span-3">
+            <Label htmlFor="allowedTokenAddress">Token Address</Label>
+            <Input
+              id="allowedTokenAddress"
+              placeholder="0x..."
+              value={tokenAddress}
+              onChange={(e) => setTokenAddress(e.target.value)}
+            />
+          </div>
+          <div className="flex items-end">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={setTokenAllowedMutation.isPending}
+            >
+              {setTokenAllowedMutation.isPending ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                'Allow Token'
+              )}
+            </Button>
+          </div>
+        </form>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <p className="text-xs text-muted-foreground">
+          Removing a token only stops new transactions in it; existing ones can
+          still be completed.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,33 @@
+'use client';
+
+import React from 'react';
+import { useTokenInfo } from '@/lib/hooks/useContract';
+import { formatTokenAmount } from '@/lib/web3/provider';
+
+interface TokenAmountProps {
+  amount: bigint;
+  // Transaction.token; the zero address is the settlement token
+  token?: string;
+  showSymbol?: boolean;
+}
+
+// An amount formatted with its token's decimals, followed by the symbol
+export const TokenAmount: React.FC<TokenAmountProps> = ({
+  amount,
+  token,
+  showSymbol = true,
+}) => {
+  const { data: tokenInfo } = useTokenInfo(token);
+
+  if (!tokenInfo) return <>—</>;
+
+  const formatted = formatTokenAmount(amount, tokenInfo.decimals);
+  return <>{showSymbol ? `${formatted} ${tokenInfo.symbol}` : formatted}</>;
+};
+
+// The symbol of a transaction's token
+export const TokenSymbol: React.FC<{ token?: string }> = ({ token }) => {
+  const { data: tokenInfo } = useTokenInfo(token);
+
+  return <>{tokenInfo?.symbol ?? '—'}</>;
+};
@@ -0,0 +1,27 @@
+'use client';
+
+import React from 'react';
+import { useWallet } from '@/lib/hooks/useWallet';
+import { useTokenBalance } from '@/lib/hooks/useContract';
+import { formatTokenBalance } from '@/lib/web3/provider';
+import { Badge } from '@/components/ui/badge';
+import { Coins } from 'lucide-react';
+
+// Compact platform token balance shown in the header
+export const TokenBalanceBadge: React.FC = () => {
+  const { address } = useWallet();
+  const { data: tokenBalance, isLoading } = useTokenBalance(address || '');
+
+  if (!address) return null;
+
+  return (
+    <Badge variant="outline" className="hidden sm:inline-flex text-xs h-8 px-3">
+      <Coins className="w-3 h-3 mr-1" />
+      {isLoading || !tokenBalance
+        ? '—'
+        : `${formatTokenBalance(tokenBalance.balance, tokenBalance.decimals)} ${
+            tokenBalance.symbol
+          }`}
+    </Badge>
+  );
+};
@@ -1,8 +1,25 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -11,13 +28,101 @@ import {
   DropdownMenuSeparator,
 } from '@/components/ui/dropdown-menu';
 import { useWallet } from '@/lib/hooks/useWallet';
-import { NETWORKS } from '@/constants/networks';
+import { DEFAULT_NETWORK, NETWORKS } from '@/constants/networks';
 import { formatAddress, isSupportedNetwork } from '@/lib/web3/provider';
-import { Wallet, ChevronDown, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ethers } from 'ethers';
+import {
+  Wallet,
+  ChevronDown,
+  AlertTriangle,
+  CheckCircle,
+  Eye,
+} from 'lucide-react';
+
+// Lets users without a wallet browse the platform as any address
+const ViewAsAddressDialog: React.FC = () => {
+  const { viewAsAddress } = useWallet();
+  const [open, setOpen] = useState(false);
+  const [address, setAddress] = useState('');
+  const [chainId, setChainId] = useState(NETWORKS[DEFAULT_NETWORK].chainId);
+
+  const isValidAddress = ethers.isAddress(address.trim());
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidAddress) return;
+
+    viewAsAddress(address.trim(), chainId);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Eye className="w-4 h-4 mr-2" />
+          View as Address
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>View as Address</DialogTitle>
+          <DialogDescription>
+            Browse dashboards read-only through the network&apos;s RPC
+            endpoint. No wallet is needed, and transactions can&apos;t be sent.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="view-as-address">Wallet Address</Label>
+            <Input
+              id="view-as-address"
+              placeholder="0x..."
+              value={address}
+              onChange={(e) => setAddress(e.target.value)}
+              className={
+                address && !isValidAddress ? 'border-red-500' : undefined
+              }
+            />
+            {address && !isValidAddress && (
+              <p className="text-sm text-red-500">Invalid address</p>
+            )}
+          </div>
+          <div className="space-y-2">
+            <Label>Network</Label>
+            <Select
+              value={chainId.toString()}
+              onValueChange={(value) => setChainId(Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.values(NETWORKS).map((network) => (
+                  <SelectItem
+                    key={network.chainId}
+                    value={network.chainId.toString()}
+                  >
+                    {network.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" className="w-full" disabled={!isValidAddress}>
+            <Eye className="w-4 h-4 mr-2" />
+            Start Viewing
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
 
 export const WalletConnect: React.FC = () => {
   const {
     isConnected,
+    isReadOnly,
     address,
     chainId,
     connect,
@@ -49,6 +154,7 @@ export const WalletConnect: React.FC = () => {
           <Wallet className="w-4 h-4 mr-2" />
           {isLoading ? 'Connecting...' : 'Connect Wallet'}
         </Button>
+        <ViewAsAddressDialog />
       </div>
     );
   }
@@ -70,18 +176,29 @@ export const WalletConnect: React.FC = () => {
         </Badge>
       )}
 
+      {isReadOnly && (
+        <Badge variant="secondary" className="text-xs">
+          <Eye className="w-3 h-3 mr-1" />
+          Read-only
+        </Badge>
+      )}
+
       {/* Wallet Dropdown */}
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
           <Button variant="outline" size="sm" disabled={isLoading}>
-            <Wallet className="w-4 h-4 mr-2" />
+            {isReadOnly ? (
+              <Eye className="w-4 h-4 mr-2" />
+            ) : (
+              <Wallet className="w-4 h-4 mr-2" />
+            )}
             {formatAddress(address || '')}
             <ChevronDown className="w-4 h-4 ml-2" />
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end" className="w-56">
           <div className="px-2 py-1.5 text-sm font-medium">
-            Connected Account
+            {isReadOnly ? 'Viewing as' : 'Connected Account'}
           </div>
           <div className="px-2 py-1.5 text-xs text-muted-foreground">
             {address}
@@ -109,11 +226,17 @@ export const WalletConnect: React.FC = () => {
 
           <DropdownMenuSeparator />
 
+          {isReadOnly && (
+            <DropdownMenuItem onClick={connect} className="text-xs">
+              <Wallet className="w-3 h-3 mr-2" />
+              Connect Wallet
+            </DropdownMenuItem>
+          )}
           <DropdownMenuItem
             onClick={disconnect}
             className="text-destructive focus:text-destructive"
           >
-            Disconnect Wallet
+            {isReadOnly ? 'Exit Read-only Mode' : 'Disconnect Wallet'}
           </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
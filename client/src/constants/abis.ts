@@ -23,6 +23,37 @@ export const FINANCIAL_PLATFORM_ABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'updateName',
+    inputs: [{ name: 'name', type: 'string' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'updateUserEmail',
+    inputs: [
+      { name: 'userAddress', type: 'address' },
+      { name: 'email', type: 'string' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'deactivateUser',
+    inputs: [{ name: 'userAddress', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'reactivateUser',
+    inputs: [{ name: 'userAddress', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
   {
     type: 'function',
     name: 'getUser',
@@ -70,6 +101,18 @@ export const FINANCIAL_PLATFORM_ABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'createTokenTransaction',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'token', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'description', type: 'string' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
   {
     type: 'function',
     name: 'requestApproval',
@@ -87,6 +130,13 @@ export const FINANCIAL_PLATFORM_ABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'cancelTransaction',
+    inputs: [{ name: 'transactionId', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
   {
     type: 'function',
     name: 'getTransaction',
@@ -103,6 +153,7 @@ export const FINANCIAL_PLATFORM_ABI = [
           { name: 'status', type: 'uint8' },
           { name: 'timestamp', type: 'uint256' },
           { name: 'approvalId', type: 'uint256' },
+          { name: 'token', type: 'address' },
         ],
       },
     ],
@@ -129,6 +180,60 @@ export const FINANCIAL_PLATFORM_ABI = [
     outputs: [{ name: '', type: 'uint256[]' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'getUserTransactionsPaginated',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'ids', type: 'uint256[]' },
+      { name: 'total', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+
+  // Role & Config Change Requests
+  {
+    type: 'function',
+    name: 'requestRoleChange',
+    inputs: [
+      { name: 'userAddress', type: 'address' },
+      { name: 'newRole', type: 'uint8' },
+      { name: 'reason', type: 'string' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'requestSettlementTokenChange',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'reason', type: 'string' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'roleChangeRequests',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: [
+      { name: 'userAddress', type: 'address' },
+      { name: 'newRole', type: 'uint8' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'settlementTokenRequests',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
 
   // Approval System
   {
@@ -142,6 +247,24 @@ export const FINANCIAL_PLATFORM_ABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'expireApproval',
+    inputs: [{ name: 'approvalId', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'processApprovals',
+    inputs: [
+      { name: 'approvalIds', type: 'uint256[]' },
+      { name: 'approved', type: 'bool' },
+      { name: 'reason', type: 'string' },
+    ],
+    outputs: [{ name: 'processed', type: 'bool[]' }],
+    stateMutability: 'nonpayable',
+  },
   {
     type: 'function',
     name: 'getApproval',
@@ -158,11 +281,44 @@ export const FINANCIAL_PLATFORM_ABI = [
           { name: 'status', type: 'uint8' },
           { name: 'reason', type: 'string' },
           { name: 'timestamp', type: 'uint256' },
+          { name: 'requiredApprovals', type: 'uint256' },
+          { name: 'requiredAdminApprovals', type: 'uint256' },
+          { name: 'expiresAt', type: 'uint256' },
+          { name: 'approverRole', type: 'uint8' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getApprovalSignatures',
+    inputs: [{ name: 'approvalId', type: 'uint256' }],
+    outputs: [
+      {
+        type: 'tuple[]',
+        components: [
+          { name: 'approver', type: 'address' },
+          { name: 'delegate', type: 'address' },
+          { name: 'approved', type: 'bool' },
+          { name: 'isAdmin', type: 'bool' },
+          { name: 'reason', type: 'string' },
+          { name: 'timestamp', type: 'uint256' },
         ],
       },
     ],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'hasSignedApproval',
+    inputs: [
+      { name: 'approvalId', type: 'uint256' },
+      { name: 'approver', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
   {
     type: 'function',
     name: 'getPendingApprovals',
@@ -170,6 +326,19 @@ export const FINANCIAL_PLATFORM_ABI = [
     outputs: [{ name: '', type: 'uint256[]' }],
     stateMutability: 'view',
   },
+  {
+    type: 'function',
+    name: 'getPendingApprovalsPaginated',
+    inputs: [
+      { name: 'offset', type: 'uint256' },
+      { name: 'limit', type: 'uint256' },
+    ],
+    outputs: [
+      { name: 'ids', type: 'uint256[]' },
+      { name: 'total', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
   {
     type: 'function',
     name: 'getApprovalCount',
@@ -178,6 +347,160 @@ export const FINANCIAL_PLATFORM_ABI = [
     stateMutability: 'view',
   },
 
+  // Approval Policies
+  {
+    type: 'function',
+    name: 'approvalDeadline',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setApprovalDeadline',
+    inputs: [{ name: 'duration', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'approvalTiers',
+    inputs: [],
+    outputs: [
+      { name: 'enabled', type: 'bool' },
+      { name: 'autoApproveBelow', type: 'uint256' },
+      { name: 'adminApprovalFrom', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setApprovalTiers',
+    inputs: [
+      { name: 'enabled', type: 'bool' },
+      { name: 'autoApproveBelow', type: 'uint256' },
+      { name: 'adminApprovalFrom', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'spendingLimits',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setSpendingLimits',
+    inputs: [{ name: 'limits', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'tokenAllowlist',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setTokenAllowlist',
+    inputs: [{ name: 'allowlist', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'approvalDelegation',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setApprovalDelegation',
+    inputs: [{ name: 'delegation', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'transactionScheduler',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setTransactionScheduler',
+    inputs: [{ name: 'scheduler', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setApprovalPolicy',
+    inputs: [
+      { name: 'minAmount', type: 'uint256' },
+      { name: 'requiredApprovals', type: 'uint256' },
+      { name: 'requiredAdminApprovals', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'removeApprovalPolicy',
+    inputs: [{ name: 'minAmount', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'getApprovalPolicies',
+    inputs: [],
+    outputs: [
+      {
+        type: 'tuple[]',
+        components: [
+          { name: 'minAmount', type: 'uint256' },
+          { name: 'requiredApprovals', type: 'uint256' },
+          { name: 'requiredAdminApprovals', type: 'uint256' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getRequiredApprovals',
+    inputs: [{ name: 'amount', type: 'uint256' }],
+    outputs: [
+      { name: '', type: 'uint256' },
+      { name: '', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+
+  // Settlement
+  {
+    type: 'function',
+    name: 'settlementToken',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setSettlementToken',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+
   // Events
   {
     type: 'event',
@@ -196,6 +519,28 @@ export const FINANCIAL_PLATFORM_ABI = [
       { name: 'newRole', type: 'uint8', indexed: false },
     ],
   },
+  {
+    type: 'event',
+    name: 'UserProfileUpdated',
+    inputs: [
+      { name: 'userAddress', type: 'address', indexed: true },
+      { name: 'updatedBy', type: 'address', indexed: true },
+      { name: 'previousName', type: 'string', indexed: false },
+      { name: 'previousEmail', type: 'string', indexed: false },
+      { name: 'name', type: 'string', indexed: false },
+      { name: 'email', type: 'string', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'UserDeactivated',
+    inputs: [{ name: 'userAddress', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'UserReactivated',
+    inputs: [{ name: 'userAddress', type: 'address', indexed: true }],
+  },
   {
     type: 'event',
     name: 'TransactionCreated',
@@ -232,19 +577,473 @@ export const FINANCIAL_PLATFORM_ABI = [
       { name: 'approver', type: 'address', indexed: true },
     ],
   },
-] as const;
-
-// MockToken Contract ABI
-export const MOCK_TOKEN_ABI = [
-  {
-    type: 'function',
-    name: 'name',
-    inputs: [],
-    outputs: [{ name: '', type: 'string' }],
-    stateMutability: 'view',
-  },
   {
-    type: 'function',
+    type: 'event',
+    name: 'ApprovalSigned',
+    inputs: [
+      { name: 'approvalId', type: 'uint256', indexed: true },
+      { name: 'approver', type: 'address', indexed: true },
+      { name: 'approved', type: 'bool', indexed: false },
+      { name: 'approvalCount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ApprovalProcessingFailed',
+    inputs: [
+      { name: 'approvalId', type: 'uint256', indexed: true },
+      { name: 'approver', type: 'address', indexed: true },
+      { name: 'error', type: 'string', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ApprovalPolicyUpdated',
+    inputs: [
+      { name: 'minAmount', type: 'uint256', indexed: false },
+      { name: 'requiredApprovals', type: 'uint256', indexed: false },
+      { name: 'requiredAdminApprovals', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ApprovalDeadlineUpdated',
+    inputs: [{ name: 'duration', type: 'uint256', indexed: false }],
+  },
+  {
+    type: 'event',
+    name: 'ApprovalTiersUpdated',
+    inputs: [
+      { name: 'enabled', type: 'bool', indexed: false },
+      { name: 'autoApproveBelow', type: 'uint256', indexed: false },
+      { name: 'adminApprovalFrom', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'SpendingLimitsUpdated',
+    inputs: [{ name: 'spendingLimits', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'TokenAllowlistChanged',
+    inputs: [{ name: 'tokenAllowlist', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'ApprovalDelegationChanged',
+    inputs: [{ name: 'approvalDelegation', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'TransactionSchedulerChanged',
+    inputs: [{ name: 'transactionScheduler', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'ApprovalPolicyRemoved',
+    inputs: [{ name: 'minAmount', type: 'uint256', indexed: false }],
+  },
+  {
+    type: 'event',
+    name: 'SettlementTokenUpdated',
+    inputs: [{ name: 'token', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'RoleChangeRequested',
+    inputs: [
+      { name: 'approvalId', type: 'uint256', indexed: true },
+      { name: 'userAddress', type: 'address', indexed: true },
+      { name: 'newRole', type: 'uint8', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'SettlementTokenChangeRequested',
+    inputs: [
+      { name: 'approvalId', type: 'uint256', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'TransactionSettled',
+    inputs: [
+      { name: 'transactionId', type: 'uint256', indexed: true },
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'from', type: 'address', indexed: false },
+      { name: 'to', type: 'address', indexed: false },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+// TransactionScheduler Contract ABI
+export const TRANSACTION_SCHEDULER_ABI = [
+  {
+    type: 'function',
+    name: 'createSchedule',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+      { name: 'description', type: 'string' },
+      { name: 'interval', type: 'uint256' },
+      { name: 'startsAt', type: 'uint256' },
+      { name: 'endsAt', type: 'uint256' },
+      { name: 'maxOccurrences', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'cancelSchedule',
+    inputs: [{ name: 'scheduleId', type: 'uint256' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'executeSchedule',
+    inputs: [{ name: 'scheduleId', type: 'uint256' }],
+    outputs: [{ name: 'transactionId', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'isDue',
+    inputs: [{ name: 'scheduleId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getSchedule',
+    inputs: [{ name: 'scheduleId', type: 'uint256' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'id', type: 'uint256' },
+          { name: 'owner', type: 'address' },
+          { name: 'to', type: 'address' },
+          { name: 'token', type: 'address' },
+          { name: 'amount', type: 'uint256' },
+          { name: 'description', type: 'string' },
+          { name: 'interval', type: 'uint256' },
+          { name: 'nextRunAt', type: 'uint256' },
+          { name: 'endsAt', type: 'uint256' },
+          { name: 'maxOccurrences', type: 'uint256' },
+          { name: 'occurrences', type: 'uint256' },
+          { name: 'active', type: 'bool' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getUserSchedules',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256[]' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getDueSchedules',
+    inputs: [],
+    outputs: [{ name: 'dueIds', type: 'uint256[]' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getScheduleCount',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'event',
+    name: 'ScheduleCreated',
+    inputs: [
+      { name: 'scheduleId', type: 'uint256', indexed: true },
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'interval', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ScheduleExecuted',
+    inputs: [
+      { name: 'scheduleId', type: 'uint256', indexed: true },
+      { name: 'transactionId', type: 'uint256', indexed: true },
+      { name: 'occurrence', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'ScheduleCancelled',
+    inputs: [{ name: 'scheduleId', type: 'uint256', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'ScheduleCompleted',
+    inputs: [{ name: 'scheduleId', type: 'uint256', indexed: true }],
+  },
+] as const;
+
+// SpendingLimits Contract ABI
+export const SPENDING_LIMITS_ABI = [
+  {
+    type: 'function',
+    name: 'setRoleLimit',
+    inputs: [
+      { name: 'role', type: 'uint8' },
+      { name: 'daily', type: 'uint256' },
+      { name: 'monthly', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'setUserLimit',
+    inputs: [
+      { name: 'user', type: 'address' },
+      { name: 'daily', type: 'uint256' },
+      { name: 'monthly', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'removeUserLimit',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'roleLimits',
+    inputs: [{ name: 'role', type: 'uint8' }],
+    outputs: [
+      { name: 'daily', type: 'uint256' },
+      { name: 'monthly', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'userLimits',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [
+      { name: 'daily', type: 'uint256' },
+      { name: 'monthly', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'hasUserLimit',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getLimit',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [
+      {
+        name: '',
+        type: 'tuple',
+        components: [
+          { name: 'daily', type: 'uint256' },
+          { name: 'monthly', type: 'uint256' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getSpent',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [
+      { name: 'dailySpent', type: 'uint256' },
+      { name: 'monthlySpent', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getRemaining',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [
+      { name: 'daily', type: 'uint256' },
+      { name: 'monthly', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'event',
+    name: 'RoleLimitUpdated',
+    inputs: [
+      { name: 'role', type: 'uint8', indexed: true },
+      { name: 'daily', type: 'uint256', indexed: false },
+      { name: 'monthly', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'UserLimitUpdated',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'daily', type: 'uint256', indexed: false },
+      { name: 'monthly', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'UserLimitRemoved',
+    inputs: [{ name: 'user', type: 'address', indexed: true }],
+  },
+  {
+    type: 'event',
+    name: 'SpendRecorded',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'dailySpent', type: 'uint256', indexed: false },
+      { name: 'monthlySpent', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'SpendReleased',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'dailySpent', type: 'uint256', indexed: false },
+      { name: 'monthlySpent', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+// TokenAllowlist Contract ABI
+export const TOKEN_ALLOWLIST_ABI = [
+  {
+    type: 'function',
+    name: 'allowedTokens',
+    inputs: [{ name: 'token', type: 'address' }],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getAllowedTokens',
+    inputs: [],
+    outputs: [{ name: '', type: 'address[]' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'setTokenAllowed',
+    inputs: [
+      { name: 'token', type: 'address' },
+      { name: 'allowed', type: 'bool' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+
+  // Events
+  {
+    type: 'event',
+    name: 'TokenAllowlistUpdated',
+    inputs: [
+      { name: 'token', type: 'address', indexed: true },
+      { name: 'allowed', type: 'bool', indexed: false },
+    ],
+  },
+] as const;
+
+// ApprovalDelegation Contract ABI
+export const APPROVAL_DELEGATION_ABI = [
+  {
+    type: 'function',
+    name: 'delegateApprovals',
+    inputs: [
+      { name: 'delegate', type: 'address' },
+      { name: 'startsAt', type: 'uint256' },
+      { name: 'endsAt', type: 'uint256' },
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'revokeDelegation',
+    inputs: [],
+    outputs: [],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'delegations',
+    inputs: [{ name: 'delegator', type: 'address' }],
+    outputs: [
+      { name: 'delegate', type: 'address' },
+      { name: 'startsAt', type: 'uint256' },
+      { name: 'endsAt', type: 'uint256' },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'activeDelegator',
+    inputs: [{ name: 'account', type: 'address' }],
+    outputs: [{ name: '', type: 'address' }],
+    stateMutability: 'view',
+  },
+
+  // Events
+  {
+    type: 'event',
+    name: 'ApprovalDelegated',
+    inputs: [
+      { name: 'delegator', type: 'address', indexed: true },
+      { name: 'delegate', type: 'address', indexed: true },
+      { name: 'startsAt', type: 'uint256', indexed: false },
+      { name: 'endsAt', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'DelegationRevoked',
+    inputs: [
+      { name: 'delegator', type: 'address', indexed: true },
+      { name: 'delegate', type: 'address', indexed: true },
+    ],
+  },
+] as const;
+
+// MockToken Contract ABI
+export const MOCK_TOKEN_ABI = [
+  {
+    type: 'function',
+    name: 'name',
+    inputs: [],
+    outputs: [{ name: '', type: 'string' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
     name: 'symbol',
     inputs: [],
     outputs: [{ name: '', type: 'string' }],
@@ -281,6 +1080,37 @@ export const MOCK_TOKEN_ABI = [
     outputs: [{ name: '', type: 'bool' }],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'function',
+    name: 'allowance',
+    inputs: [
+      { name: 'owner', type: 'address' },
+      { name: 'spender', type: 'address' },
+    ],
+    outputs: [{ name: '', type: 'uint256' }],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'approve',
+    inputs: [
+      { name: 'spender', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'transferFrom',
+    inputs: [
+      { name: 'from', type: 'address' },
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+    stateMutability: 'nonpayable',
+  },
   {
     type: 'function',
     name: 'mint',
@@ -291,4 +1121,52 @@ export const MOCK_TOKEN_ABI = [
     outputs: [],
     stateMutability: 'nonpayable',
   },
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Approval',
+    inputs: [
+      { name: 'owner', type: 'address', indexed: true },
+      { name: 'spender', type: 'address', indexed: true },
+      { name: 'value', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+// Multicall3 (aggregate3 only), used to batch contract reads
+export const MULTICALL3_ABI = [
+  {
+    type: 'function',
+    name: 'aggregate3',
+    inputs: [
+      {
+        name: 'calls',
+        type: 'tuple[]',
+        components: [
+          { name: 'target', type: 'address' },
+          { name: 'allowFailure', type: 'bool' },
+          { name: 'callData', type: 'bytes' },
+        ],
+      },
+    ],
+    outputs: [
+      {
+        name: 'returnData',
+        type: 'tuple[]',
+        components: [
+          { name: 'success', type: 'bool' },
+          { name: 'returnData', type: 'bytes' },
+        ],
+      },
+    ],
+    stateMutability: 'payable',
+  },
 ] as const;
@@ -10,21 +10,76 @@ export const CONTRACT_ADDRESSES: Record<number, ContractAddresses> = {
     mockToken:
       process.env.NEXT_PUBLIC_MOCK_TOKEN_ADDRESS_LOCALHOST ||
       '0xA51c1fc2f0D1a1b8494Ed1FE312d7C3a78Ed91C0',
+    transactionScheduler:
+      process.env.NEXT_PUBLIC_TRANSACTION_SCHEDULER_ADDRESS_LOCALHOST ||
+      '0x0DCd1Bf9A1b36cE34237eEaFef220932846BCD82',
+    spendingLimits:
+      process.env.NEXT_PUBLIC_SPENDING_LIMITS_ADDRESS_LOCALHOST ||
+      '0x9A676e781A523b5d0C0e43731313A708CB607508',
+    tokenAllowlist:
+      process.env.NEXT_PUBLIC_TOKEN_ALLOWLIST_ADDRESS_LOCALHOST ||
+      '0x959922bE3CAee4b8Cd9a407cc3ac1C251C2007B1',
+    approvalDelegation:
+      process.env.NEXT_PUBLIC_APPROVAL_DELEGATION_ADDRESS_LOCALHOST ||
+      '0x9A9f2CCfdE556A7E9Ff0848998Aa4a0CFD8863AE',
   },
   // Sepolia Testnet
   11155111: {
     financialPlatform:
       process.env.NEXT_PUBLIC_FINANCIAL_PLATFORM_ADDRESS_SEPOLIA || '',
     mockToken: process.env.NEXT_PUBLIC_MOCK_TOKEN_ADDRESS_SEPOLIA || '',
+    transactionScheduler:
+      process.env.NEXT_PUBLIC_TRANSACTION_SCHEDULER_ADDRESS_SEPOLIA || '',
+    spendingLimits:
+      process.env.NEXT_PUBLIC_SPENDING_LIMITS_ADDRESS_SEPOLIA || '',
+    tokenAllowlist:
+      process.env.NEXT_PUBLIC_TOKEN_ALLOWLIST_ADDRESS_SEPOLIA || '',
+    approvalDelegation:
+      process.env.NEXT_PUBLIC_APPROVAL_DELEGATION_ADDRESS_SEPOLIA || '',
   },
 };
 
+// Multicall3 is deployed at the same address on every network (installed by
+// the deploy script on Hardhat)
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Maximum number of calls aggregated into a single Multicall3 request
+export const MULTICALL_BATCH_SIZE = 100;
+
+// Transactions sent before waiting for receipts in a batched bulk submission
+export const BULK_SUBMIT_BATCH_SIZE = 10;
+
+// Approvals per processApprovals call (the contract's MAX_APPROVAL_BATCH_SIZE)
+export const APPROVAL_BATCH_SIZE = 50;
+
+// First block to index events from on each network (the contract's
+// deployment block); indexing starts at 0 when not set
+export const INDEXER_START_BLOCKS: Record<number, number> = {
+  11155111: Number(process.env.NEXT_PUBLIC_DEPLOY_BLOCK_SEPOLIA || 0),
+};
+
 // Default gas limits for different operations
 export const GAS_LIMITS = {
   REGISTER_USER: 500000,
   UPDATE_USER_ROLE: 100000,
+  REQUEST_ROLE_CHANGE: 300000,
+  SET_USER_ACTIVE: 150000,
+  UPDATE_PROFILE: 200000,
   CREATE_TRANSACTION: 1000000,
   REQUEST_APPROVAL: 500000,
-  PROCESS_APPROVAL: 120000,
-  COMPLETE_TRANSACTION: 150000,
+  PROCESS_APPROVAL: 300000,
+  SET_APPROVAL_POLICY: 200000,
+  COMPLETE_TRANSACTION: 200000,
+  CANCEL_TRANSACTION: 150000,
+  EXPIRE_APPROVAL: 150000,
+  SET_APPROVAL_DEADLINE: 100000,
+  SET_APPROVAL_TIERS: 100000,
+  SET_TOKEN_ALLOWED: 150000,
+  DELEGATE_APPROVALS: 150000,
+  REVOKE_DELEGATION: 100000,
+  CREATE_SCHEDULE: 400000,
+  CANCEL_SCHEDULE: 100000,
+  SET_SPENDING_LIMIT: 150000,
+  REMOVE_SPENDING_LIMIT: 100000,
+  APPROVE_TOKEN: 100000,
 } as const;
@@ -0,0 +1,87 @@
+import { SavedContact, TransactionTemplate } from '@/types/contracts';
+
+// Saved contacts and transaction templates for one account on one network
+export interface AddressBook {
+  contacts: SavedContact[];
+  templates: TransactionTemplate[];
+}
+
+const STORAGE_PREFIX = 'financial-platform-address-book';
+
+export const createEmptyAddressBook = (): AddressBook => ({
+  contacts: [],
+  templates: [],
+});
+
+export const getAddressBookScope = (chainId: number, account: string) =>
+  `${chainId}:${account.toLowerCase()}`;
+
+// localStorage is unavailable during SSR
+const isStorageAvailable = (): boolean => typeof localStorage !== 'undefined';
+
+/**
+ * Loads the persisted address book for an account, or an empty one.
+ */
+export const loadAddressBook = (scope: string): AddressBook => {
+  if (!isStorageAvailable()) return createEmptyAddressBook();
+
+  try {
+    const saved = localStorage.getItem(`${STORAGE_PREFIX}:${scope}`);
+    if (!saved) return createEmptyAddressBook();
+    return { ...createEmptyAddressBook(), ...JSON.parse(saved) };
+  } catch (error) {
+    console.error('Error loading address book:', error);
+    return createEmptyAddressBook();
+  }
+};
+
+export const saveAddressBook = (scope: string, book: AddressBook): void => {
+  if (!isStorageAvailable()) return;
+
+  localStorage.setItem(`${STORAGE_PREFIX}:${scope}`, JSON.stringify(book));
+};
+
+/**
+ * Adds a contact, or renames it if the address is already saved.
+ */
+export const upsertContact = (
+  book: AddressBook,
+  contact: SavedContact
+): AddressBook => ({
+  ...book,
+  contacts: [
+    ...book.contacts.filter(
+      (saved) => saved.address.toLowerCase() !== contact.address.toLowerCase()
+    ),
+    contact,
+  ].sort((a, b) => a.name.localeCompare(b.name)),
+});
+
+export const removeContact = (
+  book: AddressBook,
+  address: string
+): AddressBook => ({
+  ...book,
+  contacts: book.contacts.filter(
+    (saved) => saved.address.toLowerCase() !== address.toLowerCase()
+  ),
+});
+
+/**
+ * Adds a template, replacing one with the same ID.
+ */
+export const upsertTemplate = (
+  book: AddressBook,
+  template: TransactionTemplate
+): AddressBook => ({
+  ...book,
+  templates: [
+    ...book.templates.filter((saved) => saved.id !== template.id),
+    template,
+  ].sort((a, b) => a.name.localeCompare(b.name)),
+});
+
+export const removeTemplate = (book: AddressBook, id: string): AddressBook => ({
+  ...book,
+  templates: book.templates.filter((saved) => saved.id !== id),
+});
@@ -0,0 +1,177 @@
+import { ZeroHash, keccak256, toUtf8Bytes, verifyMessage } from 'ethers';
+import { toCsv } from '@/lib/csv';
+import { AuditEntry } from '@/types/contracts';
+
+export const AUDIT_EXPORT_FORMAT = 'financial-platform-audit/v1';
+
+// An audit row linked to the row before it
+export interface ChainedAuditEntry extends AuditEntry {
+  previousHash: string;
+  hash: string;
+}
+
+export interface AuditExport {
+  format: typeof AUDIT_EXPORT_FORMAT;
+  chainId: number;
+  contract: string;
+  generatedAt: string;
+  rowCount: number;
+  headHash: string;
+  // Wallet signature over the head hash; absent for read-only exports
+  signer?: string;
+  signature?: string;
+  rows: ChainedAuditEntry[];
+}
+
+// Outcome of checking an export. Only 'verified' means an admin vouched for
+// the rows; an intact but unsigned chain proves nothing, since anyone can
+// recompute it after editing.
+export type AuditVerificationStatus =
+  'verified' | 'unsigned' | 'modified' | 'invalid-signature' | 'not-admin';
+
+export interface AuditVerification {
+  status: AuditVerificationStatus;
+  // Account the signature recovers to
+  signer?: string;
+}
+
+// Fields covered by a row's hash, in a fixed order
+const AUDIT_FIELDS = [
+  'id',
+  'action',
+  'actor',
+  'target',
+  'details',
+  'blockNumber',
+  'transactionHash',
+  'logIndex',
+  'timestamp',
+] as const;
+
+const hashRow = (previousHash: string, entry: AuditEntry): string =>
+  keccak256(
+    toUtf8Bytes(
+      previousHash +
+        JSON.stringify(AUDIT_FIELDS.map((field) => entry[field]))
+    )
+  );
+
+/**
+ * Links the rows into a hash chain: each row's hash covers its own fields
+ * and the previous row's hash, starting from the zero hash. Editing,
+ * removing or reordering any row changes every hash after it.
+ */
+export const chainAuditEntries = (
+  entries: AuditEntry[]
+): ChainedAuditEntry[] => {
+  let previousHash = ZeroHash;
+  return entries.map((entry) => {
+    const hash = hashRow(previousHash, entry);
+    const row = { ...entry, previousHash, hash };
+    previousHash = hash;
+    return row;
+  });
+};
+
+/**
+ * Returns the index of the first row whose hash doesn't match, or -1 when
+ * the whole chain is intact.
+ */
+export const verifyAuditChain = (rows: ChainedAuditEntry[]): number => {
+  let previousHash = ZeroHash;
+  for (let i = 0; i < rows.length; i++) {
+    const row = rows[i];
+    if (
+      row.previousHash !== previousHash ||
+      row.hash !== hashRow(previousHash, row)
+    ) {
+      return i;
+    }
+    previousHash = row.hash;
+  }
+  return -1;
+};
+
+// The message an admin signs to vouch for an export
+export const getAuditSigningMessage = (
+  chainId: number,
+  contract: string,
+  rowCount: number,
+  headHash: string
+): string =>
+  [
+    'Financial Platform audit export',
+    `Chain: ${chainId}`,
+    `Contract: ${contract}`,
+    `Rows: ${rowCount}`,
+    `Head hash: ${headHash}`,
+  ].join('\n');
+
+/**
+ * Checks the contents of an export: the hash chain, the head hash and that
+ * the signature recovers to the stated signer. Whether the signer is an
+ * admin is left to the caller, which needs the contract for it.
+ */
+export const verifyAuditExport = (
+  auditExport: AuditExport
+): AuditVerification => {
+  const { rows, headHash, signer, signature } = auditExport;
+  if (verifyAuditChain(rows) !== -1) return { status: 'modified' };
+  if (headHash !== (rows[rows.length - 1]?.hash ?? ZeroHash)) {
+    return { status: 'modified' };
+  }
+  if (!signature) return { status: 'unsigned' };
+
+  const message = getAuditSigningMessage(
+    auditExport.chainId,
+    auditExport.contract,
+    rows.length,
+    headHash
+  );
+  let recovered: string;
+  try {
+    recovered = verifyMessage(message, signature);
+  } catch {
+    return { status: 'invalid-signature' };
+  }
+  if (recovered.toLowerCase() !== signer?.toLowerCase()) {
+    return { status: 'invalid-signature', signer: recovered };
+  }
+  return { status: 'verified', signer: recovered };
+};
+
+export const auditExportToJson = (auditExport: AuditExport): string =>
+  JSON.stringify(auditExport, null, 2);
+
+// CSV rows keep the raw hashed fields so the chain can be recomputed
+export const auditRowsToCsv = (rows: ChainedAuditEntry[]): string =>
+  toCsv(
+    [
+      'Date (UTC)',
+      'Timestamp',
+      'Action',
+      'Actor',
+      'Target',
+      'Details',
+      'Block',
+      'Transaction Hash',
+      'Log Index',
+      'ID',
+      'Previous Hash',
+      'Hash',
+    ],
+    rows.map((row) => [
+      new Date(row.timestamp * 1000).toISOString(),
+      row.timestamp,
+      row.action,
+      row.actor,
+      row.target,
+      row.details,
+      row.blockNumber,
+      row.transactionHash,
+      row.logIndex,
+      row.id,
+      row.previousHash,
+      row.hash,
+    ])
+  );
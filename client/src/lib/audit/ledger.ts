@@ -0,0 +1,278 @@
+import { Contract, EventLog, JsonRpcApiProvider } from 'ethers';
+import { formatTokenAmount, getContract } from '@/lib/web3/provider';
+import { INDEXER_START_BLOCKS } from '@/constants/contracts';
+import { LOG_CHUNK_SIZE } from '@/lib/indexer/sync';
+import {
+  ApprovalStatus,
+  AuditEntry,
+  TransactionStatus,
+  UserRole,
+} from '@/types/contracts';
+
+// Every FinancialPlatform, TokenAllowlist and ApprovalDelegation event
+// recorded in the ledger
+export const AUDIT_ACTIONS = [
+  'UserRegistered',
+  'UserRoleUpdated',
+  'UserProfileUpdated',
+  'UserDeactivated',
+  'UserReactivated',
+  'TransactionCreated',
+  'TransactionStatusUpdated',
+  'TransactionSettled',
+  'ApprovalRequested',
+  'ApprovalSigned',
+  'ApprovalProcessingFailed',
+  'ApprovalProcessed',
+  'ApprovalPolicyUpdated',
+  'ApprovalPolicyRemoved',
+  'ApprovalDeadlineUpdated',
+  'ApprovalTiersUpdated',
+  'ApprovalDelegated',
+  'DelegationRevoked',
+  'RoleChangeRequested',
+  'SettlementTokenChangeRequested',
+  'SettlementTokenUpdated',
+  'SpendingLimitsUpdated',
+  'TokenAllowlistChanged',
+  'TokenAllowlistUpdated',
+  'ApprovalDelegationChanged',
+  'TransactionSchedulerChanged',
+] as const;
+
+type AuditDescription = Pick<AuditEntry, 'target' | 'details'>;
+
+/**
+ * The record an event affects and a one-line summary of what changed.
+ * Amounts are kept at full precision so exports can be reconciled.
+ */
+const describeLog = (log: EventLog): AuditDescription => {
+  const { args } = log;
+
+  switch (log.eventName) {
+    case 'UserRegistered':
+      return {
+        target: args.walletAddress,
+        details: `Registered user #${args.userId} "${args.name}"`,
+      };
+    case 'UserRoleUpdated':
+      return {
+        target: args.userAddress,
+        details: `Role set to ${UserRole[Number(args.newRole)]}`,
+      };
+    case 'UserProfileUpdated':
+      return {
+        target: args.userAddress,
+        details: `Profile changed from "${args.previousName}" <${args.previousEmail}> to "${args.name}" <${args.email}>`,
+      };
+    case 'UserDeactivated':
+      return { target: args.userAddress, details: 'User deactivated' };
+    case 'UserReactivated':
+      return { target: args.userAddress, details: 'User reactivated' };
+    case 'TransactionCreated':
+      return {
+        target: `Transaction #${args.transactionId}`,
+        details: `${formatTokenAmount(args.amount)} from ${args.from} to ${
+          args.to
+        }`,
+      };
+    case 'TransactionStatusUpdated':
+      return {
+        target: `Transaction #${args.transactionId}`,
+        details: `Status set to ${TransactionStatus[Number(args.status)]}`,
+      };
+    case 'TransactionSettled':
+      return {
+        target: `Transaction #${args.transactionId}`,
+        details: `Settled ${formatTokenAmount(args.amount)} of token ${
+          args.token
+        } from ${args.from} to ${args.to}`,
+      };
+    case 'ApprovalRequested':
+      return {
+        target: `Approval #${args.approvalId}`,
+        details:
+          args.transactionId.toString() !== '0'
+            ? `Requested for transaction #${args.transactionId}`
+            : 'Requested for a role or config change',
+      };
+    case 'ApprovalSigned':
+      return {
+        target: `Approval #${args.approvalId}`,
+        details: `${args.approved ? 'Approved' : 'Rejected'} by ${
+          args.approver
+        } (${args.approvalCount} approvals)`,
+      };
+    case 'ApprovalProcessingFailed':
+      return {
+        target: `Approval #${args.approvalId}`,
+        details: `Skipped in a batch by ${args.approver}: ${args.error}`,
+      };
+    case 'ApprovalProcessed':
+      return {
+        target: `Approval #${args.approvalId}`,
+        details: `${ApprovalStatus[Number(args.status)]} by ${args.approver}`,
+      };
+    case 'ApprovalPolicyUpdated':
+      return {
+        target: 'Approval policy',
+        details: `Amounts >= ${formatTokenAmount(args.minAmount)} require ${
+          args.requiredApprovals
+        } approvals or ${args.requiredAdminApprovals} admin approvals`,
+      };
+    case 'ApprovalPolicyRemoved':
+      return {
+        target: 'Approval policy',
+        details: `Removed tier for amounts >= ${formatTokenAmount(
+          args.minAmount
+        )}`,
+      };
+    case 'ApprovalDeadlineUpdated':
+      return {
+        target: 'Approval deadline',
+        details:
+          Number(args.duration) > 0
+            ? `Requests expire after ${args.duration} seconds`
+            : 'Requests no longer expire',
+      };
+    case 'ApprovalTiersUpdated':
+      return {
+        target: 'Approval tiers',
+        details: args.enabled
+          ? `Auto-approve below ${formatTokenAmount(
+              args.autoApproveBelow
+            )}, admin approval from ${formatTokenAmount(args.adminApprovalFrom)}`
+          : 'Approval routing turned off',
+      };
+    case 'ApprovalDelegated':
+      return {
+        target: args.delegator,
+        details: `Approvals delegated to ${args.delegate} from ${new Date(
+          Number(args.startsAt) * 1000
+        ).toISOString()} until ${new Date(
+          Number(args.endsAt) * 1000
+        ).toISOString()}`,
+      };
+    case 'DelegationRevoked':
+      return {
+        target: args.delegator,
+        details: `Delegation to ${args.delegate} ended`,
+      };
+    case 'RoleChangeRequested':
+      return {
+        target: args.userAddress,
+        details: `Approval #${args.approvalId} requests role ${
+          UserRole[Number(args.newRole)]
+        }`,
+      };
+    case 'SettlementTokenChangeRequested':
+      return {
+        target: 'Settlement token',
+        details: `Approval #${args.approvalId} requests token ${args.token}`,
+      };
+    case 'SettlementTokenUpdated':
+      return {
+        target: 'Settlement token',
+        details: `Settlement token set to ${args.token}`,
+      };
+    case 'SpendingLimitsUpdated':
+      return {
+        target: 'Spending limits',
+        details: `Spending limits contract set to ${args.spendingLimits}`,
+      };
+    case 'TokenAllowlistChanged':
+      return {
+        target: 'Token allowlist',
+        details: `Token allowlist contract set to ${args.tokenAllowlist}`,
+      };
+    case 'ApprovalDelegationChanged':
+      return {
+        target: 'Approval delegation',
+        details: `Approval delegation contract set to ${args.approvalDelegation}`,
+      };
+    case 'TransactionSchedulerChanged':
+      return {
+        target: 'Transaction scheduler',
+        details: `Transaction scheduler contract set to ${args.transactionScheduler}`,
+      };
+    case 'TokenAllowlistUpdated':
+      return {
+        target: args.token,
+        details: args.allowed
+          ? 'Token allowed for new transactions'
+          : 'Token removed from the allowlist',
+      };
+  }
+
+  return { target: '', details: '' };
+};
+
+/**
+ * Reconstructs every platform event into a normalized ledger, oldest first,
+ * including the token allowlist and delegation contracts where deployed.
+ * The actor is the account that sent the transaction, since not every
+ * event names who triggered it.
+ */
+export const buildAuditLedger = async (
+  chainId: number,
+  provider: JsonRpcApiProvider
+): Promise<AuditEntry[]> => {
+  const contracts: Contract[] = [
+    getContract('financialPlatform', chainId, provider),
+  ];
+  for (const name of ['tokenAllowlist', 'approvalDelegation'] as const) {
+    try {
+      contracts.push(getContract(name, chainId, provider));
+    } catch (error) {
+      console.error(`Skipping ${name} events in the audit log:`, error);
+    }
+  }
+  const startBlock = INDEXER_START_BLOCKS[chainId] ?? 0;
+  const latestBlock = await provider.getBlockNumber();
+
+  const logs: EventLog[] = [];
+  for (
+    let fromBlock = startBlock;
+    fromBlock <= latestBlock;
+    fromBlock += LOG_CHUNK_SIZE
+  ) {
+    const toBlock = Math.min(fromBlock + LOG_CHUNK_SIZE - 1, latestBlock);
+    for (const contract of contracts) {
+      const chunk = await contract.queryFilter('*', fromBlock, toBlock);
+      for (const log of chunk) {
+        if (log instanceof EventLog) logs.push(log);
+      }
+    }
+  }
+  // Interleave the contracts' logs in chain order
+  logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+  // Senders and block timestamps, fetched once per transaction / block
+  const senders = new Map<string, string>();
+  const timestamps = new Map<number, number>();
+  await Promise.all([
+    ...[...new Set(logs.map((log) => log.transactionHash))].map(
+      async (hash) => {
+        const tx = await provider.getTransaction(hash);
+        senders.set(hash, tx?.from ?? '');
+      }
+    ),
+    ...[...new Set(logs.map((log) => log.blockNumber))].map(
+      async (blockNumber) => {
+        const block = await provider.getBlock(blockNumber);
+        timestamps.set(blockNumber, block?.timestamp ?? 0);
+      }
+    ),
+  ]);
+
+  return logs.map((log) => ({
+    id: `${log.transactionHash}:${log.index}`,
+    action: log.eventName,
+    actor: senders.get(log.transactionHash) ?? '',
+    ...describeLog(log),
+    blockNumber: log.blockNumber,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    timestamp: timestamps.get(log.blockNumber) ?? 0,
+  }));
+};
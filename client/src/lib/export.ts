@@ -0,0 +1,47 @@
+// Helpers for building and downloading file exports in the browser
+import { CsvValue, toCsv } from './csv';
+import { XLSX_MIME_TYPE, toXlsx } from './xlsx';
+
+export type ExportValue = CsvValue;
+export type ExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Prompts the browser to save `content` as a file.
+ */
+export const downloadFile = (
+  filename: string,
+  content: BlobPart,
+  mimeType: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Downloads a table as CSV or as a single-sheet Excel workbook.
+ * `filename` is given without an extension.
+ */
+export const exportTable = (
+  filename: string,
+  headers: string[],
+  rows: ExportValue[][],
+  format: ExportFormat
+): void => {
+  if (format === 'csv') {
+    downloadFile(
+      `${filename}.csv`,
+      toCsv(headers, rows),
+      'text/csv;charset=utf-8'
+    );
+  } else {
+    downloadFile(
+      `${filename}.xlsx`,
+      toXlsx(headers, rows, filename),
+      XLSX_MIME_TYPE
+    );
+  }
+};
@@ -0,0 +1,249 @@
+// Client-side filtering and sorting for the transaction and approval tables
+import { ethers } from 'ethers';
+import {
+  Approval,
+  ApprovalType,
+  TokenInfo,
+  Transaction,
+  TransactionStatus,
+  User,
+} from '@/types/contracts';
+import {
+  ApprovalFilterFormData,
+  TransactionFilterFormData,
+} from '@/lib/schemas/forms';
+
+// Filter fields shared by both tables
+export type BaseFilters = Omit<TransactionFilterFormData, 'status' | 'sortBy'>;
+
+// Start or end of a yyyy-mm-dd date input in local time, as unix seconds
+export const toUnixSeconds = (date: string, endOfDay = false): number =>
+  new Date(`${date}T${endOfDay ? '23:59:59' : '00:00:00'}`).getTime() / 1000;
+
+interface FilterableRecord {
+  timestamp: bigint;
+  // Scaled to 18 decimals (see toComparableAmount); undefined for records
+  // without an amount (role and config approvals)
+  amount?: bigint;
+  accounts: string[];
+  text: string[];
+}
+
+/**
+ * Checks a record against the shared filters. Search and counterparty match
+ * full addresses or registered user names, case-insensitively.
+ */
+const matchesBaseFilters = (
+  record: FilterableRecord,
+  filters: BaseFilters,
+  userNames: Map<string, string>
+): boolean => {
+  const matchesAccount = (account: string, query: string) =>
+    account.toLowerCase().includes(query) ||
+    !!userNames.get(account.toLowerCase())?.toLowerCase().includes(query);
+
+  const search = filters.search?.trim().toLowerCase();
+  if (
+    search &&
+    !record.accounts.some((account) => matchesAccount(account, search)) &&
+    !record.text.some((text) => text.toLowerCase().includes(search))
+  ) {
+    return false;
+  }
+
+  const counterparty = filters.counterparty?.trim().toLowerCase();
+  if (
+    counterparty &&
+    !record.accounts.some((account) => matchesAccount(account, counterparty))
+  ) {
+    return false;
+  }
+
+  const timestamp = Number(record.timestamp);
+  if (filters.dateFrom && timestamp < toUnixSeconds(filters.dateFrom)) {
+    return false;
+  }
+  if (filters.dateTo && timestamp > toUnixSeconds(filters.dateTo, true)) {
+    return false;
+  }
+
+  if (filters.minAmount || filters.maxAmount) {
+    if (record.amount === undefined) return false;
+    if (
+      filters.minAmount &&
+      record.amount < ethers.parseEther(filters.minAmount)
+    ) {
+      return false;
+    }
+    if (
+      filters.maxAmount &&
+      record.amount > ethers.parseEther(filters.maxAmount)
+    ) {
+      return false;
+    }
+  }
+
+  return true;
+};
+
+/**
+ * A transaction's amount scaled from its token's decimals to 18, so amounts
+ * in different tokens sort and match the amount filters by the value shown.
+ * Tokens are looked up in `tokens` (from useTokens); unknown tokens are
+ * taken to have 18 decimals.
+ */
+const toComparableAmount = (
+  transaction: Transaction,
+  tokens: TokenInfo[]
+): bigint => {
+  const token = tokens.find((info) =>
+    transaction.token === ethers.ZeroAddress
+      ? info.isSettlementToken
+      : info.address.toLowerCase() === transaction.token.toLowerCase()
+  );
+  const decimals = token?.decimals ?? 18;
+
+  return decimals <= 18
+    ? transaction.amount * BigInt(10) ** BigInt(18 - decimals)
+    : transaction.amount / BigInt(10) ** BigInt(decimals - 18);
+};
+
+// Registered user names keyed by lowercase address
+const getUserNames = (users: User[]) =>
+  new Map(users.map((user) => [user.walletAddress.toLowerCase(), user.name]));
+
+const compareBigInt = (a: bigint, b: bigint) => (a < b ? -1 : a > b ? 1 : 0);
+
+// Sorts a copy of `items`; without a key the original order is kept
+const sortBy = <T>(
+  items: T[],
+  compare: ((a: T, b: T) => number) | undefined,
+  direction: 'asc' | 'desc' = 'desc'
+): T[] =>
+  compare
+    ? [...items].sort((a, b) =>
+        direction === 'asc' ? compare(a, b) : compare(b, a)
+      )
+    : items;
+
+/**
+ * Applies the transaction filter bar to a list of transactions. Amounts are
+ * compared in their tokens' units, using the decimals in `tokens`.
+ */
+export const filterTransactions = (
+  transactions: Transaction[],
+  filters: TransactionFilterFormData,
+  users: User[],
+  tokens: TokenInfo[]
+): Transaction[] => {
+  const userNames = getUserNames(users);
+  const amounts = new Map(
+    transactions.map((tx) => [tx, toComparableAmount(tx, tokens)])
+  );
+  const filtered = transactions.filter(
+    (tx) =>
+      (!filters.status?.length ||
+        filters.status.some(
+          (status) =>
+            TransactionStatus[Number(tx.status)].toLowerCase() === status
+        )) &&
+      matchesBaseFilters(
+        {
+          timestamp: tx.timestamp,
+          amount: amounts.get(tx),
+          accounts: [tx.from, tx.to],
+          text: [tx.description],
+        },
+        filters,
+        userNames
+      )
+  );
+
+  const comparators: Record<
+    NonNullable<TransactionFilterFormData['sortBy']>,
+    (a: Transaction, b: Transaction) => number
+  > = {
+    date: (a, b) => compareBigInt(a.timestamp, b.timestamp),
+    amount: (a, b) =>
+      compareBigInt(amounts.get(a) ?? BigInt(0), amounts.get(b) ?? BigInt(0)),
+    status: (a, b) => Number(a.status) - Number(b.status),
+    description: (a, b) => a.description.localeCompare(b.description),
+  };
+
+  return sortBy(
+    filtered,
+    filters.sortBy && comparators[filters.sortBy],
+    filters.sortDir
+  );
+};
+
+/**
+ * Applies the approval filter bar to a list of approvals. Amount filters
+ * only match transaction approvals, which are looked up in `transactions`
+ * and compared in their tokens' units, using the decimals in `tokens`.
+ */
+export const filterApprovals = (
+  approvals: Approval[],
+  transactions: Transaction[],
+  filters: ApprovalFilterFormData,
+  users: User[],
+  tokens: TokenInfo[]
+): Approval[] => {
+  const userNames = getUserNames(users);
+  const transactionsById = new Map(
+    transactions.map((tx) => [tx.id.toString(), tx])
+  );
+  const getTransaction = (approval: Approval) =>
+    transactionsById.get(approval.transactionId.toString());
+  const getAmount = (approval: Approval) => {
+    const tx = getTransaction(approval);
+    return tx && toComparableAmount(tx, tokens);
+  };
+
+  const filtered = approvals.filter((approval) => {
+    const tx = getTransaction(approval);
+    return (
+      (!filters.type?.length ||
+        filters.type.some(
+          (type) =>
+            ApprovalType[Number(approval.approvalType)].toLowerCase() === type
+        )) &&
+      matchesBaseFilters(
+        {
+          timestamp: approval.timestamp,
+          amount: getAmount(approval),
+          accounts: [
+            approval.requester,
+            ...(tx ? [tx.from, tx.to] : []),
+            ...(approval.roleChange ? [approval.roleChange.userAddress] : []),
+          ],
+          text: [approval.reason, tx?.description ?? ''],
+        },
+        filters,
+        userNames
+      )
+    );
+  });
+
+  const comparators: Record<
+    NonNullable<ApprovalFilterFormData['sortBy']>,
+    (a: Approval, b: Approval) => number
+  > = {
+    date: (a, b) => compareBigInt(a.timestamp, b.timestamp),
+    amount: (a, b) =>
+      compareBigInt(getAmount(a) ?? BigInt(0), getAmount(b) ?? BigInt(0)),
+    id: (a, b) => compareBigInt(a.id, b.id),
+    // Requests without a deadline sort as the latest to expire
+    expires: (a, b) =>
+      compareBigInt(
+        a.expiresAt > 0 ? a.expiresAt : BigInt(Number.MAX_SAFE_INTEGER),
+        b.expiresAt > 0 ? b.expiresAt : BigInt(Number.MAX_SAFE_INTEGER)
+      ),
+  };
+
+  return sortBy(
+    filtered,
+    filters.sortBy && comparators[filters.sortBy],
+    filters.sortDir
+  );
+};
@@ -0,0 +1,116 @@
+// React Query hooks for the locally stored address book and transaction templates
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useWallet } from './useWallet';
+import { QUERY_KEYS, useAllUsers } from './useContract';
+import { formatError } from '@/lib/web3/provider';
+import {
+  AddressBook,
+  getAddressBookScope,
+  loadAddressBook,
+  removeContact,
+  removeTemplate,
+  saveAddressBook,
+  upsertContact,
+  upsertTemplate,
+} from '@/lib/addressBook/store';
+import { SavedContact, TransactionTemplate } from '@/types/contracts';
+
+// A recipient suggestion: a registered user or a saved external contact
+export interface AddressBookEntry {
+  address: string;
+  name: string;
+  email?: string;
+  isRegistered: boolean;
+}
+
+/**
+ * Fetches the connected account's saved contacts and templates. They are
+ * stored in the browser per account and network, not on-chain.
+ */
+export const useAddressBook = () => {
+  const { chainId, address } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.ADDRESS_BOOK, address, chainId],
+    queryFn: (): AddressBook =>
+      loadAddressBook(getAddressBookScope(chainId!, address!)),
+    enabled: !!chainId && !!address,
+  });
+};
+
+/**
+ * Registered users followed by saved contacts, for recipient lookup.
+ * A contact whose address has since registered shows as the user.
+ */
+export const useAddressBookEntries = () => {
+  const { data: users = [] } = useAllUsers();
+  const { data: book } = useAddressBook();
+
+  const registered = new Set(
+    users.map((user) => user.walletAddress.toLowerCase())
+  );
+  const entries: AddressBookEntry[] = [
+    ...users
+      .filter((user) => user.isActive)
+      .map((user) => ({
+        address: user.walletAddress,
+        name: user.name,
+        email: user.email,
+        isRegistered: true,
+      })),
+    ...(book?.contacts ?? [])
+      .filter((contact) => !registered.has(contact.address.toLowerCase()))
+      .map((contact) => ({ ...contact, isRegistered: false })),
+  ];
+  return entries;
+};
+
+// Applies a change to the stored address book; local-only, so the cache is
+// updated directly instead of refetching
+const useUpdateAddressBook = <T>(
+  update: (book: AddressBook, value: T) => AddressBook,
+  successMessage: string
+) => {
+  const { chainId, address } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (value: T) => {
+      if (!chainId || !address) throw new Error('Wallet not connected');
+
+      const scope = getAddressBookScope(chainId, address);
+      const book = update(loadAddressBook(scope), value);
+      saveAddressBook(scope, book);
+      return book;
+    },
+    onSuccess: (book) => {
+      queryClient.setQueryData(
+        [QUERY_KEYS.ADDRESS_BOOK, address, chainId],
+        book
+      );
+      toast.success(successMessage);
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Saves an external address under a name, or renames it.
+ */
+export const useSaveContact = () =>
+  useUpdateAddressBook<SavedContact>(upsertContact, 'Contact saved');
+
+export const useRemoveContact = () =>
+  useUpdateAddressBook<string>(removeContact, 'Contact removed');
+
+/**
+ * Saves a transaction template, replacing one with the same ID.
+ */
+export const useSaveTemplate = () =>
+  useUpdateAddressBook<TransactionTemplate>(upsertTemplate, 'Template saved');
+
+export const useRemoveTemplate = () =>
+  useUpdateAddressBook<string>(removeTemplate, 'Template removed');
@@ -0,0 +1,36 @@
+import { useWallet } from './useWallet';
+import { useActiveDelegator, useUser } from './useContract';
+import { UserRole } from '@/types/contracts';
+
+/**
+ * Whether the connected account can sign approvals, through its own role or
+ * while covering for an approver through a delegation. Mirrors the contract:
+ * an account's own role takes precedence over a delegation it holds, and
+ * deactivated accounts lose both.
+ */
+export const useApprovalAuthority = () => {
+  const { address } = useWallet();
+  const { data: user, isLoading } = useUser(address || '');
+  const { data: activeDelegator } = useActiveDelegator(address);
+  const { data: delegatorUser } = useUser(activeDelegator || '');
+
+  const isActive = !!user?.isActive;
+  const hasOwnRole =
+    isActive &&
+    (user?.role === UserRole.Manager || user?.role === UserRole.Admin);
+  const delegator =
+    hasOwnRole || !isActive ? null : (activeDelegator ?? null);
+
+  return {
+    isLoading,
+    canApprove: hasOwnRole || !!delegator,
+    isAdmin: delegator
+      ? delegatorUser?.role === UserRole.Admin
+      : hasOwnRole && user?.role === UserRole.Admin,
+    // Approver the account is covering for, if it signs through a delegation
+    delegator,
+    delegatorUser: delegator ? delegatorUser : undefined,
+    // Account the contract records signatures under
+    signer: delegator ?? address ?? '',
+  };
+};
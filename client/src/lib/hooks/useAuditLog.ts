@@ -0,0 +1,185 @@
+// React Query hooks for the admin audit log
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { ZeroHash } from 'ethers';
+import { toast } from 'sonner';
+import { useWallet } from './useWallet';
+import { QUERY_KEYS } from './useContract';
+import { buildAuditLedger } from '@/lib/audit/ledger';
+import {
+  AUDIT_EXPORT_FORMAT,
+  AuditExport,
+  AuditVerification,
+  auditExportToJson,
+  auditRowsToCsv,
+  chainAuditEntries,
+  getAuditSigningMessage,
+  verifyAuditExport,
+} from '@/lib/audit/export';
+import { downloadFile } from '@/lib/export';
+import { formatAddress, formatError, getContract } from '@/lib/web3/provider';
+import { CONTRACT_ADDRESSES } from '@/constants/contracts';
+import { AuditEntry, UserRole } from '@/types/contracts';
+
+/**
+ * Fetches the full audit ledger for the current deployment, oldest first.
+ */
+export const useAuditLog = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.AUDIT_LOG, chainId],
+    queryFn: async (): Promise<AuditEntry[]> => {
+      if (!provider || !chainId) return [];
+
+      try {
+        return await buildAuditLedger(chainId, provider);
+      } catch (error) {
+        console.error('Error building audit log:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+interface ExportAuditLogParams {
+  entries: AuditEntry[];
+  format: 'csv' | 'json';
+}
+
+/**
+ * Downloads the given audit entries as CSV or JSON, hash-chained in the
+ * order given. JSON exports are also signed by the connected wallet, unless
+ * the session is read-only; CSV exports are never signed. Resolves to the
+ * head hash of the chain and whether the file was signed.
+ */
+export const useExportAuditLog = () => {
+  const { chainId, address, signer } = useWallet();
+
+  return useMutation({
+    mutationFn: async ({ entries, format }: ExportAuditLogParams) => {
+      if (!chainId) throw new Error('Wallet not connected');
+      const contract = CONTRACT_ADDRESSES[chainId]?.financialPlatform;
+      if (!contract) {
+        throw new Error(`Contract addresses not found for chain ID: ${chainId}`);
+      }
+
+      const rows = chainAuditEntries(entries);
+      const headHash = rows[rows.length - 1]?.hash ?? ZeroHash;
+      const filename = `audit-log-${chainId}-${Date.now()}`;
+
+      if (format === 'csv') {
+        downloadFile(
+          `${filename}.csv`,
+          auditRowsToCsv(rows),
+          'text/csv;charset=utf-8'
+        );
+        return { headHash, signed: false };
+      }
+
+      const auditExport: AuditExport = {
+        format: AUDIT_EXPORT_FORMAT,
+        chainId,
+        contract,
+        generatedAt: new Date().toISOString(),
+        rowCount: rows.length,
+        headHash,
+        rows,
+      };
+      if (signer && address) {
+        auditExport.signer = address;
+        auditExport.signature = await signer.signMessage(
+          getAuditSigningMessage(chainId, contract, rows.length, headHash)
+        );
+      }
+
+      downloadFile(
+        `${filename}.json`,
+        auditExportToJson(auditExport),
+        'application/json'
+      );
+      return { headHash, signed: !!auditExport.signature };
+    },
+    onSuccess: ({ headHash, signed }) => {
+      const summary = `head hash ${formatAddress(headHash)}`;
+      if (signed) {
+        toast.success(`Audit log exported (${summary})`);
+      } else {
+        toast.warning(
+          `Audit log exported unsigned (${summary}). Export JSON from a connected wallet for a verifiable copy.`
+        );
+      }
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Checks a previously exported JSON audit file for tampering: the hash
+ * chain, the head hash, the exporter's signature and that the signer is a
+ * platform admin. Exports must be checked against the deployment they
+ * came from.
+ */
+export const useVerifyAuditExport = () => {
+  const { provider, chainId } = useWallet();
+
+  return useMutation({
+    mutationFn: async (file: File): Promise<AuditVerification> => {
+      const auditExport = JSON.parse(await file.text()) as AuditExport;
+      if (auditExport.format !== AUDIT_EXPORT_FORMAT) {
+        throw new Error('Not a Financial Platform audit export');
+      }
+
+      const result = verifyAuditExport(auditExport);
+      if (result.status !== 'verified' || !result.signer) return result;
+
+      if (!provider || !chainId) throw new Error('Wallet not connected');
+      const contract = CONTRACT_ADDRESSES[chainId]?.financialPlatform;
+      if (
+        auditExport.chainId !== chainId ||
+        auditExport.contract.toLowerCase() !== contract?.toLowerCase()
+      ) {
+        throw new Error(
+          'This export is from another deployment; connect to it to verify'
+        );
+      }
+      const platform = getContract('financialPlatform', chainId, provider);
+      const signerUser = await platform.getUser(result.signer);
+      return Number(signerUser.role) === UserRole.Admin
+        ? result
+        : { ...result, status: 'not-admin' };
+    },
+    onSuccess: ({ status, signer }) => {
+      const signedBy = signer ? ` (signed by ${formatAddress(signer)})` : '';
+      switch (status) {
+        case 'verified':
+          toast.success(
+            `Audit export verified: no tampering detected${signedBy}`
+          );
+          break;
+        case 'unsigned':
+          toast.warning(
+            'Audit export is unsigned: its rows are consistent, but nothing proves who produced them'
+          );
+          break;
+        case 'not-admin':
+          toast.error(
+            `Audit export failed verification: the signer is not an admin${signedBy}`
+          );
+          break;
+        case 'invalid-signature':
+          toast.error(
+            'Audit export failed verification: the signature does not match'
+          );
+          break;
+        default:
+          toast.error('Audit export failed verification: it has been modified');
+      }
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
@@ -1,17 +1,53 @@
 // React Query hooks and custom hooks for interacting with the FinancialPlatform smart contract
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { ethers } from 'ethers';
+import {
+  keepPreviousData,
+  useQuery,
+  useMutation,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { ethers, Contract } from 'ethers';
 import { useWallet } from './useWallet';
 import {
   getContract,
+  getTokenContract,
   formatError,
   waitForTransaction,
 } from '@/lib/web3/provider';
 import { FINANCIAL_PLATFORM_ABI } from '@/constants/abis';
-import { GAS_LIMITS } from '@/constants/contracts';
-import { User, Transaction, Approval, UserRole } from '@/types/contracts';
+import {
+  APPROVAL_BATCH_SIZE,
+  BULK_SUBMIT_BATCH_SIZE,
+  CONTRACT_ADDRESSES,
+  GAS_LIMITS,
+} from '@/constants/contracts';
+import { syncIndex, toTransaction } from '@/lib/indexer/sync';
+import {
+  User,
+  Transaction,
+  Approval,
+  ApprovalPolicy,
+  ApprovalSignature,
+  ApprovalTiers,
+  ApprovalType,
+  Delegation,
+  Page,
+  ProfileChange,
+  Schedule,
+  SpendingLimit,
+  UserSpendingLimit,
+  RemainingLimit,
+  UserRole,
+  TransactionSettlement,
+  TransactionTimelineEvent,
+  TokenBalance,
+  TokenInfo,
+} from '@/types/contracts';
 import { toast } from 'sonner';
 
+// Default page size for paginated contract reads (contract caps it at 100)
+export const DEFAULT_PAGE_SIZE = 10;
+const MAX_PAGE_SIZE = 100;
+
 // Query keys for caching and invalidating queries
 export const QUERY_KEYS = {
   USER: 'user',
@@ -22,8 +58,25 @@ export const QUERY_KEYS = {
   APPROVAL: 'approval',
   APPROVALS: 'approvals',
   PENDING_APPROVALS: 'pendingApprovals',
+  APPROVAL_POLICIES: 'approvalPolicies',
+  APPROVAL_DEADLINE: 'approvalDeadline',
+  APPROVAL_TIERS: 'approvalTiers',
+  DELEGATIONS: 'delegations',
+  ACTIVE_DELEGATOR: 'activeDelegator',
+  SCHEDULES: 'schedules',
+  ADDRESS_BOOK: 'addressBook',
+  SPENDING_LIMITS: 'spendingLimits',
+  REMAINING_LIMIT: 'remainingLimit',
+  PROFILE_HISTORY: 'profileHistory',
+  NOTIFICATIONS: 'notifications',
   DASHBOARD_METRICS: 'dashboardMetrics',
   TOKEN_BALANCE: 'tokenBalance',
+  TOKEN_ALLOWANCE: 'tokenAllowance',
+  TOKEN_INFO: 'tokenInfo',
+  TOKENS: 'tokens',
+  SETTLEMENT: 'settlement',
+  TRANSACTION_TIMELINE: 'transactionTimeline',
+  AUDIT_LOG: 'auditLog',
 } as const;
 
 // =====================
@@ -161,39 +214,199 @@ export const useUpdateUserRole = () => {
 };
 
 /**
- * Fetches all registered users from the smart contract (admin only).
+ * Deactivates a user (admin only), revoking their roles and blocking
+ * them from creating transactions.
+ */
+export const useDeactivateUser = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (walletAddress: string) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      // Call deactivateUser on the contract
+      const tx = await contract.deactivateUser(walletAddress, {
+        gasLimit: GAS_LIMITS.SET_USER_ACTIVE,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      toast.success('User deactivated successfully');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Reactivates a previously deactivated user (admin only),
+ * restoring the roles for their current role.
+ */
+export const useReactivateUser = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (walletAddress: string) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      // Call reactivateUser on the contract
+      const tx = await contract.reactivateUser(walletAddress, {
+        gasLimit: GAS_LIMITS.SET_USER_ACTIVE,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      toast.success('User reactivated successfully');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Updates the connected user's display name.
+ */
+export const useUpdateName = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      // Call updateName on the contract
+      const tx = await contract.updateName(name, {
+        gasLimit: GAS_LIMITS.UPDATE_PROFILE,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.PROFILE_HISTORY] });
+      toast.success('Name updated successfully');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Updates a user's email address (admin only).
+ */
+export const useUpdateUserEmail = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      walletAddress,
+      email,
+    }: {
+      walletAddress: string;
+      email: string;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      // Call updateUserEmail on the contract
+      const tx = await contract.updateUserEmail(walletAddress, email, {
+        gasLimit: GAS_LIMITS.UPDATE_PROFILE,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.PROFILE_HISTORY] });
+      toast.success('Email updated successfully');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Reconstructs a user's profile history from UserProfileUpdated events,
+ * most recent change first.
+ */
+export const useProfileHistory = (userAddress?: string) => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.PROFILE_HISTORY, userAddress, chainId],
+    queryFn: async (): Promise<ProfileChange[]> => {
+      if (!provider || !chainId || !userAddress) return [];
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const logs = await contract.queryFilter(
+          contract.filters.UserProfileUpdated(userAddress)
+        );
+
+        const changes = await Promise.all(
+          logs.filter((log) => 'args' in log).map(async (log) => {
+            const block = await log.getBlock();
+            const args = (log as ethers.EventLog).args;
+            return {
+              userAddress: args.userAddress,
+              updatedBy: args.updatedBy,
+              previousName: args.previousName,
+              previousEmail: args.previousEmail,
+              name: args.name,
+              email: args.email,
+              blockNumber: log.blockNumber,
+              transactionHash: log.transactionHash,
+              timestamp: block.timestamp,
+            };
+          })
+        );
+
+        return changes.reverse();
+      } catch (error) {
+        console.error('Error fetching profile history:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId && !!userAddress,
+  });
+};
+
+/**
+ * Fetches all registered users from the local event index.
+ * Returns users in registration order.
  */
 export const useAllUsers = () => {
   const { provider, chainId } = useWallet();
 
   return useQuery({
-    queryKey: ['allUsers', chainId],
-    queryFn: async () => {
+    queryKey: [QUERY_KEYS.USERS, 'all', chainId],
+    queryFn: async (): Promise<User[]> => {
       if (!provider || !chainId) return [];
 
-      const contract = getContract('financialPlatform', chainId, provider);
-      const addresses: string[] = await contract.getAllRegisteredUsers();
-
-      // Fetch user details for each address, skipping any that fail
-      const users = [];
-      for (const addr of addresses) {
-        try {
-          const userData = await contract.getUser(addr);
-          users.push({
-            id: userData.id,
-            walletAddress: userData.walletAddress,
-            name: userData.name,
-            email: userData.email,
-            role: Number(userData.role),
-            isActive: userData.isActive,
-            createdAt: userData.createdAt,
-          });
-        } catch (e) {
-          // Skip this address if fetching user fails
-          console.warn('Skipping user address due to error:', addr, e);
-        }
+      try {
+        const index = await syncIndex(chainId, provider);
+        // Copy records so cached query data isn't mutated by later syncs
+        return [...index.users.values()]
+          .map((user) => ({ ...user }))
+          .sort((a, b) => Number(a.id - b.id));
+      } catch (error) {
+        console.error('Error fetching all users:', error);
+        return [];
       }
-      return users;
     },
     enabled: !!provider && !!chainId,
   });
@@ -228,6 +441,7 @@ export const useTransaction = (transactionId: number) => {
           status: txData.status,
           timestamp: txData.timestamp,
           approvalId: txData.approvalId,
+          token: txData.token,
         };
       } catch (error) {
         console.error('Error fetching transaction:', error);
@@ -239,7 +453,7 @@ export const useTransaction = (transactionId: number) => {
 };
 
 /**
- * Fetches all transactions for a given user address from the smart contract.
+ * Fetches all transactions for a given user address from the local event index.
  * Returns an array of Transaction objects.
  */
 export const useUserTransactions = (userAddress?: string) => {
@@ -252,27 +466,14 @@ export const useUserTransactions = (userAddress?: string) => {
       if (!provider || !chainId || !targetAddress) return [];
 
       try {
-        const contract = getContract('financialPlatform', chainId, provider);
-        const transactionIds = await contract.getUserTransactions(
-          targetAddress
-        );
-
-        // Fetch each transaction by ID
-        const transactions = await Promise.all(
-          transactionIds.map(async (id: bigint) => {
-            const txData = await contract.getTransaction(id);
-            return {
-              id: txData.id,
-              from: txData.from,
-              to: txData.to,
-              amount: txData.amount,
-              description: txData.description,
-              status: txData.status,
-              timestamp: txData.timestamp,
-              approvalId: txData.approvalId,
-            };
-          })
-        );
+        const index = await syncIndex(chainId, provider);
+        const target = targetAddress.toLowerCase();
+        const transactions = [...index.transactions.values()]
+          .filter(
+            (tx) =>
+              tx.from.toLowerCase() === target || tx.to.toLowerCase() === target
+          )
+          .map((tx) => ({ ...tx }));
 
         // Sort transactions by timestamp (most recent first)
         return transactions.sort((a, b) => Number(b.timestamp - a.timestamp));
@@ -286,7 +487,7 @@ export const useUserTransactions = (userAddress?: string) => {
 };
 
 /**
- * Fetches all transactions in the system (admin only).
+ * Fetches all transactions in the system from the local event index.
  * Returns an array of Transaction objects.
  */
 export const useAllTransactions = () => {
@@ -298,25 +499,10 @@ export const useAllTransactions = () => {
       if (!provider || !chainId) return [];
 
       try {
-        const contract = getContract('financialPlatform', chainId, provider);
-        const transactionIds = await contract.getAllTransactions();
-
-        // Fetch each transaction by ID
-        const transactions = await Promise.all(
-          transactionIds.map(async (id: bigint) => {
-            const txData = await contract.getTransaction(id);
-            return {
-              id: txData.id,
-              from: txData.from,
-              to: txData.to,
-              amount: txData.amount,
-              description: txData.description,
-              status: txData.status,
-              timestamp: txData.timestamp,
-              approvalId: txData.approvalId,
-            };
-          })
-        );
+        const index = await syncIndex(chainId, provider);
+        const transactions = [...index.transactions.values()].map((tx) => ({
+          ...tx,
+        }));
 
         // Sort transactions by timestamp (most recent first)
         return transactions.sort((a, b) => Number(b.timestamp - a.timestamp));
@@ -329,6 +515,62 @@ export const useAllTransactions = () => {
   });
 };
 
+// Resolves a page of transaction IDs into full transactions
+const fetchTransactionPage = async (
+  contract: Contract,
+  ids: bigint[],
+  total: bigint
+): Promise<Page<Transaction>> => {
+  const items = await Promise.all(
+    ids.map(async (id) => toTransaction(await contract.getTransaction(id)))
+  );
+  return { items, total: Number(total) };
+};
+
+/**
+ * Fetches one page of a user's transactions directly from the smart
+ * contract, most recent first.
+ */
+export const usePaginatedUserTransactions = (
+  userAddress?: string,
+  page = 0,
+  pageSize = DEFAULT_PAGE_SIZE
+) => {
+  const { provider, chainId, address } = useWallet();
+  const targetAddress = userAddress || address;
+
+  return useQuery({
+    queryKey: [
+      QUERY_KEYS.USER_TRANSACTIONS,
+      targetAddress,
+      'page',
+      page,
+      pageSize,
+      chainId,
+    ],
+    queryFn: async (): Promise<Page<Transaction>> => {
+      if (!provider || !chainId || !targetAddress) {
+        return { items: [], total: 0 };
+      }
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const [ids, total] = await contract.getUserTransactionsPaginated(
+          targetAddress,
+          page * pageSize,
+          pageSize
+        );
+        return fetchTransactionPage(contract, ids, total);
+      } catch (error) {
+        console.error('Error fetching user transactions page:', error);
+        return { items: [], total: 0 };
+      }
+    },
+    enabled: !!provider && !!chainId && !!targetAddress,
+    placeholderData: keepPreviousData,
+  });
+};
+
 /**
  * Creates a new transaction on the smart contract.
  * Invalidates transaction and dashboard queries on success.
@@ -342,17 +584,27 @@ export const useCreateTransaction = () => {
       to,
       amount,
       description,
+      token,
     }: {
       to: string;
       amount: bigint;
       description: string;
+      // Defaults to the settlement token
+      token?: string;
     }): Promise<number> => {
       if (!signer || !chainId) throw new Error('Wallet not connected');
 
       const contract = getContract('financialPlatform', chainId, signer);
-      const tx = await contract.createTransaction(to, amount, description, {
-        gasLimit: GAS_LIMITS.CREATE_TRANSACTION,
-      });
+      const options = { gasLimit: GAS_LIMITS.CREATE_TRANSACTION };
+      const tx = token
+        ? await contract.createTokenTransaction(
+            to,
+            token,
+            amount,
+            description,
+            options
+          )
+        : await contract.createTransaction(to, amount, description, options);
 
       // Wait for the transaction to be mined and get the receipt
       const receipt = await waitForTransaction(tx.hash, signer.provider);
@@ -361,30 +613,172 @@ export const useCreateTransaction = () => {
         throw new Error('Transaction failed to be mined');
       }
 
-      // Parse the receipt logs to find the TransactionCreated event
-      const iface = new ethers.Interface(FINANCIAL_PLATFORM_ABI);
-      let transactionId: number | null = null;
+      return getCreatedTransactionId(receipt);
+    },
+    onSuccess: () => {
+      // Invalidate queries to refresh transaction lists and dashboard
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.USER_TRANSACTIONS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
+      toast.success('Transaction created successfully');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+// Outcome of one item in a bulk submission
+export type BulkResult<T> = { value: T } | { error: string };
+
+/**
+ * Sends one contract call per item and waits for the receipts. In batched
+ * mode up to BULK_SUBMIT_BATCH_SIZE calls are sent before waiting, so the
+ * wallet queues them with consecutive nonces. Each item's outcome is
+ * reported as soon as it's known; processing stops after the first batch
+ * with a failure so the caller can resume from the failed items.
+ */
+const submitInBatches = async <T>(
+  items: T[],
+  batched: boolean,
+  provider: ethers.Provider,
+  send: (item: T) => Promise<ethers.ContractTransactionResponse>,
+  onSettled: (
+    item: T,
+    result: BulkResult<ethers.TransactionReceipt>
+  ) => void
+): Promise<void> => {
+  const batchSize = batched ? BULK_SUBMIT_BATCH_SIZE : 1;
+
+  for (let start = 0; start < items.length; start += batchSize) {
+    const batch = items.slice(start, start + batchSize);
+    const sent: { item: T; tx: ethers.ContractTransactionResponse }[] = [];
+    let failed = false;
+
+    for (const item of batch) {
+      try {
+        sent.push({ item, tx: await send(item) });
+      } catch (error) {
+        // e.g. rejected in the wallet; don't send the rest of the batch
+        onSettled(item, { error: formatError(error) });
+        failed = true;
+        break;
+      }
+    }
 
-      for (const log of receipt.logs) {
+    await Promise.all(
+      sent.map(async ({ item, tx }) => {
         try {
-          const parsedLog = iface.parseLog(log);
-          if (parsedLog && parsedLog.name === 'TransactionCreated') {
-            transactionId = Number(parsedLog.args.transactionId);
-            break;
+          const receipt = await provider.waitForTransaction(tx.hash);
+          if (!receipt || receipt.status === 0) {
+            throw new Error('Transaction reverted');
           }
+          onSettled(item, { value: receipt });
         } catch (error) {
-          // Ignore logs that are not from our contract
+          onSettled(item, { error: formatError(error) });
+          failed = true;
         }
-      }
+      })
+    );
+
+    if (failed) return;
+  }
+};
+
+// Reads the new transaction's ID from a createTransaction receipt
+const getCreatedTransactionId = (receipt: ethers.TransactionReceipt) => {
+  const iface = new ethers.Interface(FINANCIAL_PLATFORM_ABI);
 
-      if (transactionId === null) {
-        throw new Error('Could not find TransactionCreated event');
+  for (const log of receipt.logs) {
+    try {
+      const parsedLog = iface.parseLog(log);
+      if (parsedLog && parsedLog.name === 'TransactionCreated') {
+        return Number(parsedLog.args.transactionId);
       }
+    } catch {
+      // Ignore logs that are not from our contract
+    }
+  }
+
+  throw new Error('Could not find TransactionCreated event');
+};
+
+export interface BulkTransactionInput {
+  id: number;
+  to: string;
+  amount: bigint;
+  description: string;
+  // Defaults to the settlement token
+  token?: string;
+}
+
+/**
+ * Creates many transactions (e.g. a payroll CSV import), one wallet
+ * confirmation each. `onRowSettled` receives each row's new transaction ID
+ * or error; see submitInBatches for the batching and stop-on-failure rules.
+ */
+export const useBulkCreateTransactions = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      rows,
+      batched,
+      onRowSettled,
+    }: {
+      rows: BulkTransactionInput[];
+      batched: boolean;
+      onRowSettled: (id: number, result: BulkResult<number>) => void;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
 
-      return transactionId;
+      const contract = getContract('financialPlatform', chainId, signer);
+      await submitInBatches(
+        rows,
+        batched,
+        signer.provider,
+        (row) => {
+          const options = { gasLimit: GAS_LIMITS.CREATE_TRANSACTION };
+          return row.token
+            ? contract.createTokenTransaction(
+                row.to,
+                row.token,
+                row.amount,
+                row.description,
+                options
+              )
+            : contract.createTransaction(
+                row.to,
+                row.amount,
+                row.description,
+                options
+              );
+        },
+        (row, result) => {
+          if ('error' in result) {
+            onRowSettled(row.id, result);
+            return;
+          }
+          try {
+            onRowSettled(row.id, {
+              value: getCreatedTransactionId(result.value),
+            });
+          } catch (error) {
+            onRowSettled(row.id, { error: formatError(error) });
+          }
+        }
+      );
     },
-    onSuccess: () => {
-      // Invalidate queries to refresh transaction lists and dashboard
+    onSettled: () => {
+      // Refresh lists even if the run stopped part-way
       queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.USER_TRANSACTIONS],
@@ -392,7 +786,9 @@ export const useCreateTransaction = () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
-      toast.success('Transaction created successfully');
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
     },
     onError: (error) => {
       toast.error(formatError(error));
@@ -401,8 +797,9 @@ export const useCreateTransaction = () => {
 };
 
 /**
- * Completes a transaction (marks as completed) on the smart contract.
- * Only callable by authorized users (e.g., after approval).
+ * Completes a transaction on the smart contract, settling its amount in the
+ * transaction's token. Approves the platform to pull the amount from the
+ * sender first if the current allowance is insufficient.
  */
 export const useCompleteTransaction = () => {
   const { signer, chainId } = useWallet();
@@ -412,7 +809,36 @@ export const useCompleteTransaction = () => {
     mutationFn: async (transactionId: number) => {
       if (!signer || !chainId) throw new Error('Wallet not connected');
       const contract = getContract('financialPlatform', chainId, signer);
-      // Call completeTransaction on the contract
+
+      const txData = await contract.getTransaction(transactionId);
+      const tokenAddress: string =
+        txData.token === ethers.ZeroAddress
+          ? await contract.settlementToken()
+          : txData.token;
+      if (tokenAddress === ethers.ZeroAddress) {
+        throw new Error('Settlement token is not configured');
+      }
+
+      const token = getTokenContract(tokenAddress, signer);
+      const owner = await signer.getAddress();
+      const platformAddress = await contract.getAddress();
+      const amount: bigint = txData.amount;
+
+      const balance: bigint = await token.balanceOf(owner);
+      if (balance < amount) {
+        throw new Error('Insufficient token balance to settle this transaction');
+      }
+
+      // Step 1: Approve the platform to transfer the settlement amount
+      const allowance: bigint = await token.allowance(owner, platformAddress);
+      if (allowance < amount) {
+        const approveTx = await token.approve(platformAddress, amount, {
+          gasLimit: GAS_LIMITS.APPROVE_TOKEN,
+        });
+        await waitForTransaction(approveTx.hash, signer.provider);
+      }
+
+      // Step 2: Complete the transaction, which transfers the tokens
       const tx = await contract.completeTransaction(transactionId, {
         gasLimit: GAS_LIMITS.COMPLETE_TRANSACTION || 200_000,
       });
@@ -428,7 +854,12 @@ export const useCompleteTransaction = () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
-      toast.success('Transaction completed successfully');
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SETTLEMENT] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TOKEN_BALANCE] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.TOKEN_ALLOWANCE],
+      });
+      toast.success('Transaction completed and settled successfully');
     },
     onError: (error) => {
       toast.error(formatError(error));
@@ -436,45 +867,311 @@ export const useCompleteTransaction = () => {
   });
 };
 
-// =====================
-// Approval Management Hooks
-// =====================
-
 /**
- * Fetches all pending approvals from the smart contract.
- * Refetches every 10 seconds for real-time updates.
+ * Cancels a pending or approved transaction (owner only). A pending
+ * approval request for it is cancelled as well.
  */
-export const usePendingApprovals = () => {
-  const { provider, chainId } = useWallet();
+export const useCancelTransaction = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
 
-  return useQuery({
-    queryKey: [QUERY_KEYS.PENDING_APPROVALS, chainId],
-    queryFn: async (): Promise<Approval[]> => {
-      console.log('🔍 Fetching pending approvals...', {
-        provider: !!provider,
-        chainId,
+  return useMutation({
+    mutationFn: async (transactionId: number) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      const tx = await contract.cancelTransaction(transactionId, {
+        gasLimit: GAS_LIMITS.CANCEL_TRANSACTION,
       });
-      if (!provider || !chainId) return [];
-
-      try {
-        const contract = getContract('financialPlatform', chainId, provider);
-        const approvalIds = await contract.getPendingApprovals();
-
-        // Fetch each approval by ID
-        const approvals = await Promise.all(
-          approvalIds.map(async (id: bigint) => {
-            const approvalData = await contract.getApproval(id);
-            return {
-              id: approvalData.id,
-              transactionId: approvalData.transactionId,
-              requester: approvalData.requester,
-              approver: approvalData.approver,
-              approvalType: approvalData.approvalType,
-              status: approvalData.status,
-              reason: approvalData.reason,
-              timestamp: approvalData.timestamp,
-            };
-          })
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTION] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.USER_TRANSACTIONS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PENDING_APPROVALS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
+      });
+      toast.success('Transaction cancelled');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Fetches the settlement transfer for a completed transaction from the
+ * TransactionSettled event log. Returns null if it has not been settled.
+ */
+export const useTransactionSettlement = (transactionId?: number) => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.SETTLEMENT, transactionId, chainId],
+    queryFn: async (): Promise<TransactionSettlement | null> => {
+      if (!provider || !chainId || !transactionId) return null;
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const logs = await contract.queryFilter(
+          contract.filters.TransactionSettled(transactionId)
+        );
+        const log = logs[logs.length - 1];
+        if (!log || !('args' in log)) return null;
+
+        // Resolve the token symbol and decimals for display
+        let tokenSymbol = '';
+        let tokenDecimals = 18;
+        try {
+          const token = getTokenContract(log.args.token, provider);
+          const [symbol, decimals] = await Promise.all([
+            token.symbol(),
+            token.decimals(),
+          ]);
+          tokenSymbol = symbol;
+          tokenDecimals = Number(decimals);
+        } catch {
+          tokenSymbol = '';
+        }
+
+        return {
+          transactionId: log.args.transactionId,
+          token: log.args.token,
+          tokenSymbol,
+          tokenDecimals,
+          from: log.args.from,
+          to: log.args.to,
+          amount: log.args.amount,
+          blockNumber: log.blockNumber,
+          transactionHash: log.transactionHash,
+        };
+      } catch (error) {
+        console.error('Error fetching transaction settlement:', error);
+        return null;
+      }
+    },
+    enabled: !!provider && !!chainId && !!transactionId,
+  });
+};
+
+const isEventLog = (log: ethers.Log): log is ethers.EventLog =>
+  'args' in log;
+
+/**
+ * Reconstructs a transaction's lifecycle from historical contract logs:
+ * creation, approval requests, each approver's decision and status changes,
+ * oldest first.
+ */
+export const useTransactionTimeline = (transactionId?: number) => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.TRANSACTION_TIMELINE, transactionId, chainId],
+    queryFn: async (): Promise<TransactionTimelineEvent[]> => {
+      if (!provider || !chainId || !transactionId) return [];
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const [transaction, createdLogs, requestedLogs, statusLogs] =
+          await Promise.all([
+            contract.getTransaction(transactionId),
+            contract.queryFilter(
+              contract.filters.TransactionCreated(transactionId)
+            ),
+            contract.queryFilter(
+              contract.filters.ApprovalRequested(null, transactionId)
+            ),
+            contract.queryFilter(
+              contract.filters.TransactionStatusUpdated(transactionId)
+            ),
+          ]);
+
+        const requests = requestedLogs.filter(isEventLog);
+        const approvalIds = requests.map((log) => log.args.approvalId);
+
+        // Decision reasons are stored with the signatures, in signing order
+        const [signedLogs, signatures] = await Promise.all([
+          Promise.all(
+            approvalIds.map((approvalId) =>
+              contract.queryFilter(contract.filters.ApprovalSigned(approvalId))
+            )
+          ),
+          Promise.all(
+            approvalIds.map((approvalId) =>
+              contract.getApprovalSignatures(approvalId)
+            )
+          ),
+        ]);
+
+        const toEvent = async (
+          log: ethers.EventLog,
+          event: Pick<TransactionTimelineEvent, 'type' | 'actor'> &
+            Partial<TransactionTimelineEvent>
+        ): Promise<TransactionTimelineEvent> => {
+          const block = await log.getBlock();
+          return {
+            ...event,
+            blockNumber: log.blockNumber,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+            timestamp: block.timestamp,
+          };
+        };
+
+        const events = await Promise.all([
+          ...createdLogs.filter(isEventLog).map((log) =>
+            toEvent(log, { type: 'created', actor: log.args.from })
+          ),
+          ...requests.map(async (log) => {
+            // The request reason is only kept in the requestApproval calldata;
+            // requests routed by approval tiers on creation use the description
+            const tx = await log.getTransaction();
+            const call = contract.interface.parseTransaction(tx);
+            return toEvent(log, {
+              type: 'approvalRequested',
+              actor: log.args.requester,
+              approvalId: log.args.approvalId,
+              reason:
+                call?.name === 'requestApproval'
+                  ? call.args.reason
+                  : transaction.description,
+            });
+          }),
+          ...signedLogs.flatMap((logs, i) =>
+            logs.filter(isEventLog).map((log, j) =>
+              toEvent(log, {
+                type: 'approvalSigned',
+                actor: log.args.approver,
+                approvalId: log.args.approvalId,
+                approved: log.args.approved,
+                reason: signatures[i][j]?.reason,
+              })
+            )
+          ),
+          ...statusLogs.filter(isEventLog).map(async (log) => {
+            const tx = await log.getTransaction();
+            return toEvent(log, {
+              type: 'statusUpdated',
+              actor: tx.from,
+              status: Number(log.args.status),
+            });
+          }),
+        ]);
+
+        return events.sort(
+          (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+        );
+      } catch (error) {
+        console.error('Error fetching transaction timeline:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId && !!transactionId,
+  });
+};
+
+// =====================
+// Approval Management Hooks
+// =====================
+
+/**
+ * Fetches an approval together with the signatures collected so far and,
+ * for UserRole / SystemConfig approvals, the change being requested.
+ */
+const fetchApproval = async (
+  contract: Contract,
+  approvalId: bigint | number
+): Promise<Approval> => {
+  const [approvalData, signatureData] = await Promise.all([
+    contract.getApproval(approvalId),
+    contract.getApprovalSignatures(approvalId),
+  ]);
+
+  const signatures: ApprovalSignature[] = signatureData.map(
+    (sig: ApprovalSignature) => ({
+      approver: sig.approver,
+      delegate: sig.delegate,
+      approved: sig.approved,
+      isAdmin: sig.isAdmin,
+      reason: sig.reason,
+      timestamp: sig.timestamp,
+    })
+  );
+
+  const approval: Approval = {
+    id: approvalData.id,
+    transactionId: approvalData.transactionId,
+    requester: approvalData.requester,
+    approver: approvalData.approver,
+    approvalType: approvalData.approvalType,
+    status: approvalData.status,
+    reason: approvalData.reason,
+    timestamp: approvalData.timestamp,
+    requiredApprovals: approvalData.requiredApprovals,
+    requiredAdminApprovals: approvalData.requiredAdminApprovals,
+    expiresAt: approvalData.expiresAt,
+    approverRole: Number(approvalData.approverRole) as UserRole,
+    signatures,
+  };
+
+  const approvalType = Number(approvalData.approvalType);
+  if (approvalType === ApprovalType.UserRole) {
+    const request = await contract.roleChangeRequests(approvalId);
+    approval.roleChange = {
+      userAddress: request.userAddress,
+      newRole: Number(request.newRole) as UserRole,
+    };
+  } else if (approvalType === ApprovalType.SystemConfig) {
+    approval.settlementTokenChange = await contract.settlementTokenRequests(
+      approvalId
+    );
+  }
+
+  return approval;
+};
+
+/**
+ * Fetches all pending approvals from the smart contract, reading the
+ * pending set in contract-sized pages.
+ * Refetches every 10 seconds for real-time updates.
+ */
+export const usePendingApprovals = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.PENDING_APPROVALS, chainId],
+    queryFn: async (): Promise<Approval[]> => {
+      console.log('🔍 Fetching pending approvals...', {
+        provider: !!provider,
+        chainId,
+      });
+      if (!provider || !chainId) return [];
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const approvalIds = new Set<bigint>();
+        let total = 0;
+        do {
+          const [ids, pendingTotal] =
+            await contract.getPendingApprovalsPaginated(
+              approvalIds.size,
+              MAX_PAGE_SIZE
+            );
+          total = Number(pendingTotal);
+          const before = approvalIds.size;
+          ids.forEach((id: bigint) => approvalIds.add(id));
+          // The set can shrink between reads, so stop when nothing new arrives
+          if (approvalIds.size === before) break;
+        } while (approvalIds.size < total);
+
+        const approvals = await Promise.all(
+          Array.from(approvalIds).map((id) => fetchApproval(contract, id))
         );
 
         // Sort approvals by timestamp (most recent first)
@@ -489,6 +1186,42 @@ export const usePendingApprovals = () => {
   });
 };
 
+/**
+ * Fetches one page of pending approvals directly from the smart contract.
+ * Page order follows the contract's pending set, not approval age.
+ */
+export const usePaginatedPendingApprovals = (
+  page = 0,
+  pageSize = DEFAULT_PAGE_SIZE
+) => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.PENDING_APPROVALS, 'page', page, pageSize, chainId],
+    queryFn: async (): Promise<Page<Approval>> => {
+      if (!provider || !chainId) return { items: [], total: 0 };
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const [ids, total] = await contract.getPendingApprovalsPaginated(
+          page * pageSize,
+          pageSize
+        );
+        const items = await Promise.all(
+          ids.map((id: bigint) => fetchApproval(contract, id))
+        );
+        return { items, total: Number(total) };
+      } catch (error) {
+        console.error('Error fetching pending approvals page:', error);
+        return { items: [], total: 0 };
+      }
+    },
+    enabled: !!provider && !!chainId,
+    placeholderData: keepPreviousData,
+    refetchInterval: 10000, // Refetch every 10 seconds for real-time updates
+  });
+};
+
 /**
  * Processes an approval (approve or reject) for a transaction.
  * Only callable by authorized users (e.g., managers/admins).
@@ -523,11 +1256,188 @@ export const useProcessApproval = () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.PENDING_APPROVALS],
       });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.APPROVAL] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
+      });
+      // Approved role / config changes take effect immediately
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SETTLEMENT] });
+      toast.success('Approval decision recorded successfully');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Approves or rejects several approvals with one shared reason, sending up
+ * to APPROVAL_BATCH_SIZE per transaction. The contract skips approvals the
+ * caller can't process, so the result lists an outcome for each approval.
+ */
+export const useProcessApprovalsBatch = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      approvalIds,
+      approved,
+      reason,
+    }: {
+      approvalIds: number[];
+      approved: boolean;
+      reason: string;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+
+      const contract = getContract('financialPlatform', chainId, signer);
+      const results = new Map<number, BulkResult<void>>();
+
+      for (let i = 0; i < approvalIds.length; i += APPROVAL_BATCH_SIZE) {
+        const batch = approvalIds.slice(i, i + APPROVAL_BATCH_SIZE);
+        try {
+          const tx = await contract.processApprovals(batch, approved, reason, {
+            gasLimit: GAS_LIMITS.PROCESS_APPROVAL * batch.length,
+          });
+          const receipt = await waitForTransaction(tx.hash, signer.provider);
+          if (!receipt || receipt.status !== 1) {
+            throw new Error('Transaction reverted');
+          }
+
+          for (const log of receipt.logs) {
+            const parsed = contract.interface.parseLog(log);
+            if (parsed?.name === 'ApprovalSigned') {
+              results.set(Number(parsed.args.approvalId), {
+                value: undefined,
+              });
+            } else if (parsed?.name === 'ApprovalProcessingFailed') {
+              results.set(Number(parsed.args.approvalId), {
+                error: parsed.args.error,
+              });
+            }
+          }
+        } catch (error) {
+          // The whole transaction failed, e.g. rejected in the wallet
+          for (const approvalId of batch) {
+            results.set(approvalId, { error: formatError(error) });
+          }
+        }
+      }
+
+      return approvalIds.map((approvalId) => ({
+        approvalId,
+        result: results.get(approvalId) ?? { error: 'Not processed' },
+      }));
+    },
+    onSuccess: (results) => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PENDING_APPROVALS],
+      });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.APPROVAL] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
+      });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SETTLEMENT] });
+
+      const failed = results.filter(({ result }) => 'error' in result).length;
+      if (failed === 0) {
+        toast.success(`${results.length} approval decisions recorded`);
+      } else {
+        toast.warning(
+          `${results.length - failed} of ${results.length} approval decisions recorded`
+        );
+      }
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Expires a pending approval whose deadline has passed. Anyone can call
+ * this; the attached transaction, if any, becomes Expired.
+ */
+export const useExpireApproval = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (approvalId: number) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      const tx = await contract.expireApproval(approvalId, {
+        gasLimit: GAS_LIMITS.EXPIRE_APPROVAL,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PENDING_APPROVALS],
+      });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.APPROVAL] });
       queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
-      toast.success('Approval processed successfully');
+      toast.success('Approval request expired');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Requests a role promotion for a user (admin only).
+ * The new role is applied once another admin approves the request.
+ */
+export const useRequestRoleChange = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      walletAddress,
+      role,
+      reason,
+    }: {
+      walletAddress: string;
+      role: UserRole;
+      reason: string;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      // Call requestRoleChange on the contract
+      const tx = await contract.requestRoleChange(walletAddress, role, reason, {
+        gasLimit: GAS_LIMITS.REQUEST_ROLE_CHANGE,
+      });
+      const receipt = await waitForTransaction(tx.hash, signer.provider);
+
+      // The platform's first promotion to Admin is applied without approval
+      return !!receipt?.logs.some(
+        (log) =>
+          contract.interface.parseLog(log)?.name === 'UserRoleUpdated'
+      );
+    },
+    onSuccess: (applied) => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PENDING_APPROVALS],
+      });
+      if (applied) {
+        queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+        toast.success('Role updated');
+        return;
+      }
+      toast.success('Role change submitted for approval');
     },
     onError: (error) => {
       toast.error(formatError(error));
@@ -574,6 +1484,57 @@ export const useRequestApproval = () => {
   });
 };
 
+/**
+ * Requests approval for many transactions with a shared reason, e.g. after
+ * a bulk import. Same batching and stop-on-failure rules as
+ * useBulkCreateTransactions; `onSettled` is called per transaction ID.
+ */
+export const useBulkRequestApproval = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      transactionIds,
+      reason,
+      batched,
+      onSettled,
+    }: {
+      transactionIds: number[];
+      reason: string;
+      batched: boolean;
+      onSettled: (transactionId: number, result: BulkResult<void>) => void;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+
+      const contract = getContract('financialPlatform', chainId, signer);
+      await submitInBatches(
+        transactionIds,
+        batched,
+        signer.provider,
+        (transactionId) =>
+          contract.requestApproval(transactionId, reason, {
+            gasLimit: GAS_LIMITS.REQUEST_APPROVAL,
+          }),
+        (transactionId, result) =>
+          onSettled(
+            transactionId,
+            'error' in result ? result : { value: undefined }
+          )
+      );
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PENDING_APPROVALS],
+      });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
 /**
  * Fetches a single approval by its ID from the smart contract.
  */
@@ -586,17 +1547,7 @@ export const useApproval = (approvalId?: number) => {
       if (!provider || !chainId || !approvalId) return null;
       try {
         const contract = getContract('financialPlatform', chainId, provider);
-        const approvalData = await contract.getApproval(approvalId);
-        return {
-          id: approvalData.id,
-          transactionId: approvalData.transactionId,
-          requester: approvalData.requester,
-          approver: approvalData.approver,
-          approvalType: approvalData.approvalType,
-          status: approvalData.status,
-          reason: approvalData.reason,
-          timestamp: approvalData.timestamp,
-        };
+        return await fetchApproval(contract, approvalId);
       } catch (error) {
         console.error('Error fetching approval:', error);
         return null;
@@ -606,6 +1557,922 @@ export const useApproval = (approvalId?: number) => {
   });
 };
 
+/**
+ * Fetches the configured multi-signature approval policies,
+ * sorted by minimum amount (ascending).
+ */
+export const useApprovalPolicies = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.APPROVAL_POLICIES, chainId],
+    queryFn: async (): Promise<ApprovalPolicy[]> => {
+      if (!provider || !chainId) return [];
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const policies = await contract.getApprovalPolicies();
+        return policies
+          .map((policy: ApprovalPolicy) => ({
+            minAmount: policy.minAmount,
+            requiredApprovals: policy.requiredApprovals,
+            requiredAdminApprovals: policy.requiredAdminApprovals,
+          }))
+          .sort((a: ApprovalPolicy, b: ApprovalPolicy) =>
+            a.minAmount < b.minAmount ? -1 : a.minAmount > b.minAmount ? 1 : 0
+          );
+      } catch (error) {
+        console.error('Error fetching approval policies:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Adds or updates the approval policy for a minimum amount (admin only).
+ */
+export const useSetApprovalPolicy = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      minAmount,
+      requiredApprovals,
+      requiredAdminApprovals,
+    }: {
+      minAmount: bigint;
+      requiredApprovals: number;
+      requiredAdminApprovals: number;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      const tx = await contract.setApprovalPolicy(
+        minAmount,
+        requiredApprovals,
+        requiredAdminApprovals,
+        { gasLimit: GAS_LIMITS.SET_APPROVAL_POLICY }
+      );
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.APPROVAL_POLICIES],
+      });
+      toast.success('Approval policy saved');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Removes the approval policy for a minimum amount (admin only).
+ */
+export const useRemoveApprovalPolicy = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (minAmount: bigint) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      const tx = await contract.removeApprovalPolicy(minAmount, {
+        gasLimit: GAS_LIMITS.SET_APPROVAL_POLICY,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.APPROVAL_POLICIES],
+      });
+      toast.success('Approval policy removed');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Fetches how long new approval requests stay open, in seconds
+ * (0 = requests never expire).
+ */
+export const useApprovalDeadline = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.APPROVAL_DEADLINE, chainId],
+    queryFn: async (): Promise<number> => {
+      if (!provider || !chainId) return 0;
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        return Number(await contract.approvalDeadline());
+      } catch (error) {
+        console.error('Error fetching approval deadline:', error);
+        return 0;
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Sets how long new approval requests stay open, in seconds (admin only).
+ * Existing requests keep their original deadline.
+ */
+export const useSetApprovalDeadline = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (duration: number) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      const tx = await contract.setApprovalDeadline(duration, {
+        gasLimit: GAS_LIMITS.SET_APPROVAL_DEADLINE,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.APPROVAL_DEADLINE],
+      });
+      toast.success('Approval deadline saved');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Fetches the amount tiers that route new transactions to auto-approval,
+ * approver or admin approval.
+ */
+export const useApprovalTiers = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.APPROVAL_TIERS, chainId],
+    queryFn: async (): Promise<ApprovalTiers | null> => {
+      if (!provider || !chainId) return null;
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const tiers = await contract.approvalTiers();
+        return {
+          enabled: tiers.enabled,
+          autoApproveBelow: tiers.autoApproveBelow,
+          adminApprovalFrom: tiers.adminApprovalFrom,
+        };
+      } catch (error) {
+        console.error('Error fetching approval tiers:', error);
+        return null;
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Sets the approval tiers for new transactions (admin only). Transactions
+ * created before the change keep their routing.
+ */
+export const useSetApprovalTiers = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (tiers: ApprovalTiers) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('financialPlatform', chainId, signer);
+      const tx = await contract.setApprovalTiers(
+        tiers.enabled,
+        tiers.autoApproveBelow,
+        tiers.adminApprovalFrom,
+        { gasLimit: GAS_LIMITS.SET_APPROVAL_TIERS }
+      );
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.APPROVAL_TIERS],
+      });
+      toast.success('Approval tiers saved');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Fetches the approver whose authority `address` currently holds through a
+ * delegation, or null. Rechecked every minute, since delegations start and
+ * end on their own.
+ */
+export const useActiveDelegator = (address?: string | null) => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.ACTIVE_DELEGATOR, address, chainId],
+    queryFn: async (): Promise<string | null> => {
+      if (!provider || !chainId || !address) return null;
+
+      try {
+        const delegation = getContract('approvalDelegation', chainId, provider);
+        const delegator: string = await delegation.activeDelegator(address);
+        return delegator === ethers.ZeroAddress ? null : delegator;
+      } catch (error) {
+        console.error('Error fetching active delegator:', error);
+        return null;
+      }
+    },
+    enabled: !!provider && !!chainId && !!address,
+    refetchInterval: 60000, // Refetch every minute
+  });
+};
+
+/**
+ * Fetches the delegations set up by approvers that haven't ended yet,
+ * including ones scheduled to start later.
+ */
+export const useDelegations = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.DELEGATIONS, chainId],
+    queryFn: async (): Promise<Delegation[]> => {
+      if (!provider || !chainId) return [];
+
+      try {
+        const contract = getContract('approvalDelegation', chainId, provider);
+        const index = await syncIndex(chainId, provider);
+        const approvers = [...index.users.values()].filter(
+          (user) => user.role !== UserRole.Regular
+        );
+        const now = BigInt(Math.floor(Date.now() / 1000));
+
+        const delegations = await Promise.all(
+          approvers.map(async (user): Promise<Delegation> => {
+            const [delegate, startsAt, endsAt] = await contract.delegations(
+              user.walletAddress
+            );
+            return {
+              delegator: user.walletAddress,
+              delegate,
+              startsAt,
+              endsAt,
+            };
+          })
+        );
+        return delegations.filter(
+          (delegation) =>
+            delegation.delegate !== ethers.ZeroAddress &&
+            delegation.endsAt > now
+        );
+      } catch (error) {
+        console.error('Error fetching delegations:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Lets another registered user sign approvals on the caller's behalf between
+ * `startsAt` and `endsAt` (unix seconds). Replaces the caller's current
+ * delegation, if any.
+ */
+export const useDelegateApprovals = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      delegate,
+      startsAt,
+      endsAt,
+    }: {
+      delegate: string;
+      startsAt: number;
+      endsAt: number;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('approvalDelegation', chainId, signer);
+      const tx = await contract.delegateApprovals(delegate, startsAt, endsAt, {
+        gasLimit: GAS_LIMITS.DELEGATE_APPROVALS,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.DELEGATIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.ACTIVE_DELEGATOR],
+      });
+      toast.success('Approval authority delegated');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Ends the caller's delegation early.
+ */
+export const useRevokeDelegation = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const contract = getContract('approvalDelegation', chainId, signer);
+      const tx = await contract.revokeDelegation({
+        gasLimit: GAS_LIMITS.REVOKE_DELEGATION,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.DELEGATIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.ACTIVE_DELEGATOR],
+      });
+      toast.success('Delegation revoked');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+// =====================
+// Schedule Hooks
+// =====================
+
+/**
+ * Fetches the recurring transaction schedules created by a user (defaults to
+ * the connected account), most recent first.
+ */
+export const useUserSchedules = (userAddress?: string) => {
+  const { provider, chainId, address } = useWallet();
+  const targetAddress = userAddress || address;
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.SCHEDULES, targetAddress, chainId],
+    queryFn: async (): Promise<Schedule[]> => {
+      if (!provider || !chainId || !targetAddress) return [];
+
+      try {
+        const scheduler = getContract(
+          'transactionScheduler',
+          chainId,
+          provider
+        );
+        const ids: bigint[] = await scheduler.getUserSchedules(targetAddress);
+        const schedules = await Promise.all(
+          ids.map(async (id): Promise<Schedule> => {
+            const data = await scheduler.getSchedule(id);
+            return {
+              id: data.id,
+              owner: data.owner,
+              to: data.to,
+              token: data.token,
+              amount: data.amount,
+              description: data.description,
+              interval: data.interval,
+              nextRunAt: data.nextRunAt,
+              endsAt: data.endsAt,
+              maxOccurrences: data.maxOccurrences,
+              occurrences: data.occurrences,
+              active: data.active,
+            };
+          })
+        );
+        return schedules.sort((a, b) => Number(b.id - a.id));
+      } catch (error) {
+        console.error('Error fetching schedules:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId && !!targetAddress,
+  });
+};
+
+/**
+ * Creates a recurring transaction template in the settlement token. The keeper
+ * script has the scheduler create each occurrence once it is due, from
+ * `startsAt` (now if 0) every `interval` seconds until `endsAt` or
+ * `maxOccurrences` (0 for no limit).
+ */
+export const useCreateSchedule = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      to,
+      amount,
+      description,
+      interval,
+      startsAt,
+      endsAt,
+      maxOccurrences,
+    }: {
+      to: string;
+      amount: bigint;
+      description: string;
+      interval: number;
+      startsAt: number;
+      endsAt: number;
+      maxOccurrences: number;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const scheduler = getContract('transactionScheduler', chainId, signer);
+      const tx = await scheduler.createSchedule(
+        to,
+        amount,
+        description,
+        interval,
+        startsAt,
+        endsAt,
+        maxOccurrences,
+        { gasLimit: GAS_LIMITS.CREATE_SCHEDULE }
+      );
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SCHEDULES] });
+      toast.success('Schedule created');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Stops a schedule (owner only). Transactions it already created are kept.
+ */
+export const useCancelSchedule = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (scheduleId: bigint) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const scheduler = getContract('transactionScheduler', chainId, signer);
+      const tx = await scheduler.cancelSchedule(scheduleId, {
+        gasLimit: GAS_LIMITS.CANCEL_SCHEDULE,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SCHEDULES] });
+      toast.success('Schedule cancelled');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+// =====================
+// Spending Limit Hooks
+// =====================
+
+// getRemaining reports unlimited as the maximum uint256
+const toRemaining = (value: bigint): bigint | null =>
+  value === ethers.MaxUint256 ? null : value;
+
+/**
+ * Fetches the spending limit for each role, indexed by UserRole.
+ */
+export const useRoleLimits = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.SPENDING_LIMITS, 'roles', chainId],
+    queryFn: async (): Promise<SpendingLimit[]> => {
+      if (!provider || !chainId) return [];
+
+      try {
+        const limits = getContract('spendingLimits', chainId, provider);
+        return await Promise.all(
+          [UserRole.Regular, UserRole.Manager, UserRole.Admin].map(
+            async (role): Promise<SpendingLimit> => {
+              const [daily, monthly] = await limits.roleLimits(role);
+              return { daily, monthly };
+            }
+          )
+        );
+      } catch (error) {
+        console.error('Error fetching role spending limits:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Fetches the users with their own spending limit, which replaces their
+ * role's limit.
+ */
+export const useUserLimits = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.SPENDING_LIMITS, 'users', chainId],
+    queryFn: async (): Promise<UserSpendingLimit[]> => {
+      if (!provider || !chainId) return [];
+
+      try {
+        const limits = getContract('spendingLimits', chainId, provider);
+        const index = await syncIndex(chainId, provider);
+        const overrides = await Promise.all(
+          [...index.users.values()].map(async ({ walletAddress }) => {
+            if (!(await limits.hasUserLimit(walletAddress))) return null;
+            const [daily, monthly] = await limits.userLimits(walletAddress);
+            return { userAddress: walletAddress, daily, monthly };
+          })
+        );
+        return overrides.filter(
+          (limit): limit is UserSpendingLimit => limit !== null
+        );
+      } catch (error) {
+        console.error('Error fetching user spending limits:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Fetches how much a user (defaults to the connected account) can still send
+ * today and this month. Returns null if spending limits aren't deployed.
+ */
+export const useRemainingLimit = (userAddress?: string) => {
+  const { provider, chainId, address } = useWallet();
+  const targetAddress = userAddress || address;
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.REMAINING_LIMIT, targetAddress, chainId],
+    queryFn: async (): Promise<RemainingLimit | null> => {
+      if (!provider || !chainId || !targetAddress) return null;
+
+      try {
+        const limits = getContract('spendingLimits', chainId, provider);
+        const [daily, monthly] = await limits.getRemaining(targetAddress);
+        return { daily: toRemaining(daily), monthly: toRemaining(monthly) };
+      } catch (error) {
+        console.error('Error fetching remaining spending limit:', error);
+        return null;
+      }
+    },
+    enabled: !!provider && !!chainId && !!targetAddress,
+  });
+};
+
+/**
+ * Sets the daily and monthly limits for every user with a role (admin only).
+ * Use 0 for no limit.
+ */
+export const useSetRoleLimit = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      role,
+      daily,
+      monthly,
+    }: {
+      role: UserRole;
+      daily: bigint;
+      monthly: bigint;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const limits = getContract('spendingLimits', chainId, signer);
+      const tx = await limits.setRoleLimit(role, daily, monthly, {
+        gasLimit: GAS_LIMITS.SET_SPENDING_LIMIT,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.SPENDING_LIMITS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
+      toast.success('Role spending limit saved');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Gives a user their own daily and monthly limits (admin only).
+ */
+export const useSetUserLimit = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      userAddress,
+      daily,
+      monthly,
+    }: {
+      userAddress: string;
+      daily: bigint;
+      monthly: bigint;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const limits = getContract('spendingLimits', chainId, signer);
+      const tx = await limits.setUserLimit(userAddress, daily, monthly, {
+        gasLimit: GAS_LIMITS.SET_SPENDING_LIMIT,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.SPENDING_LIMITS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
+      toast.success('User spending limit saved');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Puts a user back on their role's limits (admin only).
+ */
+export const useRemoveUserLimit = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (userAddress: string) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+      const limits = getContract('spendingLimits', chainId, signer);
+      const tx = await limits.removeUserLimit(userAddress, {
+        gasLimit: GAS_LIMITS.REMOVE_SPENDING_LIMIT,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.SPENDING_LIMITS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
+      toast.success('User spending limit removed');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+// =====================
+// Token Hooks
+// =====================
+
+// Symbol and decimals of a token. The zero address stands for the settlement
+// token, as in Transaction.token.
+const fetchTokenInfo = async (
+  tokenAddress: string,
+  settlementToken: string,
+  provider: ethers.JsonRpcApiProvider
+): Promise<TokenInfo> => {
+  const address =
+    tokenAddress === ethers.ZeroAddress ? settlementToken : tokenAddress;
+  const token = getTokenContract(address, provider);
+  const [symbol, decimals] = await Promise.all([
+    token.symbol(),
+    token.decimals(),
+  ]);
+
+  return {
+    address,
+    symbol,
+    decimals: Number(decimals),
+    isSettlementToken: address.toLowerCase() === settlementToken.toLowerCase(),
+  };
+};
+
+/**
+ * Fetches the symbol and decimals of a transaction's token, or null if it
+ * can't be read (e.g. no settlement token is configured yet).
+ */
+export const useTokenInfo = (tokenAddress?: string) => {
+  const { provider, chainId } = useWallet();
+  const address = tokenAddress || ethers.ZeroAddress;
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.TOKEN_INFO, address, chainId],
+    queryFn: async (): Promise<TokenInfo | null> => {
+      if (!provider || !chainId) return null;
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const settlementToken: string = await contract.settlementToken();
+        return await fetchTokenInfo(address, settlementToken, provider);
+      } catch (error) {
+        console.error('Error fetching token info:', error);
+        return null;
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Fetches the tokens new transactions can be made in: the settlement token
+ * first, then the admin-managed allowlist.
+ */
+export const useTokens = () => {
+  const { provider, chainId } = useWallet();
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.TOKENS, chainId],
+    queryFn: async (): Promise<TokenInfo[]> => {
+      if (!provider || !chainId) return [];
+
+      try {
+        const contract = getContract('financialPlatform', chainId, provider);
+        const settlementToken: string = await contract.settlementToken();
+
+        // Networks without an allowlist only take the settlement token
+        let allowedTokens: string[] = [];
+        try {
+          const allowlist = getContract('tokenAllowlist', chainId, provider);
+          allowedTokens = await allowlist.getAllowedTokens();
+        } catch (error) {
+          console.error('Error fetching allowed tokens:', error);
+        }
+
+        const addresses = [settlementToken, ...allowedTokens].filter(
+          (address, index, all) =>
+            address !== ethers.ZeroAddress &&
+            all.findIndex(
+              (other) => other.toLowerCase() === address.toLowerCase()
+            ) === index
+        );
+        return await Promise.all(
+          addresses.map((address) =>
+            fetchTokenInfo(address, settlementToken, provider)
+          )
+        );
+      } catch (error) {
+        console.error('Error fetching tokens:', error);
+        return [];
+      }
+    },
+    enabled: !!provider && !!chainId,
+  });
+};
+
+/**
+ * Adds a token to or removes it from the allowlist (admin only).
+ * Transactions already made in a removed token can still be completed.
+ */
+export const useSetTokenAllowed = () => {
+  const { signer, chainId } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      token,
+      allowed,
+    }: {
+      token: string;
+      allowed: boolean;
+    }) => {
+      if (!signer || !chainId) throw new Error('Wallet not connected');
+
+      // The contract accepts any address; check it is an ERC-20 first
+      if (allowed) {
+        try {
+          await getTokenContract(token, signer.provider).decimals();
+        } catch {
+          throw new Error('Address is not an ERC-20 token');
+        }
+      }
+
+      const allowlist = getContract('tokenAllowlist', chainId, signer);
+      const tx = await allowlist.setTokenAllowed(token, allowed, {
+        gasLimit: GAS_LIMITS.SET_TOKEN_ALLOWED,
+      });
+      await waitForTransaction(tx.hash, signer.provider);
+      return tx;
+    },
+    onSuccess: (_, { allowed }) => {
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TOKENS] });
+      toast.success(allowed ? 'Token allowed' : 'Token removed');
+    },
+    onError: (error) => {
+      toast.error(formatError(error));
+    },
+  });
+};
+
+/**
+ * Fetches the balance of a token (the platform token, PLT, by default) for a
+ * given address, along with the token symbol and decimals for display.
+ */
+export const useTokenBalance = (address?: string, tokenAddress?: string) => {
+  const { provider, chainId } = useWallet();
+  const ownerAddress = address || '';
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.TOKEN_BALANCE, ownerAddress, tokenAddress, chainId],
+    queryFn: async (): Promise<TokenBalance | null> => {
+      if (!provider || !chainId || !ownerAddress) return null;
+
+      try {
+        const token = tokenAddress
+          ? getTokenContract(tokenAddress, provider)
+          : getContract('mockToken', chainId, provider);
+        const [balance, symbol, decimals] = await Promise.all([
+          token.balanceOf(ownerAddress),
+          token.symbol(),
+          token.decimals(),
+        ]);
+
+        return {
+          balance,
+          symbol,
+          decimals: Number(decimals),
+        };
+      } catch (error) {
+        console.error('Error fetching token balance:', error);
+        return null;
+      }
+    },
+    enabled: !!provider && !!chainId && !!ownerAddress,
+  });
+};
+
+/**
+ * Fetches how much of the owner's platform token the spender may transfer.
+ * The spender defaults to the FinancialPlatform contract, which pulls
+ * the amount when a transaction is completed.
+ */
+export const useTokenAllowance = (owner?: string, spender?: string) => {
+  const { provider, chainId } = useWallet();
+  const ownerAddress = owner || '';
+  const spenderAddress =
+    spender || (chainId ? CONTRACT_ADDRESSES[chainId]?.financialPlatform : '');
+
+  return useQuery({
+    queryKey: [QUERY_KEYS.TOKEN_ALLOWANCE, ownerAddress, spenderAddress, chainId],
+    queryFn: async (): Promise<bigint> => {
+      if (!provider || !chainId || !ownerAddress || !spenderAddress) {
+        return BigInt(0);
+      }
+
+      try {
+        const token = getContract('mockToken', chainId, provider);
+        return await token.allowance(ownerAddress, spenderAddress);
+      } catch (error) {
+        console.error('Error fetching token allowance:', error);
+        return BigInt(0);
+      }
+    },
+    enabled: !!provider && !!chainId && !!ownerAddress && !!spenderAddress,
+  });
+};
+
 // =====================
 // Dashboard Metrics Hook
 // =====================
@@ -626,17 +2493,18 @@ export const useDashboardMetrics = () => {
       try {
         const contract = getContract('financialPlatform', chainId, provider);
 
-        // Fetch metrics in parallel
-        const [transactionCount, userCount, pendingApprovals] =
+        // Fetch metrics in parallel; a single-item page is enough to get the
+        // pending approval total
+        const [transactionCount, userCount, [, pendingApprovalCount]] =
           await Promise.all([
             contract.getTransactionCount(),
             contract.getUserCount(),
-            contract.getPendingApprovals(),
+            contract.getPendingApprovalsPaginated(0, 1),
           ]);
 
         return {
           totalTransactions: Number(transactionCount),
-          pendingApprovals: pendingApprovals.length,
+          pendingApprovals: Number(pendingApprovalCount),
           totalUsers: Number(userCount),
           userRole: user?.role || UserRole.Regular,
         };
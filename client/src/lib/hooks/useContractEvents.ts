@@ -11,6 +11,23 @@ import {
   ApprovalRequestedHandler,
   ApprovalProcessedHandler,
   UserRegisteredHandler,
+  UserRoleUpdatedHandler,
+  UserActivationHandler,
+  UserRole,
+  UserProfileUpdatedHandler,
+  TransactionSettledHandler,
+  ApprovalSignedHandler,
+  ApprovalDelegatedHandler,
+  DelegationRevokedHandler,
+  ScheduleCreatedHandler,
+  ScheduleExecutedHandler,
+  ScheduleEndedHandler,
+  RoleLimitUpdatedHandler,
+  UserLimitUpdatedHandler,
+  UserLimitRemovedHandler,
+  TokenAllowlistUpdatedHandler,
+  TokenTransferHandler,
+  TokenApprovalHandler,
 } from '@/types/contracts';
 
 // Main hook to set up and clean up contract event listeners
@@ -32,6 +49,43 @@ export const useContractEvents = () => {
       return;
     }
 
+    // The token contract is optional; platform events still work without it
+    let token: ReturnType<typeof getContract> | null = null;
+    try {
+      token = getContract('mockToken', chainId, provider);
+    } catch (error) {
+      console.error('Failed to get token contract for events:', error);
+    }
+
+    // Likewise for the scheduler, which isn't deployed on every network
+    let scheduler: ReturnType<typeof getContract> | null = null;
+    try {
+      scheduler = getContract('transactionScheduler', chainId, provider);
+    } catch (error) {
+      console.error('Failed to get scheduler contract for events:', error);
+    }
+
+    let limits: ReturnType<typeof getContract> | null = null;
+    try {
+      limits = getContract('spendingLimits', chainId, provider);
+    } catch (error) {
+      console.error('Failed to get spending limits contract for events:', error);
+    }
+
+    let allowlist: ReturnType<typeof getContract> | null = null;
+    try {
+      allowlist = getContract('tokenAllowlist', chainId, provider);
+    } catch (error) {
+      console.error('Failed to get token allowlist contract for events:', error);
+    }
+
+    let delegation: ReturnType<typeof getContract> | null = null;
+    try {
+      delegation = getContract('approvalDelegation', chainId, provider);
+    } catch (error) {
+      console.error('Failed to get delegation contract for events:', error);
+    }
+
     // --- Event Handlers ---
 
     // Handle TransactionCreated event
@@ -59,9 +113,16 @@ export const useContractEvents = () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.USER_TRANSACTIONS],
       });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
     };
 
     // Handle TransactionStatusUpdated event
@@ -85,12 +146,23 @@ export const useContractEvents = () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.USER_TRANSACTIONS],
       });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TRANSACTIONS] });
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.TRANSACTION, Number(transactionId)],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.TRANSACTION_TIMELINE, Number(transactionId)],
+      });
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
+      // Cancelled, rejected and expired transactions give back their spend
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
     };
 
     // Handle ApprovalRequested event
@@ -116,9 +188,15 @@ export const useContractEvents = () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.PENDING_APPROVALS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.TRANSACTION_TIMELINE, Number(transactionId)],
+      });
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
     };
 
     // Handle ApprovalProcessed event
@@ -135,7 +213,8 @@ export const useContractEvents = () => {
 
       // Map status number to text
       const statusText =
-        ['Pending', 'Approved', 'Rejected'][status] || 'Unknown';
+        ['Pending', 'Approved', 'Rejected', 'Cancelled', 'Expired'][status] ||
+        'Unknown';
 
       // Notify approver or general info
       if (approver.toLowerCase() === address.toLowerCase()) {
@@ -156,6 +235,35 @@ export const useContractEvents = () => {
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
+    };
+
+    // Handle ApprovalSigned event (one signature towards a multi-sig approval)
+    const handleApprovalSigned: ApprovalSignedHandler = (
+      approvalId,
+      approver,
+      approved,
+      approvalCount
+    ) => {
+      console.log('🔔 ApprovalSigned event:', {
+        approvalId,
+        approver,
+        approved,
+        approvalCount,
+      });
+
+      // Refresh signature progress
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PENDING_APPROVALS],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.APPROVAL, Number(approvalId)],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.TRANSACTION_TIMELINE],
+      });
     };
 
     // Handle UserRegistered event
@@ -179,9 +287,283 @@ export const useContractEvents = () => {
 
       // Invalidate relevant queries
       queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
+      });
+    };
+
+    // Handle UserRoleUpdated event (promotion approved or demotion)
+    const handleUserRoleUpdated: UserRoleUpdatedHandler = (
+      userAddress,
+      newRole
+    ) => {
+      console.log('🔔 UserRoleUpdated event:', { userAddress, newRole });
+
+      if (userAddress.toLowerCase() === address.toLowerCase()) {
+        toast.info(
+          `Your role has been changed to ${UserRole[Number(newRole)]}.`
+        );
+      }
+
+      // Refreshing the user re-filters the sidebar and page permissions
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PENDING_APPROVALS],
+      });
       queryClient.invalidateQueries({
         queryKey: [QUERY_KEYS.DASHBOARD_METRICS],
       });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
+    };
+
+    // Handle UserDeactivated / UserReactivated events
+    const handleUserDeactivated: UserActivationHandler = (userAddress) => {
+      console.log('🔔 UserDeactivated event:', { userAddress });
+
+      if (userAddress.toLowerCase() === address.toLowerCase()) {
+        toast.error('Your account has been deactivated by an administrator.');
+      }
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
+    };
+
+    const handleUserReactivated: UserActivationHandler = (userAddress) => {
+      console.log('🔔 UserReactivated event:', { userAddress });
+
+      if (userAddress.toLowerCase() === address.toLowerCase()) {
+        toast.success('Your account has been reactivated.');
+      }
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
+    };
+
+    // Handle UserProfileUpdated event
+    const handleUserProfileUpdated: UserProfileUpdatedHandler = (
+      userAddress,
+      updatedBy,
+      previousName,
+      previousEmail,
+      name,
+      email
+    ) => {
+      console.log('🔔 UserProfileUpdated event:', {
+        userAddress,
+        updatedBy,
+        previousName,
+        previousEmail,
+        name,
+        email,
+      });
+
+      // Let users know when an admin changed their profile
+      if (
+        userAddress.toLowerCase() === address.toLowerCase() &&
+        updatedBy.toLowerCase() !== address.toLowerCase()
+      ) {
+        toast.info('Your profile was updated by an administrator.');
+      }
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USER] });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.USERS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.PROFILE_HISTORY, userAddress],
+      });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.NOTIFICATIONS],
+      });
+    };
+
+    // Handle ApprovalDelegated / DelegationRevoked events
+    const handleApprovalDelegated: ApprovalDelegatedHandler = (
+      delegator,
+      delegate,
+      startsAt,
+      endsAt
+    ) => {
+      console.log('🔔 ApprovalDelegated event:', {
+        delegator,
+        delegate,
+        startsAt,
+        endsAt,
+      });
+
+      if (delegate.toLowerCase() === address.toLowerCase()) {
+        toast.info(
+          `You can sign approvals on behalf of another approver from ${new Date(
+            Number(startsAt) * 1000
+          ).toLocaleString()} until ${new Date(
+            Number(endsAt) * 1000
+          ).toLocaleString()}.`
+        );
+      }
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.DELEGATIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.ACTIVE_DELEGATOR],
+      });
+    };
+
+    const handleDelegationRevoked: DelegationRevokedHandler = (
+      delegator,
+      delegate
+    ) => {
+      console.log('🔔 DelegationRevoked event:', { delegator, delegate });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.DELEGATIONS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.ACTIVE_DELEGATOR],
+      });
+    };
+
+    // Handle scheduler events. Occurrences arrive as regular
+    // TransactionCreated events, so only the schedule list needs refreshing.
+    const handleScheduleCreated: ScheduleCreatedHandler = (
+      scheduleId,
+      owner,
+      to,
+      amount,
+      interval
+    ) => {
+      if (owner.toLowerCase() !== address.toLowerCase()) return;
+
+      console.log('🔔 ScheduleCreated event:', {
+        scheduleId,
+        owner,
+        to,
+        amount,
+        interval,
+      });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SCHEDULES] });
+    };
+
+    const handleScheduleExecuted: ScheduleExecutedHandler = (
+      scheduleId,
+      transactionId,
+      occurrence
+    ) => {
+      console.log('🔔 ScheduleExecuted event:', {
+        scheduleId,
+        transactionId,
+        occurrence,
+      });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SCHEDULES] });
+    };
+
+    const handleScheduleEnded: ScheduleEndedHandler = (scheduleId) => {
+      console.log('🔔 Schedule ended:', { scheduleId });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SCHEDULES] });
+    };
+
+    // Handle spending limit changes
+    const handleRoleLimitUpdated: RoleLimitUpdatedHandler = (
+      role,
+      daily,
+      monthly
+    ) => {
+      console.log('🔔 RoleLimitUpdated event:', { role, daily, monthly });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SPENDING_LIMITS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT],
+      });
+    };
+
+    const handleUserLimitUpdated: UserLimitUpdatedHandler = (
+      user,
+      daily,
+      monthly
+    ) => {
+      console.log('🔔 UserLimitUpdated event:', { user, daily, monthly });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SPENDING_LIMITS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT, user],
+      });
+    };
+
+    const handleUserLimitRemoved: UserLimitRemovedHandler = (user) => {
+      console.log('🔔 UserLimitRemoved event:', { user });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.SPENDING_LIMITS] });
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.REMAINING_LIMIT, user],
+      });
+    };
+
+    // Handle TokenAllowlistUpdated event
+    const handleTokenAllowlistUpdated: TokenAllowlistUpdatedHandler = (
+      token,
+      allowed
+    ) => {
+      console.log('🔔 TokenAllowlistUpdated event:', { token, allowed });
+
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TOKENS] });
+    };
+
+    // Handle TransactionSettled event
+    const handleTransactionSettled: TransactionSettledHandler = (
+      transactionId,
+      token,
+      from,
+      to,
+      amount
+    ) => {
+      console.log('🔔 TransactionSettled event:', {
+        transactionId,
+        token,
+        from,
+        to,
+        amount,
+      });
+
+      // Invalidate settlement details and token balances
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.SETTLEMENT, Number(transactionId)],
+      });
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TOKEN_BALANCE] });
+    };
+
+    // Handle token Transfer event
+    const handleTokenTransfer: TokenTransferHandler = (from, to, value) => {
+      const isInvolved =
+        from.toLowerCase() === address.toLowerCase() ||
+        to.toLowerCase() === address.toLowerCase();
+      if (!isInvolved) return;
+
+      console.log('🔔 Token Transfer event:', { from, to, value });
+
+      // Refresh balances shown in the header, dashboard and forms
+      queryClient.invalidateQueries({ queryKey: [QUERY_KEYS.TOKEN_BALANCE] });
+    };
+
+    // Handle token Approval event
+    const handleTokenApproval: TokenApprovalHandler = (
+      owner,
+      spender,
+      value
+    ) => {
+      if (owner.toLowerCase() !== address.toLowerCase()) return;
+
+      console.log('🔔 Token Approval event:', { owner, spender, value });
+
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_KEYS.TOKEN_ALLOWANCE],
+      });
     };
 
     // --- Set up event listeners on the contract ---
@@ -190,7 +572,30 @@ export const useContractEvents = () => {
       contract.on('TransactionStatusUpdated', handleTransactionStatusUpdated);
       contract.on('ApprovalRequested', handleApprovalRequested);
       contract.on('ApprovalProcessed', handleApprovalProcessed);
+      contract.on('ApprovalSigned', handleApprovalSigned);
       contract.on('UserRegistered', handleUserRegistered);
+      contract.on('UserRoleUpdated', handleUserRoleUpdated);
+      contract.on('UserProfileUpdated', handleUserProfileUpdated);
+      contract.on('UserDeactivated', handleUserDeactivated);
+      contract.on('UserReactivated', handleUserReactivated);
+      contract.on('TransactionSettled', handleTransactionSettled);
+
+      token?.on('Transfer', handleTokenTransfer);
+      token?.on('Approval', handleTokenApproval);
+
+      scheduler?.on('ScheduleCreated', handleScheduleCreated);
+      scheduler?.on('ScheduleExecuted', handleScheduleExecuted);
+      scheduler?.on('ScheduleCancelled', handleScheduleEnded);
+      scheduler?.on('ScheduleCompleted', handleScheduleEnded);
+
+      limits?.on('RoleLimitUpdated', handleRoleLimitUpdated);
+      limits?.on('UserLimitUpdated', handleUserLimitUpdated);
+      limits?.on('UserLimitRemoved', handleUserLimitRemoved);
+
+      allowlist?.on('TokenAllowlistUpdated', handleTokenAllowlistUpdated);
+
+      delegation?.on('ApprovalDelegated', handleApprovalDelegated);
+      delegation?.on('DelegationRevoked', handleDelegationRevoked);
 
       console.log('📡 Contract event listeners set up');
     } catch (error) {
@@ -207,7 +612,30 @@ export const useContractEvents = () => {
         );
         contract.off('ApprovalRequested', handleApprovalRequested);
         contract.off('ApprovalProcessed', handleApprovalProcessed);
+        contract.off('ApprovalSigned', handleApprovalSigned);
         contract.off('UserRegistered', handleUserRegistered);
+        contract.off('UserRoleUpdated', handleUserRoleUpdated);
+        contract.off('UserProfileUpdated', handleUserProfileUpdated);
+        contract.off('UserDeactivated', handleUserDeactivated);
+        contract.off('UserReactivated', handleUserReactivated);
+        contract.off('TransactionSettled', handleTransactionSettled);
+
+        token?.off('Transfer', handleTokenTransfer);
+        token?.off('Approval', handleTokenApproval);
+
+        scheduler?.off('ScheduleCreated', handleScheduleCreated);
+        scheduler?.off('ScheduleExecuted', handleScheduleExecuted);
+        scheduler?.off('ScheduleCancelled', handleScheduleEnded);
+        scheduler?.off('ScheduleCompleted', handleScheduleEnded);
+
+        limits?.off('RoleLimitUpdated', handleRoleLimitUpdated);
+        limits?.off('UserLimitUpdated', handleUserLimitUpdated);
+        limits?.off('UserLimitRemoved', handleUserLimitRemoved);
+
+        allowlist?.off('TokenAllowlistUpdated', handleTokenAllowlistUpdated);
+
+        delegation?.off('ApprovalDelegated', handleApprovalDelegated);
+        delegation?.off('DelegationRevoked', handleDelegationRevoked);
 
         console.log('📡 Contract event listeners cleaned up');
       } catch (error) {
@@ -0,0 +1,81 @@
+// React Query hooks for the in-app notification inbox
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useWallet } from './useWallet';
+import { QUERY_KEYS, useUser } from './useContract';
+import { useApprovalAuthority } from './useApprovalAuthority';
+import {
+  markNotificationsRead,
+  syncNotifications,
+} from '@/lib/notifications/sync';
+import { NotificationInbox } from '@/lib/notifications/store';
+import { UserRole } from '@/types/contracts';
+
+/**
+ * Fetches the notification inbox for the connected account, backfilling
+ * contract events since the last block it has seen.
+ * Refetches every 30 seconds; contract events also trigger a refresh.
+ */
+export const useNotifications = () => {
+  const { provider, chainId, address } = useWallet();
+  const { data: user } = useUser(address || '');
+  const role = user?.role ?? UserRole.Regular;
+  // Delegates hear about the requests they can sign for their approver
+  const { delegator, delegatorUser } = useApprovalAuthority();
+  const delegation =
+    delegator && delegatorUser
+      ? { address: delegator, role: delegatorUser.role }
+      : undefined;
+
+  return useQuery({
+    queryKey: [
+      QUERY_KEYS.NOTIFICATIONS,
+      address,
+      role,
+      delegation?.address,
+      delegation?.role,
+      chainId,
+    ],
+    queryFn: async (): Promise<NotificationInbox | null> => {
+      if (!provider || !chainId || !address) return null;
+
+      try {
+        return await syncNotifications(
+          chainId,
+          provider,
+          address,
+          role,
+          delegation
+        );
+      } catch (error) {
+        console.error('Error syncing notifications:', error);
+        return null;
+      }
+    },
+    enabled: !!provider && !!chainId && !!address,
+    refetchInterval: 30000, // Refetch every 30 seconds
+  });
+};
+
+/**
+ * Marks notifications as read for the connected account. Pass no IDs to
+ * mark the whole inbox as read. Read state is stored locally per account.
+ */
+export const useMarkNotificationsRead = () => {
+  const { chainId, address } = useWallet();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (ids?: string[]) => {
+      if (!chainId || !address) throw new Error('Wallet not connected');
+
+      return markNotificationsRead(chainId, address, ids);
+    },
+    onSuccess: (inbox) => {
+      // Local-only change, so update the cache instead of re-syncing
+      queryClient.setQueriesData(
+        { queryKey: [QUERY_KEYS.NOTIFICATIONS, address] },
+        inbox
+      );
+    },
+  });
+};
@@ -0,0 +1,35 @@
+import { useState } from 'react';
+import { DEFAULT_PAGE_SIZE } from './useContract';
+
+export interface Pagination<T> {
+  page: number;
+  pageSize: number;
+  total: number;
+  pageItems: T[];
+  setPage: (page: number) => void;
+}
+
+/**
+ * Client-side pagination over an already loaded list (e.g. filtered index
+ * data). The current page is clamped when the list shrinks.
+ */
+export const usePagination = <T>(
+  items: T[],
+  pageSize = DEFAULT_PAGE_SIZE
+): Pagination<T> => {
+  const [page, setPage] = useState(0);
+
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+
+  return {
+    page: currentPage,
+    pageSize,
+    total: items.length,
+    pageItems: items.slice(
+      currentPage * pageSize,
+      (currentPage + 1) * pageSize
+    ),
+    setPage,
+  };
+};
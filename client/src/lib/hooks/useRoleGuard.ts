@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { useWallet } from './useWallet';
+import { useActiveDelegator, useUser } from './useContract';
+import { UserRole } from '@/types/contracts';
+
+/**
+ * Sends the user back to `redirectTo` when they lose a role the current page
+ * requires (e.g. demoted or deactivated while the page is open). Users who
+ * never had access see the page's own access-denied state instead. With
+ * `allowDelegates`, users covering for an approver through a delegation also
+ * have access. Deactivated users never do, as the contract revokes their roles.
+ */
+export const useRoleGuard = (
+  allowedRoles: UserRole[],
+  redirectTo = '/dashboard',
+  allowDelegates = false
+) => {
+  const router = useRouter();
+  const { address } = useWallet();
+  const { data: user } = useUser(address || '');
+  const { data: delegator } = useActiveDelegator(
+    allowDelegates ? address : undefined
+  );
+  const hadAccess = useRef(false);
+
+  const hasAccess =
+    !!user &&
+    user.isActive &&
+    (allowedRoles.includes(user.role) || !!delegator);
+
+  useEffect(() => {
+    if (hasAccess) {
+      hadAccess.current = true;
+      return;
+    }
+    if (!user || !hadAccess.current) return;
+
+    hadAccess.current = false;
+    toast.warning(
+      'Your role or account status has changed and you no longer have access here.'
+    );
+    router.replace(redirectTo);
+  }, [hasAccess, user, router, redirectTo]);
+
+  return hasAccess;
+};
@@ -0,0 +1,64 @@
+import { useCallback, useMemo } from 'react';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
+import { z } from 'zod';
+
+const isArrayField = (field: z.ZodType): boolean =>
+  (field instanceof z.ZodOptional ? field.unwrap() : field) instanceof
+  z.ZodArray;
+
+/**
+ * Filter state kept in the URL query string, so a filtered view can be
+ * bookmarked or shared. Each field of `schema` is read from the parameter
+ * of the same name (arrays comma-separated); invalid values are ignored.
+ */
+export const useUrlFilters = <Shape extends z.ZodRawShape>(
+  schema: z.ZodObject<Shape>
+) => {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+
+  const filters = useMemo(() => {
+    const parsed: Record<string, unknown> = {};
+    for (const [key, field] of Object.entries(schema.shape) as [
+      string,
+      z.ZodType,
+    ][]) {
+      const value = searchParams.get(key);
+      if (!value) continue;
+
+      const result = field.safeParse(
+        isArrayField(field) ? value.split(',').filter(Boolean) : value
+      );
+      if (result.success) parsed[key] = result.data;
+    }
+    return parsed as z.infer<z.ZodObject<Shape>>;
+  }, [schema, searchParams]);
+
+  // Merges `changes` into the current filters; empty values are removed
+  const setFilters = useCallback(
+    (changes: Partial<z.infer<z.ZodObject<Shape>>>) => {
+      const params = new URLSearchParams(searchParams.toString());
+      for (const [key, value] of Object.entries(changes)) {
+        const text = Array.isArray(value) ? value.join(',') : value;
+        if (text) {
+          params.set(key, String(text));
+        } else {
+          params.delete(key);
+        }
+      }
+      const query = params.toString();
+      router.replace(query ? `${pathname}?${query}` : pathname, {
+        scroll: false,
+      });
+    },
+    [pathname, router, searchParams]
+  );
+
+  const clearFilters = useCallback(
+    () => router.replace(pathname, { scroll: false }),
+    [pathname, router]
+  );
+
+  return { filters, setFilters, clearFilters };
+};
@@ -11,14 +11,24 @@ import React, {
 } from 'react';
 import {
   WalletState,
+  connectReadOnly,
   connectWallet,
   disconnectWallet,
   switchNetwork,
 } from '@/lib/web3/provider';
 
+// Persists the read-only session across page reloads
+const READ_ONLY_STORAGE_KEY = 'financial-platform-read-only';
+
+interface ReadOnlySession {
+  address: string;
+  chainId: number;
+}
+
 // Define the shape of the wallet context
 interface WalletContextType extends WalletState {
   connect: () => Promise<void>;
+  viewAsAddress: (address: string, chainId: number) => void;
   disconnect: () => void;
   switchNetwork: (chainId: number) => Promise<void>;
   isLoading: boolean;
@@ -37,6 +47,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   // State for wallet connection details
   const [walletState, setWalletState] = useState<WalletState>({
     isConnected: false,
+    isReadOnly: false,
     address: null,
     chainId: null,
     provider: null,
@@ -49,7 +60,24 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   // On mount, check if wallet is already connected (e.g., after page reload)
   useEffect(() => {
     const checkConnection = async () => {
-      if (typeof window === 'undefined' || !window.ethereum) return;
+      if (typeof window === 'undefined') return;
+
+      // Restore a read-only session; it takes precedence over MetaMask
+      const savedSession = localStorage.getItem(READ_ONLY_STORAGE_KEY);
+      if (savedSession) {
+        try {
+          const { address, chainId } = JSON.parse(
+            savedSession
+          ) as ReadOnlySession;
+          setWalletState(connectReadOnly(address, chainId));
+          return;
+        } catch (error) {
+          console.error('Error restoring read-only session:', error);
+          localStorage.removeItem(READ_ONLY_STORAGE_KEY);
+        }
+      }
+
+      if (!window.ethereum) return;
 
       try {
         // Request current accounts from MetaMask
@@ -73,6 +101,9 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
 
     // Handle account change (e.g., user switches account in MetaMask)
     const handleAccountsChanged = async (accounts: string[]) => {
+      // MetaMask changes don't affect a read-only session
+      if (walletState.isReadOnly) return;
+
       if (accounts.length === 0) {
         setWalletState(disconnectWallet()); // No accounts, disconnect
       } else if (walletState.address !== accounts[0]) {
@@ -82,7 +113,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
 
     // Handle network change (e.g., user switches chain in MetaMask)
     const handleChainChanged = async () => {
-      if (walletState.isConnected) {
+      if (walletState.isConnected && !walletState.isReadOnly) {
         await handleConnect(); // Reconnect to update chainId
       }
     };
@@ -100,7 +131,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
         window.ethereum.removeListener('chainChanged', handleChainChanged);
       }
     };
-  }, [walletState.address, walletState.isConnected]);
+  }, [walletState.address, walletState.isConnected, walletState.isReadOnly]);
 
   // Connect to wallet (MetaMask)
   const handleConnect = async () => {
@@ -109,6 +140,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
 
     try {
       const newWalletState = await connectWallet();
+      localStorage.removeItem(READ_ONLY_STORAGE_KEY);
       setWalletState(newWalletState);
     } catch (error: unknown) {
       // Show a user-friendly error message
@@ -121,14 +153,41 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
     }
   };
 
+  // Browse as any address through a direct JSON-RPC provider (no wallet)
+  const handleViewAsAddress = (address: string, chainId: number) => {
+    setError(null);
+
+    try {
+      const newWalletState = connectReadOnly(address, chainId);
+      const session: ReadOnlySession = {
+        address: newWalletState.address!,
+        chainId,
+      };
+      localStorage.setItem(READ_ONLY_STORAGE_KEY, JSON.stringify(session));
+      setWalletState(newWalletState);
+    } catch (error: unknown) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Failed to view address';
+      setError(errorMessage);
+      console.error('Read-only connection error:', error);
+    }
+  };
+
   // Disconnect wallet and clear state
   const handleDisconnect = () => {
+    localStorage.removeItem(READ_ONLY_STORAGE_KEY);
     setWalletState(disconnectWallet());
     setError(null);
   };
 
   // Switch Ethereum network (chain) in MetaMask
   const handleSwitchNetwork = async (chainId: number) => {
+    // Read-only sessions just reconnect to the other network's RPC URL
+    if (walletState.isReadOnly && walletState.address) {
+      handleViewAsAddress(walletState.address, chainId);
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
 
@@ -149,6 +208,7 @@ export const WalletProvider: React.FC<WalletProviderProps> = ({ children }) => {
   const contextValue: WalletContextType = {
     ...walletState,
     connect: handleConnect,
+    viewAsAddress: handleViewAsAddress,
     disconnect: handleDisconnect,
     switchNetwork: handleSwitchNetwork,
     isLoading,
@@ -0,0 +1,191 @@
+import { Transaction, User, ApprovalStatus } from '@/types/contracts';
+
+// Approval state replayed from ApprovalRequested / ApprovalProcessed logs
+export interface IndexedApproval {
+  id: bigint;
+  transactionId: bigint;
+  requester: string;
+  approver: string;
+  status: ApprovalStatus;
+}
+
+// In-memory view of everything indexed for one contract deployment
+export interface IndexSnapshot {
+  lastBlock: number;
+  // Hash of `lastBlock`, to tell when the chain under the index was replaced;
+  // null until something has been indexed
+  lastBlockHash: string | null;
+  transactions: Map<string, Transaction>;
+  users: Map<string, User>;
+  approvals: Map<string, IndexedApproval>;
+}
+
+// Keys of the records touched by a sync, so only those are written back
+export interface IndexChanges {
+  transactions: Set<string>;
+  users: Set<string>;
+  approvals: Set<string>;
+}
+
+const DB_NAME = 'financial-platform-index';
+const DB_VERSION = 1;
+const RECORD_STORES = ['transactions', 'users', 'approvals'] as const;
+const META_STORE = 'meta';
+
+type RecordStore = (typeof RECORD_STORES)[number];
+
+// Last indexed block per deployment, kept in the meta store
+interface IndexMeta {
+  lastBlock: number;
+  lastBlockHash: string | null;
+}
+
+export const createEmptySnapshot = (lastBlock = -1): IndexSnapshot => ({
+  lastBlock,
+  lastBlockHash: null,
+  transactions: new Map(),
+  users: new Map(),
+  approvals: new Map(),
+});
+
+// IndexedDB is unavailable during SSR and in some private browsing modes;
+// the indexer then keeps its snapshot in memory only
+const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const store of [...RECORD_STORES, META_STORE]) {
+        if (!db.objectStoreNames.contains(store)) {
+          db.createObjectStore(store);
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Records from every deployment share one database, keyed as `${scope}:${id}`
+const scopeRange = (scope: string) =>
+  IDBKeyRange.bound(`${scope}:`, `${scope}:\uffff`);
+
+const loadRecords = async <T>(
+  db: IDBDatabase,
+  store: RecordStore,
+  scope: string
+): Promise<Map<string, T>> => {
+  const objectStore = db.transaction(store, 'readonly').objectStore(store);
+  const [keys, values] = await Promise.all([
+    promisifyRequest(objectStore.getAllKeys(scopeRange(scope))),
+    promisifyRequest(objectStore.getAll(scopeRange(scope))),
+  ]);
+
+  const records = new Map<string, T>();
+  keys.forEach((key, i) => {
+    records.set(String(key).slice(scope.length + 1), values[i] as T);
+  });
+  return records;
+};
+
+/**
+ * Loads the persisted index for a deployment, or an empty snapshot starting
+ * at `startBlock` if nothing has been indexed yet.
+ */
+export const loadIndex = async (
+  scope: string,
+  startBlock = 0
+): Promise<IndexSnapshot> => {
+  if (!isIndexedDbAvailable()) return createEmptySnapshot(startBlock - 1);
+
+  const db = await openDatabase();
+  try {
+    const meta = db.transaction(META_STORE, 'readonly').objectStore(META_STORE);
+    const saved: IndexMeta | number | undefined = await promisifyRequest(
+      meta.get(scope)
+    );
+    if (saved === undefined) return createEmptySnapshot(startBlock - 1);
+
+    // Indexes saved before block hashes were kept only have the number
+    const { lastBlock, lastBlockHash }: IndexMeta =
+      typeof saved === 'number'
+        ? { lastBlock: saved, lastBlockHash: null }
+        : saved;
+
+    const [transactions, users, approvals] = await Promise.all([
+      loadRecords<Transaction>(db, 'transactions', scope),
+      loadRecords<User>(db, 'users', scope),
+      loadRecords<IndexedApproval>(db, 'approvals', scope),
+    ]);
+    return { lastBlock, lastBlockHash, transactions, users, approvals };
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Persists the changed records and the last indexed block in a single
+ * IndexedDB transaction, so an interrupted sync resumes cleanly.
+ */
+export const saveIndex = async (
+  scope: string,
+  snapshot: IndexSnapshot,
+  changes: IndexChanges
+): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([...RECORD_STORES, META_STORE], 'readwrite');
+    for (const store of RECORD_STORES) {
+      const objectStore = tx.objectStore(store);
+      const records = snapshot[store] as Map<string, unknown>;
+      changes[store].forEach((key) => {
+        objectStore.put(records.get(key), `${scope}:${key}`);
+      });
+    }
+    const meta: IndexMeta = {
+      lastBlock: snapshot.lastBlock,
+      lastBlockHash: snapshot.lastBlockHash,
+    };
+    tx.objectStore(META_STORE).put(meta, scope);
+
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Removes everything indexed for a deployment (e.g. after a local chain reset).
+ */
+export const clearIndex = async (scope: string): Promise<void> => {
+  if (!isIndexedDbAvailable()) return;
+
+  const db = await openDatabase();
+  try {
+    const tx = db.transaction([...RECORD_STORES, META_STORE], 'readwrite');
+    for (const store of RECORD_STORES) {
+      tx.objectStore(store).delete(scopeRange(scope));
+    }
+    tx.objectStore(META_STORE).delete(scope);
+
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
@@ -0,0 +1,252 @@
+import { EventLog, JsonRpcApiProvider, ethers } from 'ethers';
+import { getContract } from '@/lib/web3/provider';
+import {
+  CONTRACT_ADDRESSES,
+  INDEXER_START_BLOCKS,
+} from '@/constants/contracts';
+import { ApprovalStatus, Transaction, User } from '@/types/contracts';
+import {
+  IndexChanges,
+  IndexSnapshot,
+  clearIndex,
+  createEmptySnapshot,
+  loadIndex,
+  saveIndex,
+} from './store';
+
+// Maximum block range per eth_getLogs request
+export const LOG_CHUNK_SIZE = 5000;
+
+// Latest snapshot per deployment, so repeated syncs skip the IndexedDB read
+const snapshots = new Map<string, IndexSnapshot>();
+// Sync currently running per deployment; concurrent callers share it
+const inFlight = new Map<string, Promise<IndexSnapshot>>();
+
+export const toTransaction = (txData: Transaction): Transaction => ({
+  id: txData.id,
+  from: txData.from,
+  to: txData.to,
+  amount: txData.amount,
+  description: txData.description,
+  status: Number(txData.status),
+  timestamp: txData.timestamp,
+  approvalId: txData.approvalId,
+  token: txData.token,
+});
+
+export const toUser = (userData: User): User => ({
+  id: userData.id,
+  walletAddress: userData.walletAddress,
+  name: userData.name,
+  email: userData.email,
+  role: Number(userData.role),
+  isActive: userData.isActive,
+  createdAt: userData.createdAt,
+});
+
+const createChanges = (): IndexChanges => ({
+  transactions: new Set(),
+  users: new Set(),
+  approvals: new Set(),
+});
+
+/**
+ * Applies a single contract log to the snapshot. Records first seen in this
+ * sync are only collected in `created`; their full state is read afterwards,
+ * since events don't carry every field (e.g. description, email).
+ */
+const applyLog = (
+  snapshot: IndexSnapshot,
+  log: EventLog,
+  changes: IndexChanges,
+  created: { transactions: Set<string>; users: Set<string> }
+) => {
+  const { args } = log;
+
+  switch (log.eventName) {
+    case 'TransactionCreated':
+      created.transactions.add(args.transactionId.toString());
+      break;
+
+    case 'TransactionStatusUpdated': {
+      const key = args.transactionId.toString();
+      const transaction = snapshot.transactions.get(key);
+      if (transaction) {
+        transaction.status = Number(args.status);
+        changes.transactions.add(key);
+      }
+      break;
+    }
+
+    case 'ApprovalRequested': {
+      const key = args.approvalId.toString();
+      snapshot.approvals.set(key, {
+        id: args.approvalId,
+        transactionId: args.transactionId,
+        requester: args.requester,
+        approver: ethers.ZeroAddress,
+        status: ApprovalStatus.Pending,
+      });
+      changes.approvals.add(key);
+
+      const transaction = snapshot.transactions.get(
+        args.transactionId.toString()
+      );
+      if (transaction) {
+        transaction.approvalId = args.approvalId;
+        changes.transactions.add(args.transactionId.toString());
+      }
+      break;
+    }
+
+    case 'ApprovalProcessed': {
+      const key = args.approvalId.toString();
+      const approval = snapshot.approvals.get(key);
+      if (approval) {
+        approval.status = Number(args.status);
+        approval.approver = args.approver;
+        changes.approvals.add(key);
+      }
+      break;
+    }
+
+    case 'UserRegistered':
+      created.users.add(args.walletAddress.toLowerCase());
+      break;
+
+    case 'UserRoleUpdated':
+    case 'UserDeactivated':
+    case 'UserReactivated':
+    case 'UserProfileUpdated': {
+      const key = args.userAddress.toLowerCase();
+      const user = snapshot.users.get(key);
+      if (!user) break;
+
+      if (log.eventName === 'UserRoleUpdated') {
+        user.role = Number(args.newRole);
+      } else if (log.eventName === 'UserProfileUpdated') {
+        user.name = args.name;
+        user.email = args.email;
+      } else {
+        user.isActive = log.eventName === 'UserReactivated';
+      }
+      changes.users.add(key);
+      break;
+    }
+  }
+};
+
+/**
+ * Whether the chain no longer has the block `hash` was read from, i.e. it was
+ * reset (e.g. restarting Hardhat) since that block was indexed. Without a
+ * hash there's nothing to compare, so it counts as unchanged.
+ */
+export const isChainReset = async (
+  provider: JsonRpcApiProvider,
+  blockNumber: number,
+  hash: string | null | undefined
+): Promise<boolean> => {
+  if (!hash) return false;
+  const block = await provider.getBlock(blockNumber);
+  return block?.hash !== hash;
+};
+
+const runSync = async (
+  scope: string,
+  chainId: number,
+  provider: JsonRpcApiProvider
+): Promise<IndexSnapshot> => {
+  const startBlock = INDEXER_START_BLOCKS[chainId] ?? 0;
+  let snapshot = snapshots.get(scope) ?? (await loadIndex(scope, startBlock));
+
+  const latest = await provider.getBlock('latest');
+  if (!latest?.hash) throw new Error('Latest block not found');
+  const latestBlock = latest.number;
+
+  // Local chains get reset (e.g. restarting Hardhat); start over when the
+  // index is ahead of the chain or its last block has been replaced
+  if (
+    snapshot.lastBlock > latestBlock ||
+    (await isChainReset(provider, snapshot.lastBlock, snapshot.lastBlockHash))
+  ) {
+    await clearIndex(scope);
+    snapshot = createEmptySnapshot(startBlock - 1);
+  }
+  if (snapshot.lastBlock >= latestBlock) {
+    snapshots.set(scope, snapshot);
+    return snapshot;
+  }
+
+  const contract = getContract('financialPlatform', chainId, provider);
+  const changes = createChanges();
+  const created = {
+    transactions: new Set<string>(),
+    users: new Set<string>(),
+  };
+
+  for (
+    let fromBlock = snapshot.lastBlock + 1;
+    fromBlock <= latestBlock;
+    fromBlock += LOG_CHUNK_SIZE
+  ) {
+    const toBlock = Math.min(fromBlock + LOG_CHUNK_SIZE - 1, latestBlock);
+    const logs = await contract.queryFilter('*', fromBlock, toBlock);
+    for (const log of logs) {
+      if (log instanceof EventLog) {
+        applyLog(snapshot, log, changes, created);
+      }
+    }
+  }
+
+  // Read the full state of new records as of the indexed block
+  const overrides = { blockTag: latestBlock };
+  await Promise.all([
+    ...[...created.transactions].map(async (key) => {
+      const txData = await contract.getTransaction(key, overrides);
+      snapshot.transactions.set(key, toTransaction(txData));
+      changes.transactions.add(key);
+    }),
+    ...[...created.users].map(async (key) => {
+      const userData = await contract.getUser(key, overrides);
+      snapshot.users.set(key, toUser(userData));
+      changes.users.add(key);
+    }),
+  ]);
+
+  snapshot.lastBlock = latestBlock;
+  snapshot.lastBlockHash = latest.hash;
+  await saveIndex(scope, snapshot, changes);
+  snapshots.set(scope, snapshot);
+
+  console.log('🗂️ Indexed up to block', latestBlock, {
+    transactions: snapshot.transactions.size,
+    users: snapshot.users.size,
+  });
+
+  return snapshot;
+};
+
+/**
+ * Brings the local event index for the FinancialPlatform deployment on
+ * `chainId` up to the latest block and returns it. Replays contract logs
+ * from the last indexed block, so only new activity is fetched.
+ */
+export const syncIndex = (
+  chainId: number,
+  provider: JsonRpcApiProvider
+): Promise<IndexSnapshot> => {
+  const contractAddress = CONTRACT_ADDRESSES[chainId]?.financialPlatform;
+  if (!contractAddress) {
+    throw new Error(`Contract addresses not found for chain ID: ${chainId}`);
+  }
+
+  const scope = `${chainId}:${contractAddress.toLowerCase()}`;
+  const pending = inFlight.get(scope);
+  if (pending) return pending;
+
+  const sync = runSync(scope, chainId, provider).finally(() => {
+    inFlight.delete(scope);
+  });
+  inFlight.set(scope, sync);
+  return sync;
+};
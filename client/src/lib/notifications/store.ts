@@ -0,0 +1,54 @@
+import { AppNotification } from '@/types/contracts';
+
+// Notifications for one account on one deployment, newest first
+export interface NotificationInbox {
+  lastBlock: number;
+  // Hash of `lastBlock`, to tell when the chain was reset; missing until the
+  // inbox has been synced
+  lastBlockHash?: string;
+  notifications: AppNotification[];
+}
+
+const STORAGE_PREFIX = 'financial-platform-notifications';
+
+// Older notifications are dropped once the inbox grows past this
+export const MAX_NOTIFICATIONS = 100;
+
+export const createEmptyInbox = (lastBlock = -1): NotificationInbox => ({
+  lastBlock,
+  notifications: [],
+});
+
+// localStorage is unavailable during SSR
+const isStorageAvailable = (): boolean => typeof localStorage !== 'undefined';
+
+/**
+ * Loads the persisted inbox for an account, or an empty one starting at
+ * `startBlock` if the account hasn't been seen on this deployment yet.
+ */
+export const loadInbox = (scope: string, startBlock = 0): NotificationInbox => {
+  if (!isStorageAvailable()) return createEmptyInbox(startBlock - 1);
+
+  try {
+    const saved = localStorage.getItem(`${STORAGE_PREFIX}:${scope}`);
+    if (!saved) return createEmptyInbox(startBlock - 1);
+    return JSON.parse(saved) as NotificationInbox;
+  } catch (error) {
+    console.error('Error loading notifications:', error);
+    return createEmptyInbox(startBlock - 1);
+  }
+};
+
+/**
+ * Persists the inbox, keeping only the most recent notifications.
+ */
+export const saveInbox = (scope: string, inbox: NotificationInbox): void => {
+  if (!isStorageAvailable()) return;
+
+  const trimmed: NotificationInbox = {
+    lastBlock: inbox.lastBlock,
+    lastBlockHash: inbox.lastBlockHash,
+    notifications: inbox.notifications.slice(0, MAX_NOTIFICATIONS),
+  };
+  localStorage.setItem(`${STORAGE_PREFIX}:${scope}`, JSON.stringify(trimmed));
+};
@@ -0,0 +1,373 @@
+import { EventLog, JsonRpcApiProvider, ZeroAddress } from 'ethers';
+import {
+  formatAddress,
+  formatTokenBalance,
+  getContract,
+  getTokenContract,
+} from '@/lib/web3/provider';
+import {
+  CONTRACT_ADDRESSES,
+  INDEXER_START_BLOCKS,
+} from '@/constants/contracts';
+import { LOG_CHUNK_SIZE, isChainReset, syncIndex } from '@/lib/indexer/sync';
+import { IndexSnapshot } from '@/lib/indexer/store';
+import {
+  AppNotification,
+  ApprovalStatus,
+  TransactionStatus,
+  UserRole,
+} from '@/types/contracts';
+import {
+  NotificationInbox,
+  createEmptyInbox,
+  loadInbox,
+  saveInbox,
+} from './store';
+
+type NotificationContent = Pick<AppNotification, 'title' | 'message' | 'href'>;
+
+// Symbol and decimals keyed by lowercase Transaction.token (the zero address
+// for the settlement token)
+type TokenDetails = Map<string, { symbol: string; decimals: number }>;
+
+// Approver the account covers for through an active delegation
+export interface NotificationDelegation {
+  address: string;
+  role: UserRole;
+}
+
+// Transaction statuses as they read in a notification title
+const STATUS_LABELS: Partial<Record<TransactionStatus, string>> = {
+  [TransactionStatus.Active]: 'approved',
+  [TransactionStatus.Completed]: 'completed',
+  [TransactionStatus.Rejected]: 'rejected',
+  [TransactionStatus.Cancelled]: 'cancelled',
+  [TransactionStatus.Expired]: 'expired',
+};
+
+/**
+ * Turns a contract log into a notification for `account`, or null when the
+ * event doesn't concern them. Actions the account took itself are skipped.
+ */
+const describeLog = (
+  log: EventLog,
+  account: string,
+  role: UserRole,
+  delegation: NotificationDelegation | undefined,
+  index: IndexSnapshot,
+  tokens: TokenDetails,
+  approverRoles: Map<string, UserRole>
+): NotificationContent | null => {
+  const { args } = log;
+  const isAccount = (value: string) => value.toLowerCase() === account;
+
+  switch (log.eventName) {
+    case 'TransactionCreated': {
+      if (!isAccount(args.to) || isAccount(args.from)) return null;
+      const token = tokens.get(
+        index.transactions.get(args.transactionId.toString())?.token ?? ''
+      );
+      const amount = token
+        ? `${formatTokenBalance(args.amount, token.decimals)} ${token.symbol}`
+        : formatTokenBalance(args.amount);
+      return {
+        title: 'Incoming transaction',
+        message: `${formatAddress(args.from)} created transaction #${
+          args.transactionId
+        } for ${amount}`,
+        href: `/transactions/${args.transactionId}`,
+      };
+    }
+
+    case 'TransactionStatusUpdated': {
+      const transaction = index.transactions.get(
+        args.transactionId.toString()
+      );
+      const label = STATUS_LABELS[Number(args.status) as TransactionStatus];
+      if (!transaction || !label) return null;
+      if (!isAccount(transaction.from) && !isAccount(transaction.to)) {
+        return null;
+      }
+      return {
+        title: `Transaction #${args.transactionId} ${label}`,
+        message: `${transaction.description} is now ${label}`,
+        href: `/transactions/${args.transactionId}`,
+      };
+    }
+
+    case 'ApprovalRequested': {
+      if (isAccount(args.requester)) return null;
+
+      // Role and config requests (no transaction) and admin-tier
+      // transactions are signed by admins only. Delegates cover their
+      // approver's transactions but can't sign for the requester themselves.
+      const isTransaction = args.transactionId.toString() !== '0';
+      const approverRole =
+        approverRoles.get(args.approvalId.toString()) ?? UserRole.Manager;
+      const canSign = (signerRole: UserRole) =>
+        signerRole === UserRole.Admin ||
+        (signerRole === UserRole.Manager &&
+          isTransaction &&
+          approverRole !== UserRole.Admin);
+      const canReview =
+        canSign(role) ||
+        (!!delegation &&
+          isTransaction &&
+          delegation.address.toLowerCase() !== args.requester.toLowerCase() &&
+          canSign(delegation.role));
+      if (!canReview) return null;
+
+      const requester = formatAddress(args.requester);
+      return {
+        title: 'Approval requested',
+        message: isTransaction
+          ? `${requester} requested approval for transaction #${args.transactionId}`
+          : `${requester} requested a role or config change`,
+        href: '/approvals',
+      };
+    }
+
+    case 'ApprovalProcessed': {
+      // Transaction approvals are reported through TransactionStatusUpdated
+      const approval = index.approvals.get(args.approvalId.toString());
+      if (!approval || approval.transactionId.toString() !== '0') return null;
+      if (!isAccount(approval.requester) || isAccount(args.approver)) {
+        return null;
+      }
+
+      const statusText = ApprovalStatus[Number(args.status)].toLowerCase();
+      return {
+        title: `Request #${args.approvalId} ${statusText}`,
+        message:
+          Number(args.status) === ApprovalStatus.Expired
+            ? 'Your request expired before it was approved'
+            : `${formatAddress(args.approver)} ${statusText} your request`,
+        href: '/approvals',
+      };
+    }
+
+    case 'UserRoleUpdated':
+      if (!isAccount(args.userAddress)) return null;
+      return {
+        title: 'Role updated',
+        message: `Your role is now ${UserRole[Number(args.newRole)]}`,
+        href: '/dashboard',
+      };
+
+    case 'UserDeactivated':
+      if (!isAccount(args.userAddress)) return null;
+      return {
+        title: 'Account deactivated',
+        message: 'An administrator deactivated your account',
+      };
+
+    case 'UserReactivated':
+      if (!isAccount(args.userAddress)) return null;
+      return {
+        title: 'Account reactivated',
+        message: 'An administrator reactivated your account',
+        href: '/dashboard',
+      };
+
+    case 'UserProfileUpdated':
+      if (!isAccount(args.userAddress) || isAccount(args.updatedBy)) {
+        return null;
+      }
+      return {
+        title: 'Profile updated',
+        message: `${formatAddress(args.updatedBy)} updated your profile`,
+      };
+  }
+
+  return null;
+};
+
+// Looks up every token the indexed transactions are in; tokens that can't be
+// read are left out
+const loadTokenDetails = async (
+  index: IndexSnapshot,
+  chainId: number,
+  provider: JsonRpcApiProvider
+): Promise<TokenDetails> => {
+  const contract = getContract('financialPlatform', chainId, provider);
+  const settlementToken: string = await contract.settlementToken();
+  const addresses = new Set(
+    [...index.transactions.values()].map((tx) => tx.token.toLowerCase())
+  );
+
+  const tokens: TokenDetails = new Map();
+  await Promise.all(
+    [...addresses].map(async (address) => {
+      const tokenAddress = address === ZeroAddress ? settlementToken : address;
+      if (tokenAddress === ZeroAddress) return;
+      try {
+        const token = getTokenContract(tokenAddress, provider);
+        const [symbol, decimals] = await Promise.all([
+          token.symbol(),
+          token.decimals(),
+        ]);
+        tokens.set(address, { symbol, decimals: Number(decimals) });
+      } catch (error) {
+        console.error('Error fetching token details:', error);
+      }
+    })
+  );
+  return tokens;
+};
+
+// Inbox key: one inbox per account per deployment
+export const getInboxScope = (chainId: number, account: string): string => {
+  const contractAddress = CONTRACT_ADDRESSES[chainId]?.financialPlatform;
+  if (!contractAddress) {
+    throw new Error(`Contract addresses not found for chain ID: ${chainId}`);
+  }
+  return `${chainId}:${contractAddress.toLowerCase()}:${account.toLowerCase()}`;
+};
+
+/**
+ * Brings the notification inbox for `account` up to the latest block.
+ * Contract logs are scanned from the last block the inbox has seen, so
+ * events emitted while the app was closed are backfilled. Approval requests
+ * are matched against the account's role and, for delegates, the role of
+ * the approver they currently cover for.
+ */
+export const syncNotifications = async (
+  chainId: number,
+  provider: JsonRpcApiProvider,
+  accountAddress: string,
+  role: UserRole,
+  delegation?: NotificationDelegation
+): Promise<NotificationInbox> => {
+  const scope = getInboxScope(chainId, accountAddress);
+  const startBlock = INDEXER_START_BLOCKS[chainId] ?? 0;
+  let inbox = loadInbox(scope, startBlock);
+
+  const latest = await provider.getBlock('latest');
+  if (!latest?.hash) throw new Error('Latest block not found');
+  const latestBlock = latest.number;
+
+  // The chain was reset (e.g. restarting Hardhat); start over
+  if (
+    inbox.lastBlock > latestBlock ||
+    (await isChainReset(provider, inbox.lastBlock, inbox.lastBlockHash))
+  ) {
+    inbox = createEmptyInbox(startBlock - 1);
+  }
+  if (inbox.lastBlock >= latestBlock) return inbox;
+
+  // Transaction parties and approval requesters come from the event index
+  const index = await syncIndex(chainId, provider);
+  const tokens = await loadTokenDetails(index, chainId, provider);
+  const contract = getContract('financialPlatform', chainId, provider);
+  const account = accountAddress.toLowerCase();
+  // Approval tiers aren't in the event; they only matter to Managers
+  const needsTiers =
+    role === UserRole.Manager || delegation?.role === UserRole.Manager;
+  const approverRoles = new Map<string, UserRole>();
+
+  const found: { log: EventLog; content: NotificationContent }[] = [];
+  for (
+    let fromBlock = inbox.lastBlock + 1;
+    fromBlock <= latestBlock;
+    fromBlock += LOG_CHUNK_SIZE
+  ) {
+    const toBlock = Math.min(fromBlock + LOG_CHUNK_SIZE - 1, latestBlock);
+    const logs = await contract.queryFilter('*', fromBlock, toBlock);
+    if (needsTiers) {
+      await Promise.all(
+        logs.map(async (log) => {
+          if (
+            !(log instanceof EventLog) ||
+            log.eventName !== 'ApprovalRequested' ||
+            log.args.transactionId.toString() === '0'
+          ) {
+            return;
+          }
+          const approval = await contract.getApproval(log.args.approvalId);
+          approverRoles.set(
+            log.args.approvalId.toString(),
+            Number(approval.approverRole) as UserRole
+          );
+        })
+      );
+    }
+    for (const log of logs) {
+      if (!(log instanceof EventLog)) continue;
+      const content = describeLog(
+        log,
+        account,
+        role,
+        delegation,
+        index,
+        tokens,
+        approverRoles
+      );
+      if (content) found.push({ log, content });
+    }
+  }
+
+  // Block timestamps for the new notifications
+  const blockNumbers = [...new Set(found.map(({ log }) => log.blockNumber))];
+  const timestamps = new Map<number, number>();
+  await Promise.all(
+    blockNumbers.map(async (blockNumber) => {
+      const block = await provider.getBlock(blockNumber);
+      timestamps.set(blockNumber, block?.timestamp ?? 0);
+    })
+  );
+
+  const notifications: AppNotification[] = found
+    .map(({ log, content }) => ({
+      ...content,
+      id: `${log.transactionHash}:${log.index}`,
+      blockNumber: log.blockNumber,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+      read: false,
+    }))
+    .reverse();
+
+  // Keep anything marked as read while the sync was running
+  const readIds = new Set(
+    loadInbox(scope, startBlock)
+      .notifications.filter((notification) => notification.read)
+      .map((notification) => notification.id)
+  );
+
+  inbox = {
+    lastBlock: latestBlock,
+    lastBlockHash: latest.hash,
+    notifications: [...notifications, ...inbox.notifications].map(
+      (notification) =>
+        readIds.has(notification.id)
+          ? { ...notification, read: true }
+          : notification
+    ),
+  };
+  saveInbox(scope, inbox);
+
+  return inbox;
+};
+
+/**
+ * Marks the given notifications (or all of them) as read in local storage.
+ */
+export const markNotificationsRead = (
+  chainId: number,
+  account: string,
+  ids?: string[]
+): NotificationInbox => {
+  const scope = getInboxScope(chainId, account);
+  const inbox = loadInbox(scope);
+
+  const updated: NotificationInbox = {
+    ...inbox,
+    notifications: inbox.notifications.map((notification) =>
+      !ids || ids.includes(notification.id)
+        ? { ...notification, read: true }
+        : notification
+    ),
+  };
+  saveInbox(scope, updated);
+
+  return updated;
+};
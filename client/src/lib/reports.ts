@@ -0,0 +1,169 @@
+// Spreadsheet exports of the transaction and approval tables
+import { ZeroAddress } from 'ethers';
+import { ExportFormat, exportTable } from '@/lib/export';
+import { formatTokenAmount } from '@/lib/web3/provider';
+import {
+  Approval,
+  ApprovalStatus,
+  ApprovalType,
+  TokenInfo,
+  Transaction,
+  TransactionStatus,
+  User,
+  UserRole,
+} from '@/types/contracts';
+
+// Contract timestamps (seconds) as ISO 8601 in UTC
+const toIsoTimestamp = (timestamp: bigint | number): string =>
+  new Date(Number(timestamp) * 1000).toISOString();
+
+// Export file name stamped with today's date, e.g. sent-transactions-2025-01-31
+const datedFilename = (name: string): string =>
+  `${name}-${new Date().toISOString().slice(0, 10)}`;
+
+// Registered user names keyed by lowercase address
+const getUserNames = (users: User[]) =>
+  new Map(users.map((user) => [user.walletAddress.toLowerCase(), user.name]));
+
+// Amount, token symbol and token address of a transaction, looked up in
+// `tokens` (from useTokens); unknown tokens fall back to 18 decimals
+const getTokenColumns = (transaction: Transaction, tokens: TokenInfo[]) => {
+  const token = tokens.find((info) =>
+    transaction.token === ZeroAddress
+      ? info.isSettlementToken
+      : info.address.toLowerCase() === transaction.token.toLowerCase()
+  );
+
+  return [
+    formatTokenAmount(transaction.amount, token?.decimals),
+    token?.symbol ?? '',
+    token?.address ?? transaction.token,
+  ];
+};
+
+/**
+ * Exports transactions with resolved user names, full-precision amounts
+ * in each transaction's token and enum status labels.
+ */
+export const exportTransactions = (
+  transactions: Transaction[],
+  users: User[],
+  tokens: TokenInfo[],
+  filename: string,
+  format: ExportFormat
+): void => {
+  const names = getUserNames(users);
+
+  exportTable(
+    datedFilename(filename),
+    [
+      'Transaction ID',
+      'Created (UTC)',
+      'From',
+      'From Address',
+      'To',
+      'To Address',
+      'Amount',
+      'Token',
+      'Token Address',
+      'Description',
+      'Status',
+      'Approval ID',
+    ],
+    transactions.map((tx) => [
+      tx.id,
+      toIsoTimestamp(tx.timestamp),
+      names.get(tx.from.toLowerCase()) ?? '',
+      tx.from,
+      names.get(tx.to.toLowerCase()) ?? '',
+      tx.to,
+      ...getTokenColumns(tx, tokens),
+      tx.description,
+      TransactionStatus[Number(tx.status)],
+      tx.approvalId.toString() !== '0' ? tx.approvalId : '',
+    ]),
+    format
+  );
+};
+
+// What an approval is for, with full addresses
+const describeApproval = (
+  approval: Approval,
+  transaction?: Transaction
+): string => {
+  if (approval.roleChange) {
+    return `Role change for ${approval.roleChange.userAddress} to ${
+      UserRole[approval.roleChange.newRole]
+    }`;
+  }
+  if (approval.settlementTokenChange) {
+    return `Settlement token change to ${approval.settlementTokenChange}`;
+  }
+  return transaction?.description ?? '';
+};
+
+/**
+ * Exports approval requests together with the transaction each one covers
+ * (looked up in `transactions` by ID), signature progress and reason.
+ */
+export const exportApprovals = (
+  approvals: Approval[],
+  transactions: Transaction[],
+  users: User[],
+  tokens: TokenInfo[],
+  filename: string,
+  format: ExportFormat
+): void => {
+  const names = getUserNames(users);
+  const transactionsById = new Map(
+    transactions.map((tx) => [tx.id.toString(), tx])
+  );
+
+  exportTable(
+    datedFilename(filename),
+    [
+      'Request ID',
+      'Type',
+      'Status',
+      'Requested (UTC)',
+      'Requester',
+      'Requester Address',
+      'Transaction ID',
+      'Amount',
+      'Token',
+      'Token Address',
+      'Recipient',
+      'Recipient Address',
+      'Details',
+      'Approvals',
+      'Required Approvals',
+      'Required Admin Approvals',
+      'Reason',
+    ],
+    approvals.map((approval) => {
+      const transaction =
+        Number(approval.approvalType) === ApprovalType.Transaction
+          ? transactionsById.get(approval.transactionId.toString())
+          : undefined;
+
+      return [
+        approval.id,
+        ApprovalType[Number(approval.approvalType)],
+        ApprovalStatus[Number(approval.status)],
+        toIsoTimestamp(approval.timestamp),
+        names.get(approval.requester.toLowerCase()) ?? '',
+        approval.requester,
+        transaction?.id ?? '',
+        ...(transaction ? getTokenColumns(transaction, tokens) : ['', '', '']),
+        transaction ? names.get(transaction.to.toLowerCase()) ?? '' : '',
+        transaction?.to ?? '',
+        describeApproval(approval, transaction),
+        approval.signatures.filter((sig) => sig.approved).length,
+        approval.requiredApprovals,
+        approval.requiredAdminApprovals,
+        approval.reason,
+      ];
+    }),
+    format
+  );
+};
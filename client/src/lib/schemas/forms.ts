@@ -17,6 +17,17 @@ export const registerUserSchema = z.object({
 
 export type RegisterUserFormData = z.infer<typeof registerUserSchema>;
 
+// Profile update schema
+export const updateProfileSchema = z.object({
+  name: z
+    .string()
+    .min(2, 'Name must be at least 2 characters')
+    .max(50, 'Name must be less than 50 characters'),
+  email: z.string().min(1, 'Email is required').email('Invalid email address'),
+});
+
+export type UpdateProfileFormData = z.infer<typeof updateProfileSchema>;
+
 // Transaction creation schema
 export const createTransactionSchema = z.object({
   to: z
@@ -38,6 +49,36 @@ export const createTransactionSchema = z.object({
 
 export type CreateTransactionFormData = z.infer<typeof createTransactionSchema>;
 
+// Recurring transaction schedule schema. Dates are datetime-local values;
+// an empty start means now and empty limits mean the schedule runs until
+// cancelled.
+export const SCHEDULE_INTERVALS = [
+  'daily',
+  'weekly',
+  'biweekly',
+  'monthly',
+] as const;
+
+export const createScheduleSchema = createTransactionSchema
+  .extend({
+    interval: z.enum(SCHEDULE_INTERVALS),
+    startsAt: z.string().optional(),
+    endsAt: z.string().optional(),
+    maxOccurrences: z
+      .string()
+      .regex(/^\d*$/, 'Must be a whole number')
+      .optional(),
+  })
+  .refine(
+    (data) =>
+      !data.endsAt ||
+      new Date(data.endsAt).getTime() >=
+        (data.startsAt ? new Date(data.startsAt).getTime() : Date.now()),
+    { message: 'End date must be after the start', path: ['endsAt'] }
+  );
+
+export type CreateScheduleFormData = z.infer<typeof createScheduleSchema>;
+
 // Approval processing schema
 export const processApprovalSchema = z.object({
   approved: z.boolean(),
@@ -60,20 +101,48 @@ export const updateUserRoleSchema = z.object({
 
 export type UpdateUserRoleFormData = z.infer<typeof updateUserRoleSchema>;
 
-// Search and filter schemas
-export const transactionFilterSchema = z.object({
+// Search and filter schemas. Filters are persisted in the URL query string,
+// so every field is optional and list fields are arrays of lowercase names.
+const filterDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Invalid date');
+
+const filterAmountSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,18})?$/, 'Amount must be a positive number');
+
+const baseFilterSchema = z.object({
   search: z.string().optional(),
-  status: z.string().optional(),
-  dateFrom: z.string().optional(),
-  dateTo: z.string().optional(),
+  dateFrom: filterDateSchema.optional(),
+  dateTo: filterDateSchema.optional(),
+  minAmount: filterAmountSchema.optional(),
+  maxAmount: filterAmountSchema.optional(),
+  counterparty: z.string().optional(),
+  sortDir: z.enum(['asc', 'desc']).optional(),
+});
+
+export const transactionFilterSchema = baseFilterSchema.extend({
+  status: z
+    .array(
+      z.enum([
+        'pending',
+        'active',
+        'completed',
+        'rejected',
+        'cancelled',
+        'expired',
+      ])
+    )
+    .optional(),
+  sortBy: z.enum(['date', 'amount', 'status', 'description']).optional(),
 });
 
 export type TransactionFilterFormData = z.infer<typeof transactionFilterSchema>;
 
-export const approvalFilterSchema = z.object({
-  search: z.string().optional(),
-  status: z.string().optional(),
-  type: z.string().optional(),
+// Only pending approvals are listed, so approvals filter by type, not status
+export const approvalFilterSchema = baseFilterSchema.extend({
+  type: z.array(z.enum(['transaction', 'userrole', 'systemconfig'])).optional(),
+  sortBy: z.enum(['date', 'amount', 'id', 'expires']).optional(),
 });
 
 export type ApprovalFilterFormData = z.infer<typeof approvalFilterSchema>;
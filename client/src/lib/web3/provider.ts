@@ -3,18 +3,38 @@ import {
   BrowserProvider,
   JsonRpcSigner,
   Contract,
+  ContractRunner,
+  InterfaceAbi,
   JsonRpcApiProvider,
+  JsonRpcProvider,
+  TransactionRequest,
+  makeError,
 } from 'ethers';
 import { NETWORKS, SUPPORTED_CHAIN_IDS } from '@/constants/networks';
-import { CONTRACT_ADDRESSES } from '@/constants/contracts';
-import { FINANCIAL_PLATFORM_ABI, MOCK_TOKEN_ABI } from '@/constants/abis';
+import {
+  CONTRACT_ADDRESSES,
+  MULTICALL3_ADDRESS,
+  MULTICALL_BATCH_SIZE,
+} from '@/constants/contracts';
+import {
+  FINANCIAL_PLATFORM_ABI,
+  MOCK_TOKEN_ABI,
+  MULTICALL3_ABI,
+  SPENDING_LIMITS_ABI,
+  TOKEN_ALLOWLIST_ABI,
+  APPROVAL_DELEGATION_ABI,
+  TRANSACTION_SCHEDULER_ABI,
+} from '@/constants/abis';
+import { ContractAddresses } from '@/types/contracts';
 
-// Wallet connection state
+// Wallet connection state. In read-only mode `provider` is a direct JSON-RPC
+// provider, `address` is the account being viewed and there is no signer.
 export interface WalletState {
   isConnected: boolean;
+  isReadOnly: boolean;
   address: string | null;
   chainId: number | null;
-  provider: BrowserProvider | null;
+  provider: JsonRpcApiProvider | null;
   signer: JsonRpcSigner | null;
 }
 
@@ -44,6 +64,14 @@ export const getProvider = async (): Promise<BrowserProvider | null> => {
   }
 };
 
+// Get a direct JSON-RPC provider for a supported network (no wallet needed)
+export const getReadOnlyProvider = (chainId: number): JsonRpcProvider => {
+  const network = Object.values(NETWORKS).find((n) => n.chainId === chainId);
+  if (!network) throw new Error('Network not supported');
+
+  return new JsonRpcProvider(network.rpcUrl, chainId, { staticNetwork: true });
+};
+
 // Get the current signer
 export const getSigner = async (): Promise<JsonRpcSigner | null> => {
   const provider = await getProvider();
@@ -84,6 +112,7 @@ export const connectWallet = async (): Promise<WalletState> => {
 
     return {
       isConnected: true,
+      isReadOnly: false,
       address,
       chainId,
       provider,
@@ -95,10 +124,31 @@ export const connectWallet = async (): Promise<WalletState> => {
   }
 };
 
+// Browse the platform as `address` through the network's RPC URL, without
+// a wallet. Transactions can't be sent in this mode.
+export const connectReadOnly = (
+  address: string,
+  chainId: number
+): WalletState => {
+  if (!ethers.isAddress(address)) {
+    throw new Error('Invalid address');
+  }
+
+  return {
+    isConnected: true,
+    isReadOnly: true,
+    address: ethers.getAddress(address),
+    chainId,
+    provider: getReadOnlyProvider(chainId),
+    signer: null,
+  };
+};
+
 // Disconnect wallet
 export const disconnectWallet = (): WalletState => {
   return {
     isConnected: false,
+    isReadOnly: false,
     address: null,
     chainId: null,
     provider: null,
@@ -162,11 +212,142 @@ export const isSupportedNetwork = (chainId: number): boolean => {
   return SUPPORTED_CHAIN_IDS.includes(chainId);
 };
 
+// A read queued for the next Multicall3 batch
+interface PendingCall {
+  tx: TransactionRequest;
+  resolve: (result: string) => void;
+  reject: (error: unknown) => void;
+}
+
+// Sends one chunk of reads as a single aggregate3 call, settling each read
+// with its own result so a revert only fails the call that caused it
+const sendBatch = async (
+  provider: JsonRpcApiProvider,
+  multicall: Contract,
+  calls: PendingCall[]
+) => {
+  const blockTag = calls[0].tx.blockTag;
+
+  // Nothing to aggregate
+  if (calls.length === 1) {
+    provider.call(calls[0].tx).then(calls[0].resolve, calls[0].reject);
+    return;
+  }
+
+  try {
+    const results = await multicall.aggregate3.staticCall(
+      calls.map(({ tx }) => ({
+        target: tx.to,
+        allowFailure: true,
+        callData: tx.data,
+      })),
+      { blockTag }
+    );
+
+    results.forEach(
+      ([success, returnData]: [boolean, string], i: number) => {
+        const { tx, resolve, reject } = calls[i];
+        if (success) {
+          resolve(returnData);
+          return;
+        }
+        // Same error shape as a direct eth_call revert, so Contract can
+        // decode the revert reason
+        reject(
+          makeError('execution reverted', 'CALL_EXCEPTION', {
+            action: 'call',
+            data: returnData,
+            reason: null,
+            transaction: { to: String(tx.to), data: String(tx.data) },
+            invocation: null,
+            revert: null,
+          })
+        );
+      }
+    );
+  } catch (error) {
+    // Multicall3 is missing on this chain; fall back to individual calls
+    console.warn('Multicall batch failed, sending calls individually:', error);
+    calls.forEach(({ tx, resolve, reject }) => {
+      provider.call(tx).then(resolve, reject);
+    });
+  }
+};
+
+// Read-only runner that queues the eth_calls made during one tick and sends
+// them as Multicall3 batches, grouped by block tag
+const createBatchedRunner = (
+  provider: JsonRpcApiProvider
+): ContractRunner => {
+  const multicall = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  let queue: PendingCall[] = [];
+
+  const flush = () => {
+    const calls = queue;
+    queue = [];
+
+    const byBlockTag = new Map<string, PendingCall[]>();
+    for (const call of calls) {
+      const key = String(call.tx.blockTag ?? 'latest');
+      byBlockTag.set(key, [...(byBlockTag.get(key) ?? []), call]);
+    }
+
+    byBlockTag.forEach((group) => {
+      for (let i = 0; i < group.length; i += MULTICALL_BATCH_SIZE) {
+        const chunk = group.slice(i, i + MULTICALL_BATCH_SIZE);
+        sendBatch(provider, multicall, chunk);
+      }
+    });
+  };
+
+  return {
+    provider,
+    call: (tx: TransactionRequest): Promise<string> => {
+      // Calls depending on msg.sender or value can't be proxied by Multicall3
+      if (tx.from || tx.value) return provider.call(tx);
+
+      return new Promise((resolve, reject) => {
+        queue.push({ tx, resolve, reject });
+        if (queue.length === 1) setTimeout(flush, 0);
+      });
+    },
+  };
+};
+
+// One runner per provider, so reads from every hook share the same batches
+const batchedRunners = new WeakMap<JsonRpcApiProvider, ContractRunner>();
+
+const getBatchedRunner = (provider: JsonRpcApiProvider): ContractRunner => {
+  let runner = batchedRunners.get(provider);
+  if (!runner) {
+    runner = createBatchedRunner(provider);
+    batchedRunners.set(provider, runner);
+  }
+  return runner;
+};
+
+// Reads through a provider are batched; a signer is used as-is for writes
+const resolveRunner = (
+  signerOrProvider: JsonRpcSigner | JsonRpcApiProvider
+): ContractRunner =>
+  signerOrProvider instanceof JsonRpcApiProvider
+    ? getBatchedRunner(signerOrProvider)
+    : signerOrProvider;
+
+const CONTRACT_ABIS: Record<keyof ContractAddresses, InterfaceAbi> = {
+  financialPlatform: FINANCIAL_PLATFORM_ABI,
+  mockToken: MOCK_TOKEN_ABI,
+  transactionScheduler: TRANSACTION_SCHEDULER_ABI,
+  spendingLimits: SPENDING_LIMITS_ABI,
+  tokenAllowlist: TOKEN_ALLOWLIST_ABI,
+  approvalDelegation: APPROVAL_DELEGATION_ABI,
+};
+
 // Get contract instance
 export const getContract = (
-  contractName: 'financialPlatform' | 'mockToken',
+  contractName: keyof ContractAddresses,
   chainId: number,
-  signerOrProvider: JsonRpcSigner | BrowserProvider
+  signerOrProvider: JsonRpcSigner | JsonRpcApiProvider
 ): Contract => {
   const addresses = CONTRACT_ADDRESSES[chainId];
   if (!addresses) {
@@ -180,12 +361,21 @@ export const getContract = (
     );
   }
 
-  const abi =
-    contractName === 'financialPlatform'
-      ? FINANCIAL_PLATFORM_ABI
-      : MOCK_TOKEN_ABI;
+  const abi = CONTRACT_ABIS[contractName];
 
-  return new Contract(address, abi, signerOrProvider);
+  return new Contract(address, abi, resolveRunner(signerOrProvider));
+};
+
+// Get an ERC-20 token contract instance at an arbitrary address
+export const getTokenContract = (
+  tokenAddress: string,
+  signerOrProvider: JsonRpcSigner | JsonRpcApiProvider
+): Contract => {
+  return new Contract(
+    tokenAddress,
+    MOCK_TOKEN_ABI,
+    resolveRunner(signerOrProvider)
+  );
 };
 
 // Format error messages
@@ -224,6 +414,17 @@ export const formatTokenAmount = (
   return ethers.formatUnits(amount, decimals);
 };
 
+// Format token amount for compact display (e.g. 10,000.5)
+export const formatTokenBalance = (
+  amount: bigint,
+  decimals: number = 18
+): string => {
+  return Number(ethers.formatUnits(amount, decimals)).toLocaleString(
+    undefined,
+    { maximumFractionDigits: 2 }
+  );
+};
+
 // Parse token amount
 export const parseTokenAmount = (
   amount: string,
@@ -10,12 +10,16 @@ export enum TransactionStatus {
   Active = 1,
   Completed = 2,
   Rejected = 3,
+  Cancelled = 4,
+  Expired = 5,
 }
 
 export enum ApprovalStatus {
   Pending = 0,
   Approved = 1,
   Rejected = 2,
+  Cancelled = 3,
+  Expired = 4,
 }
 
 export enum ApprovalType {
@@ -43,6 +47,19 @@ export interface Transaction {
   status: TransactionStatus;
   timestamp: bigint;
   approvalId: bigint;
+  // ERC-20 the amount is in, fixed at creation; the zero address for
+  // transactions created before a settlement token was set, which settle in it
+  token: string;
+}
+
+export interface ApprovalSignature {
+  approver: string;
+  // Account that signed on the approver's behalf, zero address if none
+  delegate: string;
+  approved: boolean;
+  isAdmin: boolean;
+  reason: string;
+  timestamp: bigint;
 }
 
 export interface Approval {
@@ -54,6 +71,100 @@ export interface Approval {
   status: ApprovalStatus;
   reason: string;
   timestamp: bigint;
+  requiredApprovals: bigint;
+  requiredAdminApprovals: bigint;
+  // Unix seconds after which the request can be expired; 0 = never
+  expiresAt: bigint;
+  // Lowest role that can sign: Manager for any approver, or Admin only
+  approverRole: UserRole;
+  signatures: ApprovalSignature[];
+  roleChange?: RoleChangeRequest;
+  settlementTokenChange?: string;
+}
+
+export interface RoleChangeRequest {
+  userAddress: string;
+  newRole: UserRole;
+}
+
+export interface ApprovalPolicy {
+  minAmount: bigint;
+  requiredApprovals: bigint;
+  requiredAdminApprovals: bigint;
+}
+
+// Amount tiers routing new transactions; see FinancialPlatform.setApprovalTiers
+export interface ApprovalTiers {
+  enabled: boolean;
+  autoApproveBelow: bigint;
+  adminApprovalFrom: bigint;
+}
+
+// Approval authority handed from an approver to another user for a period
+export interface Delegation {
+  delegator: string;
+  delegate: string;
+  startsAt: bigint;
+  endsAt: bigint;
+}
+
+// Recurring transaction template kept by the TransactionScheduler contract
+export interface Schedule {
+  id: bigint;
+  owner: string;
+  to: string;
+  token: string; // settlement token when the schedule was created
+  amount: bigint;
+  description: string;
+  interval: bigint;
+  nextRunAt: bigint;
+  endsAt: bigint; // 0 = no end date
+  maxOccurrences: bigint; // 0 = unlimited
+  occurrences: bigint;
+  active: boolean;
+}
+
+// Daily and monthly caps on what a user can send; 0 = unlimited
+export interface SpendingLimit {
+  daily: bigint;
+  monthly: bigint;
+}
+
+// A user's own spending limit, which replaces their role's
+export interface UserSpendingLimit extends SpendingLimit {
+  userAddress: string;
+}
+
+// What a user can still send today and this month (null when unlimited)
+export interface RemainingLimit {
+  daily: bigint | null;
+  monthly: bigint | null;
+}
+
+export interface TransactionSettlement {
+  transactionId: bigint;
+  token: string;
+  tokenSymbol: string;
+  tokenDecimals: number;
+  from: string;
+  to: string;
+  amount: bigint;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface TokenBalance {
+  balance: bigint;
+  symbol: string;
+  decimals: number;
+}
+
+// ERC-20 metadata used to display and parse amounts
+export interface TokenInfo {
+  address: string;
+  symbol: string;
+  decimals: number;
+  isSettlementToken: boolean;
 }
 
 // Contract Events
@@ -69,6 +180,22 @@ export interface UserRoleUpdatedEvent {
   newRole: UserRole;
 }
 
+export interface UserProfileUpdatedEvent {
+  userAddress: string;
+  updatedBy: string;
+  previousName: string;
+  previousEmail: string;
+  name: string;
+  email: string;
+}
+
+// A past profile change reconstructed from UserProfileUpdated logs
+export interface ProfileChange extends UserProfileUpdatedEvent {
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
 export interface TransactionCreatedEvent {
   transactionId: bigint;
   from: string;
@@ -93,6 +220,41 @@ export interface ApprovalProcessedEvent {
   approver: string;
 }
 
+export interface ApprovalSignedEvent {
+  approvalId: bigint;
+  approver: string;
+  approved: boolean;
+  approvalCount: bigint;
+}
+
+export interface TransactionSettledEvent {
+  transactionId: bigint;
+  token: string;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+// A step in a transaction's lifecycle, reconstructed from contract logs
+export type TimelineEventType =
+  | 'created'
+  | 'approvalRequested'
+  | 'approvalSigned'
+  | 'statusUpdated';
+
+export interface TransactionTimelineEvent {
+  type: TimelineEventType;
+  actor: string;
+  approvalId?: bigint;
+  approved?: boolean;
+  status?: TransactionStatus;
+  reason?: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
 // Contract Interface Types
 export interface FinancialPlatformContract {
   // Event listeners
@@ -199,8 +361,130 @@ export type UserRegisteredHandler = (
   name: string,
   role: number
 ) => void;
+export type UserRoleUpdatedHandler = (
+  userAddress: string,
+  newRole: number
+) => void;
+export type UserActivationHandler = (userAddress: string) => void;
+export type UserProfileUpdatedHandler = (
+  userAddress: string,
+  updatedBy: string,
+  previousName: string,
+  previousEmail: string,
+  name: string,
+  email: string
+) => void;
+export type ApprovalSignedHandler = (
+  approvalId: bigint,
+  approver: string,
+  approved: boolean,
+  approvalCount: bigint
+) => void;
+export type TransactionSettledHandler = (
+  transactionId: bigint,
+  token: string,
+  from: string,
+  to: string,
+  amount: bigint
+) => void;
+export type ApprovalDelegatedHandler = (
+  delegator: string,
+  delegate: string,
+  startsAt: bigint,
+  endsAt: bigint
+) => void;
+export type DelegationRevokedHandler = (
+  delegator: string,
+  delegate: string
+) => void;
+export type ScheduleCreatedHandler = (
+  scheduleId: bigint,
+  owner: string,
+  to: string,
+  amount: bigint,
+  interval: bigint
+) => void;
+export type ScheduleExecutedHandler = (
+  scheduleId: bigint,
+  transactionId: bigint,
+  occurrence: bigint
+) => void;
+export type RoleLimitUpdatedHandler = (
+  role: bigint,
+  daily: bigint,
+  monthly: bigint
+) => void;
+export type UserLimitUpdatedHandler = (
+  user: string,
+  daily: bigint,
+  monthly: bigint
+) => void;
+export type UserLimitRemovedHandler = (user: string) => void;
+export type TokenAllowlistUpdatedHandler = (
+  token: string,
+  allowed: boolean
+) => void;
+export type ScheduleEndedHandler = (scheduleId: bigint) => void;
+export type TokenTransferHandler = (
+  from: string,
+  to: string,
+  value: bigint
+) => void;
+export type TokenApprovalHandler = (
+  owner: string,
+  spender: string,
+  value: bigint
+) => void;
 
 // UI Types
+// In-app notification derived from a contract event
+export interface AppNotification {
+  id: string;
+  title: string;
+  message: string;
+  href?: string;
+  blockNumber: number;
+  timestamp: number;
+  read: boolean;
+}
+
+// One normalized row of the audit ledger, built from a contract event
+export interface AuditEntry {
+  id: string;
+  action: string;
+  actor: string;
+  target: string;
+  details: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+// Address saved by the user for a recipient who isn't a registered user
+export interface SavedContact {
+  address: string;
+  name: string;
+}
+
+// Reusable recipient/amount/description for the create transaction form.
+// The amount is kept as entered (in ETH).
+export interface TransactionTemplate {
+  id: string;
+  name: string;
+  to: string;
+  amount: string;
+  description: string;
+  // Missing on templates saved before transactions had a token
+  token?: string;
+}
+
+// One page of a paginated contract read, with the size of the full list
+export interface Page<T> {
+  items: T[];
+  total: number;
+}
+
 export interface DashboardMetrics {
   totalTransactions: number;
   pendingApprovals: number;
@@ -218,4 +502,8 @@ export interface NetworkConfig {
 export interface ContractAddresses {
   financialPlatform: string;
   mockToken: string;
+  transactionScheduler: string;
+  spendingLimits: string;
+  tokenAllowlist: string;
+  approvalDelegation: string;
 }
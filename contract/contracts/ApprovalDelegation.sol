@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./FinancialPlatform.sol";
+import "./IApprovalDelegation.sol";
+
+/**
+ * @title ApprovalDelegation
+ * @dev Lets FinancialPlatform approvers hand their approval authority to
+ * another registered user for a period, e.g. while they're away. The
+ * platform records the delegate's signatures under the approver.
+ */
+contract ApprovalDelegation is IApprovalDelegation {
+    // Approval authority an approver hands to another user for a period
+    struct Delegation {
+        address delegate;
+        uint256 startsAt;
+        uint256 endsAt;
+    }
+
+    FinancialPlatform public immutable platform;
+
+    // Approval delegation, by delegator and the reverse lookup by delegate
+    mapping(address => Delegation) public delegations;
+    mapping(address => address) public delegatorOf;
+
+    event ApprovalDelegated(address indexed delegator, address indexed delegate, uint256 startsAt, uint256 endsAt);
+    event DelegationRevoked(address indexed delegator, address indexed delegate);
+
+    constructor(FinancialPlatform platform_) {
+        platform = platform_;
+    }
+
+    /**
+     * @dev Let another registered user sign approvals on your behalf between
+     * startsAt and endsAt. Replaces any existing delegation of the caller.
+     * The delegate must not be an approver already, so no one gets two votes.
+     * Delegates sign transaction approvals with the delegator's role, admin
+     * tier included, but never role or config changes.
+     */
+    function delegateApprovals(address delegate, uint256 startsAt, uint256 endsAt) external {
+        require(_isActiveUser(msg.sender), "User not active");
+        require(_isApprover(msg.sender), "Not authorized");
+        require(delegate != msg.sender, "Cannot delegate to yourself");
+        require(_isActiveUser(delegate), "Delegate not active");
+        require(!_isApprover(delegate), "Delegate is already an approver");
+        require(endsAt > startsAt && endsAt > block.timestamp, "Invalid delegation period");
+
+        address current = delegatorOf[delegate];
+        require(
+            current == address(0) || current == msg.sender || delegations[current].endsAt <= block.timestamp,
+            "Delegate already covers another approver"
+        );
+
+        _clearDelegation(msg.sender);
+        delegations[msg.sender] = Delegation({delegate: delegate, startsAt: startsAt, endsAt: endsAt});
+        delegatorOf[delegate] = msg.sender;
+
+        emit ApprovalDelegated(msg.sender, delegate, startsAt, endsAt);
+    }
+
+    /**
+     * @dev End the caller's delegation early
+     */
+    function revokeDelegation() external {
+        require(delegations[msg.sender].delegate != address(0), "No delegation");
+        _clearDelegation(msg.sender);
+    }
+
+    /**
+     * @dev The approver `account` currently signs for, or address(0). A delegation
+     * lapses when its period ends or either party loses their standing.
+     */
+    function activeDelegator(address account) external view returns (address) {
+        address delegator = delegatorOf[account];
+        Delegation storage delegation = delegations[delegator];
+        if (
+            delegator == address(0) ||
+            block.timestamp < delegation.startsAt ||
+            block.timestamp >= delegation.endsAt ||
+            !platform.getUser(account).isActive ||
+            !_isApprover(delegator)
+        ) {
+            return address(0);
+        }
+        return delegator;
+    }
+
+    function _isActiveUser(address account) internal view returns (bool) {
+        return platform.registeredUsers(account) && platform.getUser(account).isActive;
+    }
+
+    function _isApprover(address account) internal view returns (bool) {
+        return platform.hasRole(platform.APPROVER_ROLE(), account);
+    }
+
+    function _clearDelegation(address delegator) internal {
+        address delegate = delegations[delegator].delegate;
+        if (delegate == address(0)) return;
+
+        if (delegatorOf[delegate] == delegator) {
+            delete delegatorOf[delegate];
+        }
+        delete delegations[delegator];
+        emit DelegationRevoked(delegator, delegate);
+    }
+}
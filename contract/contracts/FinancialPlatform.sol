@@ -3,17 +3,30 @@ pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/access/AccessControl.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./ISpendingLimits.sol";
+import "./ITokenAllowlist.sol";
+import "./IApprovalDelegation.sol";
 
 /**
  * @title FinancialPlatform
  * @dev Main contract for managing financial transactions, approvals, and users
  */
 contract FinancialPlatform is AccessControl, ReentrancyGuard {
+    using SafeERC20 for IERC20;
+
     // Role definitions
     bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
     bytes32 public constant APPROVER_ROLE = keccak256("APPROVER_ROLE");
     bytes32 public constant USER_ROLE = keccak256("USER_ROLE");
 
+    // Upper bound for paginated reads, keeps eth_call gas predictable
+    uint256 public constant MAX_PAGE_SIZE = 100;
+
+    // Upper bound for processApprovals, keeps a batch within the block gas limit
+    uint256 public constant MAX_APPROVAL_BATCH_SIZE = 50;
+
     // Counters for unique IDs (replaced Counters library with simple uint256)
     uint256 private _transactionIds;
     uint256 private _approvalIds;
@@ -29,6 +42,7 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
         TransactionStatus status;
         uint256 timestamp;
         uint256 approvalId;
+        address token; // ERC-20 the amount is in; 0 = created before a settlement token was set
     }
 
     struct Approval {
@@ -40,6 +54,41 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
         ApprovalStatus status;
         string reason;
         uint256 timestamp;
+        uint256 requiredApprovals;
+        uint256 requiredAdminApprovals;
+        uint256 expiresAt; // 0 = never expires
+        UserRole approverRole; // lowest role that can sign: Manager for any approver, or Admin
+    }
+
+    struct ApprovalSignature {
+        address approver;
+        address delegate; // signed on the approver's behalf, 0 if signed directly
+        bool approved;
+        bool isAdmin;
+        string reason;
+        uint256 timestamp;
+    }
+
+    // Approval thresholds applied to transactions with amount >= minAmount
+    struct ApprovalPolicy {
+        uint256 minAmount;
+        uint256 requiredApprovals;
+        uint256 requiredAdminApprovals;
+    }
+
+    // Amount tiers routing new transactions: below autoApproveBelow they are
+    // approved on creation, otherwise an approval is requested from approvers,
+    // or only from admins at adminApprovalFrom and above
+    struct ApprovalTiers {
+        bool enabled;
+        uint256 autoApproveBelow;
+        uint256 adminApprovalFrom;
+    }
+
+    // Pending role change attached to a UserRole approval
+    struct RoleChangeRequest {
+        address userAddress;
+        UserRole newRole;
     }
 
     struct User {
@@ -57,13 +106,17 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
         Pending,
         Active,
         Completed,
-        Rejected
+        Rejected,
+        Cancelled,
+        Expired
     }
 
     enum ApprovalStatus {
         Pending,
         Approved,
-        Rejected
+        Rejected,
+        Cancelled,
+        Expired
     }
 
     enum ApprovalType {
@@ -79,14 +132,54 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
     }
 
     // State variables
-    mapping(uint256 => Transaction) public transactions;
-    mapping(uint256 => Approval) public approvals;
-    mapping(address => User) public users;
+    mapping(uint256 => Transaction) internal transactions;
+    mapping(uint256 => Approval) internal approvals;
+    mapping(address => User) internal users;
     mapping(address => bool) public registeredUsers;
     
     // Add these two arrays for efficient iteration
-    address[] public allUserAddresses;
-    uint256[] public allTransactionIds;
+    address[] internal allUserAddresses;
+    uint256[] internal allTransactionIds;
+
+    // ERC-20 token used to settle completed transactions
+    IERC20 public settlementToken;
+
+    // Seconds a new approval request stays open before it can be expired; 0 disables expiry
+    uint256 public approvalDeadline;
+
+    // ERC-20 tokens transactions can be made in, besides the settlement token;
+    // address(0) allows only the settlement token
+    ITokenAllowlist public tokenAllowlist;
+
+    // Approval routing by transaction amount; manual requests when disabled
+    ApprovalTiers public approvalTiers;
+
+    // Optional caps on how much a user can send; address(0) disables them
+    ISpendingLimits public spendingLimits;
+    // Limits contract each transaction's amount was recorded in, to give it back
+    mapping(uint256 => ISpendingLimits) private _spendRecordedIn;
+
+    // Approvers' delegations to other users; address(0) disables delegation
+    IApprovalDelegation public approvalDelegation;
+
+    // Contract creating recurring transactions for their owners; address(0) disables it
+    address public transactionScheduler;
+
+    // Multi-signature approval state
+    ApprovalPolicy[] private _approvalPolicies;
+    mapping(uint256 => ApprovalSignature[]) private _approvalSignatures;
+    mapping(uint256 => mapping(address => bool)) public hasSignedApproval;
+
+    // Changes applied once their UserRole / SystemConfig approval is approved
+    mapping(uint256 => RoleChangeRequest) public roleChangeRequests;
+    mapping(uint256 => address) public settlementTokenRequests;
+    // Whether the first promotion to Admin, applied without approval, was used
+    bool private _firstAdminPromoted;
+
+    // Indexes backing paginated reads
+    mapping(address => uint256[]) private _userTransactionIds;
+    uint256[] private _pendingApprovalIds;
+    mapping(uint256 => uint256) private _pendingApprovalPositions; // 1-based, 0 = not pending
 
     // Events
     event TransactionCreated(uint256 indexed transactionId, address indexed from, address indexed to, uint256 amount);
@@ -95,20 +188,45 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
     event ApprovalProcessed(uint256 indexed approvalId, ApprovalStatus status, address indexed approver);
     event UserRegistered(uint256 indexed userId, address indexed walletAddress, string name);
     event UserRoleUpdated(address indexed userAddress, UserRole newRole);
+    event ApprovalSigned(uint256 indexed approvalId, address indexed approver, bool approved, uint256 approvalCount);
+    event ApprovalPolicyUpdated(uint256 minAmount, uint256 requiredApprovals, uint256 requiredAdminApprovals);
+    event ApprovalPolicyRemoved(uint256 minAmount);
+    event SettlementTokenUpdated(address indexed token);
+    event TransactionSettled(uint256 indexed transactionId, address indexed token, address from, address to, uint256 amount);
+    event RoleChangeRequested(uint256 indexed approvalId, address indexed userAddress, UserRole newRole);
+    event SettlementTokenChangeRequested(uint256 indexed approvalId, address indexed token);
+    event UserDeactivated(address indexed userAddress);
+    event UserReactivated(address indexed userAddress);
+    event UserProfileUpdated(
+        address indexed userAddress,
+        address indexed updatedBy,
+        string previousName,
+        string previousEmail,
+        string name,
+        string email
+    );
+    event ApprovalDeadlineUpdated(uint256 duration);
+    event ApprovalProcessingFailed(uint256 indexed approvalId, address indexed approver, string error);
+    event ApprovalDelegationChanged(address indexed approvalDelegation);
+    event SpendingLimitsUpdated(address indexed spendingLimits);
+    event ApprovalTiersUpdated(bool enabled, uint256 autoApproveBelow, uint256 adminApprovalFrom);
+    event TokenAllowlistChanged(address indexed tokenAllowlist);
+    event TransactionSchedulerChanged(address indexed transactionScheduler);
 
-    // Modifiers
+    // Modifiers, with the checks in internal functions so they aren't
+    // inlined into every function using them
     modifier onlyRegisteredUser() {
-        require(registeredUsers[msg.sender], "User not registered");
+        _checkRegisteredUser(msg.sender);
         _;
     }
 
     modifier onlyApprover() {
-        require(hasRole(APPROVER_ROLE, msg.sender) || hasRole(ADMIN_ROLE, msg.sender), "Not authorized");
+        _checkApprover();
         _;
     }
 
     modifier onlyAdmin() {
-        require(hasRole(ADMIN_ROLE, msg.sender), "Admin role required");
+        _checkAdmin();
         _;
     }
 
@@ -122,7 +240,8 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
     }
 
     /**
-     * @dev Register a new user
+     * @dev Register a new user. Admins can't be registered directly; they are
+     * promoted through requestRoleChange.
      */
     function registerUser(
         address walletAddress,
@@ -132,39 +251,56 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
     ) external onlyAdmin {
         require(!registeredUsers[walletAddress], "User already registered");
         require(walletAddress != address(0), "Invalid wallet address");
+        require(role != UserRole.Admin, "Admins must be promoted");
         
         _registerUser(walletAddress, name, email, role);
     }
 
     /**
-     * @dev Create a new transaction
+     * @dev Create a new transaction in the settlement token. With approval tiers
+     * enabled it is approved straight away or has its approval requested,
+     * depending on the amount.
      */
     function createTransaction(
         address to,
         uint256 amount,
         string memory description
     ) external onlyRegisteredUser nonReentrant {
-        require(to != address(0), "Invalid recipient address");
-        require(amount > 0, "Amount must be greater than 0");
-
-        _transactionIds++;
-        uint256 transactionId = _transactionIds;
-
-        transactions[transactionId] = Transaction({
-            id: transactionId,
-            from: msg.sender,
-            to: to,
-            amount: amount,
-            description: description,
-            status: TransactionStatus.Pending,
-            timestamp: block.timestamp,
-            approvalId: 0
-        });
+        _createTransaction(msg.sender, to, address(settlementToken), amount, description);
+    }
 
-        // Add this line to track transaction IDs
-        allTransactionIds.push(transactionId);
+    /**
+     * @dev Create a new transaction in an allowed ERC-20 token. Amount-based
+     * rules are denominated in the settlement token, so transactions in other
+     * tokens aren't counted against spending limits and, with approval tiers
+     * enabled, always need an admin's approval.
+     */
+    function createTokenTransaction(
+        address to,
+        address token,
+        uint256 amount,
+        string memory description
+    ) external onlyRegisteredUser nonReentrant {
+        _checkAllowedToken(token);
+        _createTransaction(msg.sender, to, token, amount, description);
+    }
 
-        emit TransactionCreated(transactionId, msg.sender, to, amount);
+    /**
+     * @dev Create a due occurrence of a recurring schedule on behalf of its
+     * owner (transaction scheduler only). It is handled like a transaction the
+     * owner created with createTokenTransaction.
+     */
+    function createScheduledTransaction(
+        address from,
+        address to,
+        address token,
+        uint256 amount,
+        string memory description
+    ) external nonReentrant returns (uint256) {
+        require(msg.sender == transactionScheduler, "Only the transaction scheduler");
+        _checkRegisteredUser(from);
+        _checkAllowedToken(token);
+        return _createTransaction(from, to, token, amount, description);
     }
 
     /**
@@ -174,90 +310,333 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
         uint256 transactionId,
         string memory reason
     ) external onlyRegisteredUser {
-        require(transactions[transactionId].id != 0, "Transaction does not exist");
-        require(transactions[transactionId].from == msg.sender, "Not transaction owner");
-        require(transactions[transactionId].status == TransactionStatus.Pending, "Transaction not pending");
+        Transaction storage transaction = _ownTransaction(transactionId);
+        require(transaction.status == TransactionStatus.Pending, "Transaction not pending");
+        require(transaction.approvalId == 0, "Approval already requested");
 
-        _approvalIds++;
-        uint256 approvalId = _approvalIds;
+        _requestApproval(transaction, reason);
+    }
 
-        approvals[approvalId] = Approval({
-            id: approvalId,
-            transactionId: transactionId,
-            requester: msg.sender,
-            approver: address(0),
-            approvalType: ApprovalType.Transaction,
-            status: ApprovalStatus.Pending,
-            reason: reason,
-            timestamp: block.timestamp
+    /**
+     * @dev Request a role promotion (admin only). The new role is applied once
+     * another admin approves the request. A new platform has a single admin
+     * with no one to approve their requests, so the first promotion to Admin
+     * is applied straight away.
+     */
+    function requestRoleChange(
+        address userAddress,
+        UserRole newRole,
+        string memory reason
+    ) external onlyAdmin {
+        require(registeredUsers[userAddress], "User not registered");
+        require(users[userAddress].isActive, "User not active");
+        require(newRole > users[userAddress].role, "Not a promotion");
+
+        if (newRole == UserRole.Admin && !_firstAdminPromoted) {
+            _firstAdminPromoted = true;
+            _setUserRole(userAddress, newRole);
+            return;
+        }
+
+        uint256 approvalId = _createApproval(0, msg.sender, ApprovalType.UserRole, reason, 1, 1, UserRole.Admin);
+        roleChangeRequests[approvalId] = RoleChangeRequest({
+            userAddress: userAddress,
+            newRole: newRole
         });
 
-        // Update transaction with approval ID
-        transactions[transactionId].approvalId = approvalId;
+        emit RoleChangeRequested(approvalId, userAddress, newRole);
+    }
+
+    /**
+     * @dev Request a settlement token change (admin only). The token is switched
+     * once another admin approves the request.
+     */
+    function requestSettlementTokenChange(address token, string memory reason) external onlyAdmin {
+        require(token != address(0), "Invalid token address");
+
+        uint256 approvalId = _createApproval(0, msg.sender, ApprovalType.SystemConfig, reason, 1, 1, UserRole.Admin);
+        settlementTokenRequests[approvalId] = token;
 
-        emit ApprovalRequested(approvalId, transactionId, msg.sender);
+        emit SettlementTokenChangeRequested(approvalId, token);
     }
 
     /**
-     * @dev Process an approval (approve or reject)
+     * @dev Sign an approval (approve or reject). A single rejection rejects the
+     * request; approval takes effect once the request's threshold is met.
+     * UserRole and SystemConfig requests must be processed by another admin.
      */
     function processApproval(
         uint256 approvalId,
         bool approved,
         string memory reason
     ) external onlyApprover {
+        string memory failure = _processApprovalError(approvalId);
+        require(bytes(failure).length == 0, failure);
+        _processApproval(approvalId, approved, reason);
+    }
+
+    /**
+     * @dev Sign several approvals with the same decision and reason. Approvals
+     * that can't be processed are skipped with an ApprovalProcessingFailed
+     * event instead of reverting the batch; returns which ones were signed.
+     */
+    function processApprovals(
+        uint256[] calldata approvalIds,
+        bool approved,
+        string memory reason
+    ) external onlyApprover returns (bool[] memory processed) {
+        require(approvalIds.length > 0, "No approvals");
+        require(approvalIds.length <= MAX_APPROVAL_BATCH_SIZE, "Batch too large");
+
+        processed = new bool[](approvalIds.length);
+        for (uint256 i = 0; i < approvalIds.length; i++) {
+            string memory failure = _processApprovalError(approvalIds[i]);
+            if (bytes(failure).length == 0) {
+                _processApproval(approvalIds[i], approved, reason);
+                processed[i] = true;
+            } else {
+                emit ApprovalProcessingFailed(approvalIds[i], msg.sender, failure);
+            }
+        }
+    }
+
+    /**
+     * @dev Complete a transaction (only after approval)
+     */
+    function completeTransaction(uint256 transactionId) external onlyRegisteredUser nonReentrant {
+        Transaction storage transaction = _ownTransaction(transactionId);
+        require(transaction.status == TransactionStatus.Active, "Transaction not active");
+
+        // The token is fixed at creation, so a later settlement token change
+        // doesn't change the currency of open transactions
+        IERC20 token = transaction.token == address(0) ? settlementToken : IERC20(transaction.token);
+        require(address(token) != address(0), "Settlement token not set");
+
+        transaction.status = TransactionStatus.Completed;
+
+        // Pull the amount from the sender; requires a prior ERC-20 approval to this contract
+        token.safeTransferFrom(transaction.from, transaction.to, transaction.amount);
+
+        emit TransactionSettled(transactionId, address(token), transaction.from, transaction.to, transaction.amount);
+        emit TransactionStatusUpdated(transactionId, TransactionStatus.Completed);
+    }
+
+    /**
+     * @dev Withdraw a transaction that hasn't been completed. A pending approval
+     * request for it is cancelled as well.
+     */
+    function cancelTransaction(uint256 transactionId) external onlyRegisteredUser {
+        Transaction storage transaction = _ownTransaction(transactionId);
+        require(
+            transaction.status == TransactionStatus.Pending || transaction.status == TransactionStatus.Active,
+            "Transaction cannot be cancelled"
+        );
+
+        uint256 approvalId = transaction.approvalId;
+        if (approvalId != 0 && approvals[approvalId].status == ApprovalStatus.Pending) {
+            _closeApproval(approvalId, ApprovalStatus.Cancelled);
+        }
+
+        transaction.status = TransactionStatus.Cancelled;
+        emit TransactionStatusUpdated(transactionId, TransactionStatus.Cancelled);
+        _releaseSpend(transactionId);
+    }
+
+    /**
+     * @dev Close a pending approval whose deadline has passed. Anyone can call
+     * this to sweep stale requests; the transaction, if any, becomes Expired.
+     */
+    function expireApproval(uint256 approvalId) external {
         require(approvals[approvalId].id != 0, "Approval does not exist");
         require(approvals[approvalId].status == ApprovalStatus.Pending, "Approval already processed");
+        require(_isExpired(approvals[approvalId]), "Approval not expired");
 
-        ApprovalStatus status = approved ? ApprovalStatus.Approved : ApprovalStatus.Rejected;
-        approvals[approvalId].status = status;
-        approvals[approvalId].approver = msg.sender;
-        approvals[approvalId].reason = reason;
+        _closeApproval(approvalId, ApprovalStatus.Expired);
 
-        // Update transaction status based on approval
-        uint256 transactionId = approvals[approvalId].transactionId;
-        if (approved) {
-            transactions[transactionId].status = TransactionStatus.Active;
-        } else {
-            transactions[transactionId].status = TransactionStatus.Rejected;
+        if (approvals[approvalId].approvalType == ApprovalType.Transaction) {
+            uint256 transactionId = approvals[approvalId].transactionId;
+            transactions[transactionId].status = TransactionStatus.Expired;
+            emit TransactionStatusUpdated(transactionId, TransactionStatus.Expired);
+            _releaseSpend(transactionId);
         }
+    }
 
-        emit ApprovalProcessed(approvalId, status, msg.sender);
-        emit TransactionStatusUpdated(transactionId, transactions[transactionId].status);
+    /**
+     * @dev Set the initial ERC-20 token used to settle completed transactions (admin only).
+     * Later changes go through requestSettlementTokenChange.
+     */
+    function setSettlementToken(address token) external onlyAdmin {
+        require(token != address(0), "Invalid token address");
+        require(address(settlementToken) == address(0), "Settlement token already set");
+        _setSettlementToken(token);
     }
 
     /**
-     * @dev Complete a transaction (only after approval)
+     * @dev Set the contract listing the other tokens new transactions can be
+     * made in (admin only). address(0) allows only the settlement token.
      */
-    function completeTransaction(uint256 transactionId) external onlyRegisteredUser {
-        require(transactions[transactionId].id != 0, "Transaction does not exist");
-        require(transactions[transactionId].from == msg.sender, "Not transaction owner");
-        require(transactions[transactionId].status == TransactionStatus.Active, "Transaction not active");
+    function setTokenAllowlist(address allowlist) external onlyAdmin {
+        tokenAllowlist = ITokenAllowlist(allowlist);
+        emit TokenAllowlistChanged(allowlist);
+    }
 
-        transactions[transactionId].status = TransactionStatus.Completed;
-        emit TransactionStatusUpdated(transactionId, TransactionStatus.Completed);
+    /**
+     * @dev Set the contract approvers delegate their approval authority through
+     * (admin only). address(0) stops honouring delegations.
+     */
+    function setApprovalDelegation(address delegation) external onlyAdmin {
+        approvalDelegation = IApprovalDelegation(delegation);
+        emit ApprovalDelegationChanged(delegation);
+    }
+
+    /**
+     * @dev Set the contract allowed to create recurring transactions on behalf
+     * of their owners (admin only). address(0) stops scheduled transactions.
+     */
+    function setTransactionScheduler(address scheduler) external onlyAdmin {
+        transactionScheduler = scheduler;
+        emit TransactionSchedulerChanged(scheduler);
     }
 
     /**
-     * @dev Update user role (admin only)
+     * @dev Set the contract enforcing spending limits on new transactions
+     * (admin only). address(0) removes the limits.
+     */
+    function setSpendingLimits(address limits) external onlyAdmin {
+        spendingLimits = ISpendingLimits(limits);
+        emit SpendingLimitsUpdated(limits);
+    }
+
+    /**
+     * @dev Configure approval routing for new transactions (admin only).
+     * Amounts below autoApproveBelow are approved on creation, amounts from
+     * adminApprovalFrom need admin approval, and the rest any approver's.
+     */
+    function setApprovalTiers(
+        bool enabled,
+        uint256 autoApproveBelow,
+        uint256 adminApprovalFrom
+    ) external onlyAdmin {
+        require(autoApproveBelow <= adminApprovalFrom, "Invalid approval tiers");
+
+        approvalTiers = ApprovalTiers({
+            enabled: enabled,
+            autoApproveBelow: autoApproveBelow,
+            adminApprovalFrom: adminApprovalFrom
+        });
+        emit ApprovalTiersUpdated(enabled, autoApproveBelow, adminApprovalFrom);
+    }
+
+    /**
+     * @dev Set how long new approval requests stay open (0 disables expiry).
+     * Existing requests keep the deadline they were created with.
+     */
+    function setApprovalDeadline(uint256 duration) external onlyAdmin {
+        approvalDeadline = duration;
+        emit ApprovalDeadlineUpdated(duration);
+    }
+
+    /**
+     * @dev Add or update the approval policy for transactions with amount >= minAmount (admin only).
+     * The request is approved once requiredApprovals approvers sign, or once
+     * requiredAdminApprovals admins sign (0 disables the admin shortcut).
+     */
+    function setApprovalPolicy(
+        uint256 minAmount,
+        uint256 requiredApprovals,
+        uint256 requiredAdminApprovals
+    ) external onlyAdmin {
+        require(requiredApprovals > 0, "Invalid approval threshold");
+
+        ApprovalPolicy memory policy = ApprovalPolicy({
+            minAmount: minAmount,
+            requiredApprovals: requiredApprovals,
+            requiredAdminApprovals: requiredAdminApprovals
+        });
+
+        bool updated = false;
+        for (uint256 i = 0; i < _approvalPolicies.length; i++) {
+            if (_approvalPolicies[i].minAmount == minAmount) {
+                _approvalPolicies[i] = policy;
+                updated = true;
+                break;
+            }
+        }
+        if (!updated) {
+            _approvalPolicies.push(policy);
+        }
+
+        emit ApprovalPolicyUpdated(minAmount, requiredApprovals, requiredAdminApprovals);
+    }
+
+    /**
+     * @dev Remove the approval policy for a minimum amount (admin only)
+     */
+    function removeApprovalPolicy(uint256 minAmount) external onlyAdmin {
+        for (uint256 i = 0; i < _approvalPolicies.length; i++) {
+            if (_approvalPolicies[i].minAmount == minAmount) {
+                _approvalPolicies[i] = _approvalPolicies[_approvalPolicies.length - 1];
+                _approvalPolicies.pop();
+                emit ApprovalPolicyRemoved(minAmount);
+                return;
+            }
+        }
+        revert("Policy not found");
+    }
+
+    /**
+     * @dev Demote a user (admin only). Promotions go through requestRoleChange.
      */
     function updateUserRole(address userAddress, UserRole newRole) external onlyAdmin {
         require(registeredUsers[userAddress], "User not registered");
-        users[userAddress].role = newRole;
-        
-        // Update access control roles
-        if (newRole == UserRole.Admin) {
-            _grantRole(ADMIN_ROLE, userAddress);
-            _grantRole(APPROVER_ROLE, userAddress);
-        } else if (newRole == UserRole.Manager) {
-            _grantRole(APPROVER_ROLE, userAddress);
-            _revokeRole(ADMIN_ROLE, userAddress);
-        } else {
-            _revokeRole(ADMIN_ROLE, userAddress);
-            _revokeRole(APPROVER_ROLE, userAddress);
-        }
+        require(newRole <= users[userAddress].role, "Promotion requires approval");
+        _setUserRole(userAddress, newRole);
+    }
 
-        emit UserRoleUpdated(userAddress, newRole);
+    /**
+     * @dev Update the caller's display name
+     */
+    function updateName(string memory name) external onlyRegisteredUser {
+        require(bytes(name).length > 0, "Name cannot be empty");
+        _updateProfile(msg.sender, name, users[msg.sender].email);
+    }
+
+    /**
+     * @dev Update a user's email address (admin only)
+     */
+    function updateUserEmail(address userAddress, string memory email) external onlyAdmin {
+        require(registeredUsers[userAddress], "User not registered");
+        require(bytes(email).length > 0, "Email cannot be empty");
+        _updateProfile(userAddress, users[userAddress].name, email);
+    }
+
+    /**
+     * @dev Deactivate a user (admin only). Revokes their access control roles
+     * and blocks them from creating or acting on transactions.
+     */
+    function deactivateUser(address userAddress) external onlyAdmin {
+        require(registeredUsers[userAddress], "User not registered");
+        require(users[userAddress].isActive, "User already inactive");
+        require(userAddress != msg.sender, "Cannot deactivate yourself");
+
+        users[userAddress].isActive = false;
+        _revokeRole(ADMIN_ROLE, userAddress);
+        _revokeRole(APPROVER_ROLE, userAddress);
+
+        emit UserDeactivated(userAddress);
+    }
+
+    /**
+     * @dev Reactivate a user (admin only). Restores the roles for their current UserRole.
+     */
+    function reactivateUser(address userAddress) external onlyAdmin {
+        require(registeredUsers[userAddress], "User not registered");
+        require(!users[userAddress].isActive, "User already active");
+
+        users[userAddress].isActive = true;
+        _syncRoles(userAddress, users[userAddress].role);
+
+        emit UserReactivated(userAddress);
     }
 
     /**
@@ -275,54 +654,89 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
     }
 
     /**
-     * @dev Get user by address
+     * @dev Get the signatures collected for an approval
      */
-    function getUser(address userAddress) external view returns (User memory) {
-        return users[userAddress];
+    function getApprovalSignatures(uint256 approvalId) external view returns (ApprovalSignature[] memory) {
+        return _approvalSignatures[approvalId];
     }
 
     /**
-     * @dev Get all transactions for a user
+     * @dev Get all configured approval policies
      */
-    function getUserTransactions(address userAddress) external view returns (uint256[] memory) {
-        uint256[] memory userTransactions = new uint256[](_transactionIds);
-        uint256 count = 0;
+    function getApprovalPolicies() external view returns (ApprovalPolicy[] memory) {
+        return _approvalPolicies;
+    }
 
-        for (uint256 i = 1; i <= _transactionIds; i++) {
-            if (transactions[i].from == userAddress || transactions[i].to == userAddress) {
-                userTransactions[count] = i;
-                count++;
+    /**
+     * @dev Get the approval thresholds for an amount. Uses the policy with the
+     * highest minAmount not above the amount, or a single approval by default.
+     */
+    function getRequiredApprovals(uint256 amount) public view returns (uint256, uint256) {
+        uint256 requiredApprovals = 1;
+        uint256 requiredAdminApprovals = 0;
+        uint256 bestMinAmount = 0;
+        bool found = false;
+
+        for (uint256 i = 0; i < _approvalPolicies.length; i++) {
+            ApprovalPolicy storage policy = _approvalPolicies[i];
+            if (policy.minAmount <= amount && (!found || policy.minAmount >= bestMinAmount)) {
+                requiredApprovals = policy.requiredApprovals;
+                requiredAdminApprovals = policy.requiredAdminApprovals;
+                bestMinAmount = policy.minAmount;
+                found = true;
             }
         }
 
-        // Resize array to actual count
-        assembly {
-            mstore(userTransactions, count)
-        }
+        return (requiredApprovals, requiredAdminApprovals);
+    }
+
+    /**
+     * @dev Get user by address
+     */
+    function getUser(address userAddress) external view returns (User memory) {
+        return users[userAddress];
+    }
 
-        return userTransactions;
+    /**
+     * @dev Get all transactions for a user
+     */
+    function getUserTransactions(address userAddress) external view returns (uint256[] memory) {
+        return _userTransactionIds[userAddress];
     }
 
     /**
      * @dev Get pending approvals
      */
     function getPendingApprovals() external view returns (uint256[] memory) {
-        uint256[] memory pendingApprovals = new uint256[](_approvalIds);
-        uint256 count = 0;
+        return _pendingApprovalIds;
+    }
 
-        for (uint256 i = 1; i <= _approvalIds; i++) {
-            if (approvals[i].status == ApprovalStatus.Pending) {
-                pendingApprovals[count] = i;
-                count++;
-            }
-        }
+    /**
+     * @dev Get a page of a user's transaction IDs, newest first
+     */
+    function getUserTransactionsPaginated(
+        address userAddress,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory, uint256) {
+        uint256[] storage ids = _userTransactionIds[userAddress];
+        return (_pageNewestFirst(ids, offset, limit), ids.length);
+    }
 
-        // Resize array to actual count
-        assembly {
-            mstore(pendingApprovals, count)
+    /**
+     * @dev Get a page of pending approval IDs. Order is not chronological since
+     * processed approvals are swapped out of the pending set.
+     */
+    function getPendingApprovalsPaginated(
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory, uint256) {
+        uint256 count = _pageLength(_pendingApprovalIds.length, offset, limit);
+        uint256[] memory page = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = _pendingApprovalIds[offset + i];
         }
-
-        return pendingApprovals;
+        return (page, _pendingApprovalIds.length);
     }
 
     /**
@@ -361,6 +775,352 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
     }
 
     // Internal functions
+    function _checkRegisteredUser(address account) internal view {
+        require(registeredUsers[account], "User not registered");
+        require(users[account].isActive, "User not active");
+    }
+
+    function _checkAllowedToken(address token) internal view {
+        require(
+            token == address(settlementToken) ||
+                (address(tokenAllowlist) != address(0) && tokenAllowlist.allowedTokens(token)),
+            "Token not allowed"
+        );
+    }
+
+    function _checkApprover() internal view {
+        require(
+            hasRole(APPROVER_ROLE, msg.sender) ||
+                hasRole(ADMIN_ROLE, msg.sender) ||
+                _activeDelegator(msg.sender) != address(0),
+            "Not authorized"
+        );
+    }
+
+    function _checkAdmin() internal view {
+        require(hasRole(ADMIN_ROLE, msg.sender), "Admin role required");
+    }
+
+    function _createTransaction(
+        address from,
+        address to,
+        address token,
+        uint256 amount,
+        string memory description
+    ) internal returns (uint256) {
+        require(to != address(0), "Invalid recipient address");
+        require(amount > 0, "Amount must be greater than 0");
+
+        _transactionIds++;
+        uint256 transactionId = _transactionIds;
+
+        // Limits are denominated in the settlement token
+        bool inSettlementToken = _inSettlementToken(token);
+        if (address(spendingLimits) != address(0) && inSettlementToken) {
+            spendingLimits.recordSpend(from, amount);
+            _spendRecordedIn[transactionId] = spendingLimits;
+        }
+
+        transactions[transactionId] = Transaction({
+            id: transactionId,
+            from: from,
+            to: to,
+            amount: amount,
+            description: description,
+            status: TransactionStatus.Pending,
+            timestamp: block.timestamp,
+            approvalId: 0,
+            token: token
+        });
+
+        // Add this line to track transaction IDs
+        allTransactionIds.push(transactionId);
+        _userTransactionIds[from].push(transactionId);
+        if (to != from) {
+            _userTransactionIds[to].push(transactionId);
+        }
+
+        emit TransactionCreated(transactionId, from, to, amount);
+
+        if (!approvalTiers.enabled) {
+            return transactionId;
+        }
+        if (inSettlementToken && amount < approvalTiers.autoApproveBelow) {
+            transactions[transactionId].status = TransactionStatus.Active;
+            emit TransactionStatusUpdated(transactionId, TransactionStatus.Active);
+        } else {
+            _requestApproval(transactions[transactionId], description);
+        }
+        return transactionId;
+    }
+
+    // Whether amount-based rules apply to a transaction's token. 0 is a
+    // transaction created before a settlement token was set, which settles in it.
+    function _inSettlementToken(address token) internal view returns (bool) {
+        return token == address(0) || token == address(settlementToken);
+    }
+
+    // Gives a transaction that won't be sent back to its sender's spending
+    // limits, unless they've since moved to another limits contract
+    function _releaseSpend(uint256 transactionId) internal {
+        ISpendingLimits limits = _spendRecordedIn[transactionId];
+        if (address(limits) == address(0)) return;
+
+        delete _spendRecordedIn[transactionId];
+        if (address(limits) == address(spendingLimits)) {
+            Transaction storage transaction = transactions[transactionId];
+            limits.releaseSpend(transaction.from, transaction.amount, transaction.timestamp);
+        }
+    }
+
+    // A transaction of the caller's, reverting if it doesn't exist or isn't theirs
+    function _ownTransaction(uint256 transactionId) internal view returns (Transaction storage transaction) {
+        transaction = transactions[transactionId];
+        require(transaction.id != 0, "Transaction does not exist");
+        require(transaction.from == msg.sender, "Not transaction owner");
+    }
+
+    // Reason processApproval would revert for the caller, or "" if it can be signed
+    function _processApprovalError(uint256 approvalId) internal view returns (string memory) {
+        Approval storage approval = approvals[approvalId];
+        if (approval.id == 0) return "Approval does not exist";
+        if (approval.status != ApprovalStatus.Pending) return "Approval already processed";
+        if (_isExpired(approval)) return "Approval expired";
+        address signer = _signer();
+        if (hasSignedApproval[approvalId][signer]) return "Already signed";
+        if (approval.approvalType != ApprovalType.Transaction && signer != msg.sender) {
+            return "Delegates cannot sign admin requests";
+        }
+        if (approval.approverRole == UserRole.Admin && !hasRole(ADMIN_ROLE, signer)) return "Admin role required";
+
+        // Parties to a request can't sign it, themselves or through a delegate
+        address owner = approval.approvalType == ApprovalType.Transaction
+            ? transactions[approval.transactionId].from
+            : approval.requester;
+        if (
+            approval.requester == signer || approval.requester == msg.sender ||
+            owner == signer || owner == msg.sender
+        ) {
+            return "Cannot process own request";
+        }
+        return "";
+    }
+
+    function _processApproval(uint256 approvalId, bool approved, string memory reason) internal {
+        address signer = _signer();
+        hasSignedApproval[approvalId][signer] = true;
+        _approvalSignatures[approvalId].push(ApprovalSignature({
+            approver: signer,
+            delegate: signer == msg.sender ? address(0) : msg.sender,
+            approved: approved,
+            isAdmin: hasRole(ADMIN_ROLE, signer),
+            reason: reason,
+            timestamp: block.timestamp
+        }));
+
+        (uint256 approvalCount, uint256 adminApprovalCount) = _countApprovals(approvalId);
+        emit ApprovalSigned(approvalId, signer, approved, approvalCount);
+
+        // Wait for more signatures until the threshold is met
+        if (approved && !_isThresholdMet(approvals[approvalId], approvalCount, adminApprovalCount)) {
+            return;
+        }
+
+        approvals[approvalId].approver = msg.sender;
+        approvals[approvalId].reason = reason;
+        _closeApproval(approvalId, approved ? ApprovalStatus.Approved : ApprovalStatus.Rejected);
+
+        ApprovalType approvalType = approvals[approvalId].approvalType;
+        if (approvalType == ApprovalType.Transaction) {
+            // Update transaction status based on approval
+            uint256 transactionId = approvals[approvalId].transactionId;
+            if (approved) {
+                transactions[transactionId].status = TransactionStatus.Active;
+            } else {
+                transactions[transactionId].status = TransactionStatus.Rejected;
+                _releaseSpend(transactionId);
+            }
+
+            emit TransactionStatusUpdated(transactionId, transactions[transactionId].status);
+        } else if (approved && approvalType == ApprovalType.UserRole) {
+            RoleChangeRequest storage request = roleChangeRequests[approvalId];
+            _setUserRole(request.userAddress, request.newRole);
+        } else if (approved) {
+            _setSettlementToken(settlementTokenRequests[approvalId]);
+        }
+    }
+
+    function _countApprovals(uint256 approvalId) internal view returns (uint256 count, uint256 adminCount) {
+        ApprovalSignature[] storage signatures = _approvalSignatures[approvalId];
+        for (uint256 i = 0; i < signatures.length; i++) {
+            if (signatures[i].approved) {
+                count++;
+                if (signatures[i].isAdmin) {
+                    adminCount++;
+                }
+            }
+        }
+    }
+
+    function _isThresholdMet(
+        Approval storage approval,
+        uint256 approvalCount,
+        uint256 adminApprovalCount
+    ) internal view returns (bool) {
+        if (approvalCount >= approval.requiredApprovals) {
+            return true;
+        }
+        return approval.requiredAdminApprovals > 0 && adminApprovalCount >= approval.requiredAdminApprovals;
+    }
+
+    function _requestApproval(Transaction storage transaction, string memory reason) internal {
+        // Snapshot the thresholds so later policy changes don't affect this request.
+        // Policies are in the settlement token; other tokens get the strictest one.
+        bool inSettlementToken = _inSettlementToken(transaction.token);
+        (uint256 requiredApprovals, uint256 requiredAdminApprovals) = getRequiredApprovals(
+            inSettlementToken ? transaction.amount : type(uint256).max
+        );
+        bool adminOnly = approvalTiers.enabled &&
+            (!inSettlementToken || transaction.amount >= approvalTiers.adminApprovalFrom);
+
+        // Update transaction with approval ID
+        transaction.approvalId = _createApproval(
+            transaction.id,
+            transaction.from,
+            ApprovalType.Transaction,
+            reason,
+            requiredApprovals,
+            requiredAdminApprovals,
+            adminOnly ? UserRole.Admin : UserRole.Manager
+        );
+    }
+
+    function _createApproval(
+        uint256 transactionId,
+        address requester,
+        ApprovalType approvalType,
+        string memory reason,
+        uint256 requiredApprovals,
+        uint256 requiredAdminApprovals,
+        UserRole approverRole
+    ) internal returns (uint256) {
+        _approvalIds++;
+        uint256 approvalId = _approvalIds;
+
+        approvals[approvalId] = Approval({
+            id: approvalId,
+            transactionId: transactionId,
+            requester: requester,
+            approver: address(0),
+            approvalType: approvalType,
+            status: ApprovalStatus.Pending,
+            reason: reason,
+            timestamp: block.timestamp,
+            requiredApprovals: requiredApprovals,
+            requiredAdminApprovals: requiredAdminApprovals,
+            expiresAt: approvalDeadline == 0 ? 0 : block.timestamp + approvalDeadline,
+            approverRole: approverRole
+        });
+
+        _pendingApprovalIds.push(approvalId);
+        _pendingApprovalPositions[approvalId] = _pendingApprovalIds.length;
+
+        emit ApprovalRequested(approvalId, transactionId, requester);
+        return approvalId;
+    }
+
+    // Moves a pending approval to its final status
+    function _closeApproval(uint256 approvalId, ApprovalStatus status) internal {
+        approvals[approvalId].status = status;
+        _removePendingApproval(approvalId);
+        emit ApprovalProcessed(approvalId, status, msg.sender);
+    }
+
+    // Account whose approval authority the caller is using: their own if they
+    // hold it, otherwise that of the approver they're covering for
+    function _signer() internal view returns (address) {
+        if (hasRole(APPROVER_ROLE, msg.sender)) return msg.sender;
+        address delegator = _activeDelegator(msg.sender);
+        return delegator != address(0) ? delegator : msg.sender;
+    }
+
+    // Approver `account` signs for through the delegation contract, if any
+    function _activeDelegator(address account) internal view returns (address) {
+        return address(approvalDelegation) == address(0) ? address(0) : approvalDelegation.activeDelegator(account);
+    }
+
+    function _isExpired(Approval storage approval) internal view returns (bool) {
+        return approval.expiresAt != 0 && block.timestamp > approval.expiresAt;
+    }
+
+    function _removePendingApproval(uint256 approvalId) internal {
+        uint256 position = _pendingApprovalPositions[approvalId];
+        uint256 lastId = _pendingApprovalIds[_pendingApprovalIds.length - 1];
+
+        _pendingApprovalIds[position - 1] = lastId;
+        _pendingApprovalPositions[lastId] = position;
+        _pendingApprovalIds.pop();
+        delete _pendingApprovalPositions[approvalId];
+    }
+
+    function _pageLength(uint256 total, uint256 offset, uint256 limit) internal pure returns (uint256) {
+        require(limit > 0 && limit <= MAX_PAGE_SIZE, "Invalid page size");
+        if (offset >= total) {
+            return 0;
+        }
+        uint256 remaining = total - offset;
+        return remaining < limit ? remaining : limit;
+    }
+
+    function _pageNewestFirst(
+        uint256[] storage ids,
+        uint256 offset,
+        uint256 limit
+    ) internal view returns (uint256[] memory page) {
+        uint256 count = _pageLength(ids.length, offset, limit);
+        page = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = ids[ids.length - 1 - offset - i];
+        }
+    }
+
+    function _setUserRole(address userAddress, UserRole newRole) internal {
+        users[userAddress].role = newRole;
+
+        // Inactive users keep no access control roles until reactivated
+        if (users[userAddress].isActive) {
+            _syncRoles(userAddress, newRole);
+        }
+
+        emit UserRoleUpdated(userAddress, newRole);
+    }
+
+    function _syncRoles(address userAddress, UserRole role) internal {
+        if (role == UserRole.Admin) {
+            _grantRole(ADMIN_ROLE, userAddress);
+            _grantRole(APPROVER_ROLE, userAddress);
+        } else if (role == UserRole.Manager) {
+            _grantRole(APPROVER_ROLE, userAddress);
+            _revokeRole(ADMIN_ROLE, userAddress);
+        } else {
+            _revokeRole(ADMIN_ROLE, userAddress);
+            _revokeRole(APPROVER_ROLE, userAddress);
+        }
+    }
+
+    function _updateProfile(address userAddress, string memory name, string memory email) internal {
+        User storage user = users[userAddress];
+        emit UserProfileUpdated(userAddress, msg.sender, user.name, user.email, name, email);
+
+        user.name = name;
+        user.email = email;
+    }
+
+    function _setSettlementToken(address token) internal {
+        settlementToken = IERC20(token);
+        emit SettlementTokenUpdated(token);
+    }
+
     function _registerUser(
         address walletAddress,
         string memory name,
@@ -386,12 +1146,7 @@ contract FinancialPlatform is AccessControl, ReentrancyGuard {
         allUserAddresses.push(walletAddress);
 
         // Grant appropriate roles
-        if (role == UserRole.Admin) {
-            _grantRole(ADMIN_ROLE, walletAddress);
-            _grantRole(APPROVER_ROLE, walletAddress);
-        } else if (role == UserRole.Manager) {
-            _grantRole(APPROVER_ROLE, walletAddress);
-        }
+        _syncRoles(walletAddress, role);
 
         emit UserRegistered(newUserId, walletAddress, name);
     }
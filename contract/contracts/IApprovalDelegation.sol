@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title IApprovalDelegation
+ * @dev Lookup FinancialPlatform calls to find the approver an account is
+ * signing for
+ */
+interface IApprovalDelegation {
+    /**
+     * @dev The approver `account` currently signs for, or address(0)
+     */
+    function activeDelegator(address account) external view returns (address);
+}
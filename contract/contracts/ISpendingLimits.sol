@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ISpendingLimits
+ * @dev Hooks FinancialPlatform calls when a transaction is created, and when
+ * one it recorded is cancelled, rejected or expired
+ */
+interface ISpendingLimits {
+    /**
+     * @dev Count `amount` against the sender's limits; reverts if it would exceed them
+     */
+    function recordSpend(address user, uint256 amount) external;
+
+    /**
+     * @dev Give back `amount` recorded for `user` at `spentAt` that won't be sent
+     */
+    function releaseSpend(address user, uint256 amount, uint256 spentAt) external;
+}
@@ -0,0 +1,14 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+/**
+ * @title ITokenAllowlist
+ * @dev Lookup FinancialPlatform calls when a transaction is created in a
+ * token other than the settlement token
+ */
+interface ITokenAllowlist {
+    /**
+     * @dev Whether new transactions can be made in `token`
+     */
+    function allowedTokens(address token) external view returns (bool);
+}
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./FinancialPlatform.sol";
+import "./ISpendingLimits.sol";
+
+/**
+ * @title SpendingLimits
+ * @dev Daily and monthly caps on the amount a user can send through
+ * FinancialPlatform. Limits are set per role, and a per-user limit replaces
+ * the role's. Days and months are UTC calendar periods.
+ */
+contract SpendingLimits is ISpendingLimits {
+    // Caps for one role or user; 0 = unlimited
+    struct Limit {
+        uint256 daily;
+        uint256 monthly;
+    }
+
+    // Amount sent in the current day and month
+    struct Usage {
+        uint256 day;
+        uint256 dailySpent;
+        uint256 month;
+        uint256 monthlySpent;
+    }
+
+    FinancialPlatform public immutable platform;
+
+    mapping(FinancialPlatform.UserRole => Limit) public roleLimits;
+    mapping(address => Limit) public userLimits;
+    mapping(address => bool) public hasUserLimit;
+    mapping(address => Usage) private _usage;
+
+    event RoleLimitUpdated(FinancialPlatform.UserRole indexed role, uint256 daily, uint256 monthly);
+    event UserLimitUpdated(address indexed user, uint256 daily, uint256 monthly);
+    event UserLimitRemoved(address indexed user);
+    event SpendRecorded(address indexed user, uint256 amount, uint256 dailySpent, uint256 monthlySpent);
+    event SpendReleased(address indexed user, uint256 amount, uint256 dailySpent, uint256 monthlySpent);
+
+    modifier onlyAdmin() {
+        require(platform.hasRole(platform.ADMIN_ROLE(), msg.sender), "Admin role required");
+        _;
+    }
+
+    constructor(FinancialPlatform platform_) {
+        platform = platform_;
+    }
+
+    /**
+     * @dev Set the limits for every user with `role` (admin only)
+     */
+    function setRoleLimit(FinancialPlatform.UserRole role, uint256 daily, uint256 monthly) external onlyAdmin {
+        roleLimits[role] = Limit({daily: daily, monthly: monthly});
+        emit RoleLimitUpdated(role, daily, monthly);
+    }
+
+    /**
+     * @dev Set limits for one user, replacing their role's limits (admin only)
+     */
+    function setUserLimit(address user, uint256 daily, uint256 monthly) external onlyAdmin {
+        require(platform.registeredUsers(user), "User not registered");
+
+        userLimits[user] = Limit({daily: daily, monthly: monthly});
+        hasUserLimit[user] = true;
+        emit UserLimitUpdated(user, daily, monthly);
+    }
+
+    /**
+     * @dev Put a user back on their role's limits (admin only)
+     */
+    function removeUserLimit(address user) external onlyAdmin {
+        require(hasUserLimit[user], "No user limit");
+
+        delete userLimits[user];
+        hasUserLimit[user] = false;
+        emit UserLimitRemoved(user);
+    }
+
+    /**
+     * @dev Count a new transaction against its sender's limits (platform only)
+     */
+    function recordSpend(address user, uint256 amount) external override {
+        require(msg.sender == address(platform), "Only platform");
+
+        Limit memory limit = getLimit(user);
+        (uint256 dailySpent, uint256 monthlySpent) = getSpent(user);
+        dailySpent += amount;
+        monthlySpent += amount;
+        require(limit.daily == 0 || dailySpent <= limit.daily, "Daily limit exceeded");
+        require(limit.monthly == 0 || monthlySpent <= limit.monthly, "Monthly limit exceeded");
+
+        _usage[user] = Usage({
+            day: block.timestamp / 1 days,
+            dailySpent: dailySpent,
+            month: _monthOf(block.timestamp),
+            monthlySpent: monthlySpent
+        });
+        emit SpendRecorded(user, amount, dailySpent, monthlySpent);
+    }
+
+    /**
+     * @dev Give back the amount of a transaction that won't be sent (platform
+     * only). Only counts for the day and month it was recorded in are reduced;
+     * earlier periods have already reset.
+     */
+    function releaseSpend(address user, uint256 amount, uint256 spentAt) external override {
+        require(msg.sender == address(platform), "Only platform");
+
+        Usage storage usage = _usage[user];
+        if (usage.day == spentAt / 1 days) {
+            usage.dailySpent = usage.dailySpent > amount ? usage.dailySpent - amount : 0;
+        }
+        if (usage.month == _monthOf(spentAt)) {
+            usage.monthlySpent = usage.monthlySpent > amount ? usage.monthlySpent - amount : 0;
+        }
+
+        (uint256 dailySpent, uint256 monthlySpent) = getSpent(user);
+        emit SpendReleased(user, amount, dailySpent, monthlySpent);
+    }
+
+    /**
+     * @dev The limits that apply to a user: their own if set, otherwise their role's
+     */
+    function getLimit(address user) public view returns (Limit memory) {
+        if (hasUserLimit[user]) {
+            return userLimits[user];
+        }
+        return roleLimits[platform.getUser(user).role];
+    }
+
+    /**
+     * @dev Amount a user has sent today and this month
+     */
+    function getSpent(address user) public view returns (uint256 dailySpent, uint256 monthlySpent) {
+        Usage storage usage = _usage[user];
+        if (usage.day == block.timestamp / 1 days) {
+            dailySpent = usage.dailySpent;
+        }
+        if (usage.month == _monthOf(block.timestamp)) {
+            monthlySpent = usage.monthlySpent;
+        }
+    }
+
+    /**
+     * @dev Amount a user can still send today and this month; type(uint256).max when unlimited
+     */
+    function getRemaining(address user) external view returns (uint256 daily, uint256 monthly) {
+        Limit memory limit = getLimit(user);
+        (uint256 dailySpent, uint256 monthlySpent) = getSpent(user);
+        daily = _remaining(limit.daily, dailySpent);
+        monthly = _remaining(limit.monthly, monthlySpent);
+    }
+
+    function _remaining(uint256 limit, uint256 spent) internal pure returns (uint256) {
+        if (limit == 0) return type(uint256).max;
+        return spent >= limit ? 0 : limit - spent;
+    }
+
+    // Months since year 0 for a unix timestamp, from Howard Hinnant's
+    // civil_from_days algorithm
+    function _monthOf(uint256 timestamp) internal pure returns (uint256) {
+        uint256 z = timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 month = mp < 10 ? mp + 3 : mp - 9;
+        uint256 year = yoe + era * 400 + (month <= 2 ? 1 : 0);
+        return year * 12 + month - 1;
+    }
+}
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./FinancialPlatform.sol";
+import "./ITokenAllowlist.sol";
+
+/**
+ * @title TokenAllowlist
+ * @dev ERC-20 tokens FinancialPlatform transactions can be made in, besides
+ * the settlement token. Managed by the platform's admins.
+ */
+contract TokenAllowlist is ITokenAllowlist {
+    FinancialPlatform public immutable platform;
+
+    mapping(address => bool) public allowedTokens;
+    address[] private _allowedTokens;
+
+    event TokenAllowlistUpdated(address indexed token, bool allowed);
+
+    modifier onlyAdmin() {
+        require(platform.hasRole(platform.ADMIN_ROLE(), msg.sender), "Admin role required");
+        _;
+    }
+
+    constructor(FinancialPlatform platform_) {
+        platform = platform_;
+    }
+
+    /**
+     * @dev Allow or stop new transactions in an ERC-20 token (admin only).
+     * Transactions already made in a token can still be completed.
+     */
+    function setTokenAllowed(address token, bool allowed) external onlyAdmin {
+        require(token != address(0), "Invalid token address");
+        require(allowedTokens[token] != allowed, "Token allowlist unchanged");
+
+        allowedTokens[token] = allowed;
+        if (allowed) {
+            _allowedTokens.push(token);
+        } else {
+            for (uint256 i = 0; i < _allowedTokens.length; i++) {
+                if (_allowedTokens[i] == token) {
+                    _allowedTokens[i] = _allowedTokens[_allowedTokens.length - 1];
+                    _allowedTokens.pop();
+                    break;
+                }
+            }
+        }
+        emit TokenAllowlistUpdated(token, allowed);
+    }
+
+    /**
+     * @dev Get the tokens transactions can be made in besides the settlement token
+     */
+    function getAllowedTokens() external view returns (address[] memory) {
+        return _allowedTokens;
+    }
+}
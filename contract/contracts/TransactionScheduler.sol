@@ -0,0 +1,183 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./FinancialPlatform.sol";
+
+/**
+ * @title TransactionScheduler
+ * @dev Recurring transaction templates for FinancialPlatform. A keeper calls
+ * executeSchedule once an occurrence is due, which creates the transaction
+ * on the owner's behalf through FinancialPlatform.createScheduledTransaction
+ * and advances the schedule.
+ */
+contract TransactionScheduler {
+    // Shortest allowed gap between two occurrences
+    uint256 public constant MIN_INTERVAL = 1 hours;
+
+    struct Schedule {
+        uint256 id;
+        address owner;
+        address to;
+        address token; // settlement token when the schedule was created
+        uint256 amount;
+        string description;
+        uint256 interval;
+        uint256 nextRunAt;
+        uint256 endsAt; // 0 = no end date
+        uint256 maxOccurrences; // 0 = unlimited
+        uint256 occurrences;
+        bool active;
+    }
+
+    FinancialPlatform public immutable platform;
+
+    uint256 private _scheduleIds;
+    mapping(uint256 => Schedule) private _schedules;
+    mapping(address => uint256[]) private _userScheduleIds;
+    // Platform transactions created as an occurrence of a schedule
+    mapping(uint256 => bool) public isScheduledTransaction;
+
+    event ScheduleCreated(uint256 indexed scheduleId, address indexed owner, address indexed to, uint256 amount, uint256 interval);
+    event ScheduleExecuted(uint256 indexed scheduleId, uint256 indexed transactionId, uint256 occurrence);
+    event ScheduleCancelled(uint256 indexed scheduleId);
+    event ScheduleCompleted(uint256 indexed scheduleId);
+
+    modifier onlyScheduleOwner(uint256 scheduleId) {
+        require(_schedules[scheduleId].id != 0, "Schedule does not exist");
+        require(_schedules[scheduleId].owner == msg.sender, "Not schedule owner");
+        _;
+    }
+
+    constructor(FinancialPlatform platform_) {
+        platform = platform_;
+    }
+
+    /**
+     * @dev Create a recurring transaction to `to`, first due at startsAt (now if 0)
+     * and then every `interval` seconds until endsAt or maxOccurrences is reached.
+     */
+    function createSchedule(
+        address to,
+        uint256 amount,
+        string memory description,
+        uint256 interval,
+        uint256 startsAt,
+        uint256 endsAt,
+        uint256 maxOccurrences
+    ) external returns (uint256) {
+        require(platform.registeredUsers(msg.sender), "User not registered");
+        require(to != address(0), "Invalid recipient address");
+        require(amount > 0, "Amount must be greater than 0");
+        require(interval >= MIN_INTERVAL, "Interval too short");
+
+        uint256 firstRunAt = startsAt == 0 ? block.timestamp : startsAt;
+        require(endsAt == 0 || endsAt >= firstRunAt, "End date before start");
+
+        _scheduleIds++;
+        uint256 scheduleId = _scheduleIds;
+
+        _schedules[scheduleId] = Schedule({
+            id: scheduleId,
+            owner: msg.sender,
+            to: to,
+            token: address(platform.settlementToken()),
+            amount: amount,
+            description: description,
+            interval: interval,
+            nextRunAt: firstRunAt,
+            endsAt: endsAt,
+            maxOccurrences: maxOccurrences,
+            occurrences: 0,
+            active: true
+        });
+        _userScheduleIds[msg.sender].push(scheduleId);
+
+        emit ScheduleCreated(scheduleId, msg.sender, to, amount, interval);
+        return scheduleId;
+    }
+
+    /**
+     * @dev Stop a schedule; transactions it already created are unaffected
+     */
+    function cancelSchedule(uint256 scheduleId) external onlyScheduleOwner(scheduleId) {
+        require(_schedules[scheduleId].active, "Schedule not active");
+
+        _schedules[scheduleId].active = false;
+        emit ScheduleCancelled(scheduleId);
+    }
+
+    /**
+     * @dev Create the next occurrence of a due schedule as a platform transaction
+     * from its owner. Anyone can call this, so a keeper doesn't need the owner's key.
+     */
+    function executeSchedule(uint256 scheduleId) external returns (uint256 transactionId) {
+        Schedule storage schedule = _schedules[scheduleId];
+        require(isDue(scheduleId), "Schedule not due");
+
+        transactionId = platform.createScheduledTransaction(
+            schedule.owner,
+            schedule.to,
+            schedule.token,
+            schedule.amount,
+            schedule.description
+        );
+
+        isScheduledTransaction[transactionId] = true;
+        schedule.occurrences++;
+        schedule.nextRunAt += schedule.interval;
+        emit ScheduleExecuted(scheduleId, transactionId, schedule.occurrences);
+
+        if (
+            (schedule.maxOccurrences != 0 && schedule.occurrences >= schedule.maxOccurrences) ||
+            (schedule.endsAt != 0 && schedule.nextRunAt > schedule.endsAt)
+        ) {
+            schedule.active = false;
+            emit ScheduleCompleted(scheduleId);
+        }
+    }
+
+    /**
+     * @dev Whether the schedule has an occurrence waiting to be created
+     */
+    function isDue(uint256 scheduleId) public view returns (bool) {
+        Schedule storage schedule = _schedules[scheduleId];
+        return schedule.active && block.timestamp >= schedule.nextRunAt;
+    }
+
+    /**
+     * @dev Get schedule by ID
+     */
+    function getSchedule(uint256 scheduleId) external view returns (Schedule memory) {
+        return _schedules[scheduleId];
+    }
+
+    /**
+     * @dev Get the IDs of the schedules a user created
+     */
+    function getUserSchedules(address owner) external view returns (uint256[] memory) {
+        return _userScheduleIds[owner];
+    }
+
+    /**
+     * @dev Get the IDs of every schedule that is currently due, for keepers
+     */
+    function getDueSchedules() external view returns (uint256[] memory dueIds) {
+        uint256 count;
+        for (uint256 id = 1; id <= _scheduleIds; id++) {
+            if (isDue(id)) count++;
+        }
+
+        dueIds = new uint256[](count);
+        uint256 index;
+        for (uint256 id = 1; id <= _scheduleIds; id++) {
+            if (isDue(id)) dueIds[index++] = id;
+        }
+    }
+
+    /**
+     * @dev Get total schedule count
+     */
+    function getScheduleCount() external view returns (uint256) {
+        return _scheduleIds;
+    }
+}
@@ -1,4 +1,32 @@
-const { ethers } = require('hardhat');
+const { ethers, network, artifacts } = require('hardhat');
+
+// Canonical Multicall3 address, already deployed on public networks
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+// Install Multicall3 at its canonical address on local networks. Uses
+// hardhat_setCode instead of a deployment so the other contract addresses
+// (derived from the deployer nonce) don't change.
+async function ensureMulticall3() {
+  const existingCode = await ethers.provider.getCode(MULTICALL3_ADDRESS);
+  if (existingCode !== '0x') {
+    console.log('Multicall3 already available at:', MULTICALL3_ADDRESS);
+    return;
+  }
+
+  if (network.name !== 'hardhat' && network.name !== 'localhost') {
+    console.log(
+      `Multicall3 not found on ${network.name}, reads won't be batched`
+    );
+    return;
+  }
+
+  const { deployedBytecode } = await artifacts.readArtifact('Multicall3');
+  await network.provider.send('hardhat_setCode', [
+    MULTICALL3_ADDRESS,
+    deployedBytecode,
+  ]);
+  console.log('Multicall3 installed at:', MULTICALL3_ADDRESS);
+}
 
 // Helper function for safe user registration
 async function safeRegisterUser(contract, address, name, email, role) {
@@ -24,6 +52,14 @@ async function main() {
     'FinancialPlatform'
   );
   const MockToken = await ethers.getContractFactory('MockToken');
+  const TransactionScheduler = await ethers.getContractFactory(
+    'TransactionScheduler'
+  );
+  const SpendingLimits = await ethers.getContractFactory('SpendingLimits');
+  const TokenAllowlist = await ethers.getContractFactory('TokenAllowlist');
+  const ApprovalDelegation = await ethers.getContractFactory(
+    'ApprovalDelegation'
+  );
 
   // Deploy FinancialPlatform
   console.log('Deploying FinancialPlatform...');
@@ -39,6 +75,78 @@ async function main() {
   const tokenAddress = await mockToken.getAddress();
   console.log('MockToken deployed to:', tokenAddress);
 
+  // Deploy TransactionScheduler
+  console.log('Deploying TransactionScheduler...');
+  const scheduler = await TransactionScheduler.deploy(platformAddress);
+  await scheduler.waitForDeployment();
+  const schedulerAddress = await scheduler.getAddress();
+  console.log('TransactionScheduler deployed to:', schedulerAddress);
+
+  // Deploy SpendingLimits
+  console.log('Deploying SpendingLimits...');
+  const spendingLimits = await SpendingLimits.deploy(platformAddress);
+  await spendingLimits.waitForDeployment();
+  const limitsAddress = await spendingLimits.getAddress();
+  console.log('SpendingLimits deployed to:', limitsAddress);
+
+  // Deploy a second token for multi-token transactions
+  console.log('Deploying Euro Token...');
+  const euroToken = await MockToken.deploy('Euro Token', 'EURT', 1000000);
+  await euroToken.waitForDeployment();
+  const euroTokenAddress = await euroToken.getAddress();
+  console.log('Euro Token deployed to:', euroTokenAddress);
+
+  // Deploy TokenAllowlist
+  console.log('Deploying TokenAllowlist...');
+  const tokenAllowlist = await TokenAllowlist.deploy(platformAddress);
+  await tokenAllowlist.waitForDeployment();
+  const allowlistAddress = await tokenAllowlist.getAddress();
+  console.log('TokenAllowlist deployed to:', allowlistAddress);
+
+  // Deploy ApprovalDelegation
+  console.log('Deploying ApprovalDelegation...');
+  const approvalDelegation = await ApprovalDelegation.deploy(platformAddress);
+  await approvalDelegation.waitForDeployment();
+  const delegationAddress = await approvalDelegation.getAddress();
+  console.log('ApprovalDelegation deployed to:', delegationAddress);
+
+  // Batches the client's contract reads
+  await ensureMulticall3();
+
+  // Settle completed transactions in MockToken
+  await financialPlatform.setSettlementToken(tokenAddress);
+  console.log('Settlement token set to MockToken');
+
+  // Transactions can also be made in the Euro Token
+  await financialPlatform.setTokenAllowlist(allowlistAddress);
+  await tokenAllowlist.setTokenAllowed(euroTokenAddress, true);
+  console.log('Euro Token added to the token allowlist');
+
+  // Let approvers delegate their approval authority
+  await financialPlatform.setApprovalDelegation(delegationAddress);
+  console.log('Approval delegation enabled');
+
+  // Let the scheduler create due occurrences of recurring transactions
+  await financialPlatform.setTransactionScheduler(schedulerAddress);
+  console.log('Transaction scheduler enabled');
+
+  // Require two Managers or one Admin above 10,000 PLT
+  await financialPlatform.setApprovalPolicy(ethers.parseEther('10000'), 2, 1);
+  console.log('Approval policy set: 2 approvals or 1 admin above 10,000 PLT');
+
+  // Approval requests left unsigned for a week can be expired
+  await financialPlatform.setApprovalDeadline(7 * 24 * 60 * 60);
+  console.log('Approval deadline set to 7 days');
+
+  // Cap Regular users at 5,000 PLT a day and 20,000 PLT a month
+  await financialPlatform.setSpendingLimits(limitsAddress);
+  await spendingLimits.setRoleLimit(
+    0,
+    ethers.parseEther('5000'),
+    ethers.parseEther('20000')
+  );
+  console.log('Spending limits set: 5,000 PLT daily, 20,000 PLT monthly');
+
   // Get signers for testing
   const [deployer, user1, user2, user3, approver1] = await ethers.getSigners();
 
@@ -88,7 +196,11 @@ async function main() {
   await mockToken.mint(await user3.getAddress(), tokenAmount);
   await mockToken.mint(await approver1.getAddress(), tokenAmount);
 
-  console.log('Minted 10,000 tokens to each user');
+  for (const account of [user1, user2, user3, approver1]) {
+    await euroToken.mint(await account.getAddress(), tokenAmount);
+  }
+
+  console.log('Minted 10,000 PLT and 10,000 EURT to each user');
 
   // Create some sample transactions
   console.log('Creating sample transactions...');
@@ -141,6 +253,23 @@ async function main() {
   await user3Platform.requestApproval(3, 'Business expense reimbursement');
   console.log('Requested approval for transaction 3');
 
+  // Repeat the salary payment monthly; run scripts/keeper.js to create the
+  // instances as they fall due
+  console.log('Creating sample schedule...');
+  const { timestamp: now } = await ethers.provider.getBlock('latest');
+  await scheduler
+    .connect(user2)
+    .createSchedule(
+      await user1.getAddress(),
+      ethers.parseEther('2500'),
+      'Monthly salary payment',
+      30 * 24 * 60 * 60,
+      now + 30 * 24 * 60 * 60,
+      0,
+      12
+    );
+  console.log('Scheduled transaction 2 to repeat monthly for a year');
+
   // NOTE: Leaving transactions in pending state for manual approval testing
   // Managers/Admins can approve these through the web interface
 
@@ -170,10 +299,27 @@ async function main() {
   console.log('Completed transaction 1');
   */
 
+  // Route new transactions by amount. Enabled after the sample data, which
+  // requests its approvals manually.
+  await financialPlatform.setApprovalTiers(
+    true,
+    ethers.parseEther('100'),
+    ethers.parseEther('10000')
+  );
+  console.log(
+    'Approval tiers set: auto-approve below 100 PLT, admin approval from 10,000 PLT'
+  );
+
   console.log('\nDeployment and setup completed successfully!');
   console.log('\nContract Addresses:');
   console.log('FinancialPlatform:', platformAddress);
   console.log('MockToken:', tokenAddress);
+  console.log('Euro Token:', euroTokenAddress);
+  console.log('TransactionScheduler:', schedulerAddress);
+  console.log('SpendingLimits:', limitsAddress);
+  console.log('TokenAllowlist:', allowlistAddress);
+  console.log('ApprovalDelegation:', delegationAddress);
+  console.log('Multicall3:', MULTICALL3_ADDRESS);
   console.log('\nTest Accounts:');
   console.log('Deployer (Admin):', await deployer.getAddress());
   console.log('User1 (Manager):', await user1.getAddress());
@@ -187,6 +333,12 @@ async function main() {
     contracts: {
       FinancialPlatform: platformAddress,
       MockToken: tokenAddress,
+      EuroToken: euroTokenAddress,
+      TransactionScheduler: schedulerAddress,
+      SpendingLimits: limitsAddress,
+      TokenAllowlist: allowlistAddress,
+      ApprovalDelegation: delegationAddress,
+      Multicall3: MULTICALL3_ADDRESS,
     },
     testAccounts: {
       deployer: await deployer.getAddress(),
@@ -0,0 +1,96 @@
+const fs = require('fs');
+const path = require('path');
+const { ethers } = require('hardhat');
+
+// Materializes due TransactionScheduler instances:
+//
+//   npx hardhat run scripts/keeper.js --network localhost
+//
+// The scheduler address comes from deployment-info.json (written by
+// deploy.js) unless SCHEDULER_ADDRESS is set. Set KEEPER_POLL_SECONDS to
+// keep running and check again on that interval.
+//
+// The scheduler creates each instance on the schedule owner's behalf, so
+// any account can run the keeper.
+
+// Occurrences created per schedule and run, so a long-idle schedule catches
+// up gradually instead of flooding the approval queue
+const MAX_CATCH_UP = 12;
+
+function loadAddresses() {
+  const infoPath = path.join(__dirname, '..', 'deployment-info.json');
+  const info = fs.existsSync(infoPath)
+    ? JSON.parse(fs.readFileSync(infoPath, 'utf8'))
+    : { contracts: {} };
+
+  const scheduler =
+    process.env.SCHEDULER_ADDRESS || info.contracts.TransactionScheduler;
+  if (!scheduler) {
+    throw new Error(
+      'Scheduler address not found; deploy first or set SCHEDULER_ADDRESS'
+    );
+  }
+  return { scheduler };
+}
+
+// Creates the platform transaction for one due occurrence
+async function executeSchedule(scheduler, schedule) {
+  const tx = await scheduler.executeSchedule(schedule.id);
+  const receipt = await tx.wait();
+  const executed = receipt.logs
+    .map((log) => scheduler.interface.parseLog(log))
+    .find((log) => log?.name === 'ScheduleExecuted');
+
+  return executed.args.transactionId;
+}
+
+async function runOnce(scheduler) {
+  const dueIds = await scheduler.getDueSchedules();
+  if (dueIds.length === 0) {
+    console.log('No schedules due');
+    return;
+  }
+
+  for (const scheduleId of dueIds) {
+    for (let i = 0; i < MAX_CATCH_UP; i++) {
+      if (!(await scheduler.isDue(scheduleId))) break;
+
+      const schedule = await scheduler.getSchedule(scheduleId);
+      try {
+        const transactionId = await executeSchedule(scheduler, schedule);
+        console.log(
+          `Schedule ${scheduleId}: created transaction ${transactionId} (${schedule.description})`
+        );
+      } catch (err) {
+        const reason =
+          err?.reason || err?.error?.message || err?.message || 'Unknown error';
+        console.log(`Schedule ${scheduleId}: could not execute: ${reason}`);
+        break;
+      }
+    }
+  }
+}
+
+async function main() {
+  const addresses = loadAddresses();
+  const scheduler = await ethers.getContractAt(
+    'TransactionScheduler',
+    addresses.scheduler
+  );
+
+  const pollSeconds = Number(process.env.KEEPER_POLL_SECONDS || 0);
+  console.log('Keeper watching TransactionScheduler at', addresses.scheduler);
+
+  await runOnce(scheduler);
+  while (pollSeconds > 0) {
+    await new Promise((resolve) => setTimeout(resolve, pollSeconds * 1000));
+    await runOnce(scheduler);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
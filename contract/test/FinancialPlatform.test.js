@@ -1,9 +1,12 @@
 const { expect } = require("chai");
 const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
 
 describe("FinancialPlatform", function () {
   let financialPlatform;
   let mockToken;
+  let tokenAllowlist;
+  let approvalDelegation;
   let owner;
   let user1, user2, user3, approver1;
   let addrs;
@@ -17,6 +20,13 @@ describe("FinancialPlatform", function () {
     financialPlatform = await FinancialPlatform.deploy();
     mockToken = await MockToken.deploy("Platform Token", "PLT", 1000000);
 
+    const TokenAllowlist = await ethers.getContractFactory("TokenAllowlist");
+    const ApprovalDelegation = await ethers.getContractFactory("ApprovalDelegation");
+    tokenAllowlist = await TokenAllowlist.deploy(await financialPlatform.getAddress());
+    approvalDelegation = await ApprovalDelegation.deploy(await financialPlatform.getAddress());
+    await financialPlatform.setTokenAllowlist(await tokenAllowlist.getAddress());
+    await financialPlatform.setApprovalDelegation(await approvalDelegation.getAddress());
+
     // Register test users
     await financialPlatform.registerUser(
       await user1.getAddress(),
@@ -80,16 +90,254 @@ describe("FinancialPlatform", function () {
     });
 
     it("Should update user roles correctly", async function () {
-      await financialPlatform.updateUserRole(await user2.getAddress(), 1); // Manager
-      const user = await financialPlatform.getUser(await user2.getAddress());
-      expect(user.role).to.equal(1);
+      await financialPlatform.updateUserRole(await user1.getAddress(), 0); // Regular
+      const user = await financialPlatform.getUser(await user1.getAddress());
+      expect(user.role).to.equal(0);
+      expect(await financialPlatform.hasRole(await financialPlatform.APPROVER_ROLE(), await user1.getAddress())).to.equal(false);
     });
 
     it("Should only allow admin to update user roles", async function () {
       await expect(
-        financialPlatform.connect(user1).updateUserRole(await user2.getAddress(), 1)
+        financialPlatform.connect(user1).updateUserRole(await user2.getAddress(), 0)
+      ).to.be.revertedWith("Admin role required");
+    });
+
+    it("Should not allow direct promotions", async function () {
+      await expect(
+        financialPlatform.updateUserRole(await user2.getAddress(), 1)
+      ).to.be.revertedWith("Promotion requires approval");
+    });
+  });
+
+  describe("Profile Updates", function () {
+    it("Should let users update their own name", async function () {
+      await expect(financialPlatform.connect(user2).updateName("Alice Smith"))
+        .to.emit(financialPlatform, "UserProfileUpdated")
+        .withArgs(
+          await user2.getAddress(),
+          await user2.getAddress(),
+          "Alice User",
+          "alice.user@company.com",
+          "Alice Smith",
+          "alice.user@company.com"
+        );
+
+      const user = await financialPlatform.getUser(await user2.getAddress());
+      expect(user.name).to.equal("Alice Smith");
+    });
+
+    it("Should not allow empty names", async function () {
+      await expect(
+        financialPlatform.connect(user2).updateName("")
+      ).to.be.revertedWith("Name cannot be empty");
+    });
+
+    it("Should let admins update a user's email", async function () {
+      await expect(
+        financialPlatform.updateUserEmail(await user2.getAddress(), "alice@company.com")
+      )
+        .to.emit(financialPlatform, "UserProfileUpdated")
+        .withArgs(
+          await user2.getAddress(),
+          owner.address,
+          "Alice User",
+          "alice.user@company.com",
+          "Alice User",
+          "alice@company.com"
+        );
+
+      const user = await financialPlatform.getUser(await user2.getAddress());
+      expect(user.email).to.equal("alice@company.com");
+    });
+
+    it("Should only allow admin to update emails", async function () {
+      await expect(
+        financialPlatform.connect(user2).updateUserEmail(await user2.getAddress(), "alice@company.com")
       ).to.be.revertedWith("Admin role required");
     });
+
+    it("Should not allow unregistered users to update their name", async function () {
+      await expect(
+        financialPlatform.connect(addrs[0]).updateName("Stranger")
+      ).to.be.revertedWith("User not registered");
+    });
+  });
+
+  describe("User Deactivation", function () {
+    it("Should deactivate a user and revoke their roles", async function () {
+      await expect(financialPlatform.deactivateUser(await user1.getAddress()))
+        .to.emit(financialPlatform, "UserDeactivated")
+        .withArgs(await user1.getAddress());
+
+      const user = await financialPlatform.getUser(await user1.getAddress());
+      expect(user.isActive).to.equal(false);
+      expect(await financialPlatform.hasRole(await financialPlatform.APPROVER_ROLE(), await user1.getAddress())).to.equal(false);
+    });
+
+    it("Should block inactive users from creating transactions", async function () {
+      await financialPlatform.deactivateUser(await user2.getAddress());
+      await expect(
+        financialPlatform.connect(user2).createTransaction(
+          await user3.getAddress(),
+          ethers.parseEther("100"),
+          "Blocked"
+        )
+      ).to.be.revertedWith("User not active");
+    });
+
+    it("Should block deactivated managers from processing approvals", async function () {
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("100"),
+        "Needs approval"
+      );
+      await financialPlatform.connect(user2).requestApproval(1, "Please approve");
+      await financialPlatform.deactivateUser(await approver1.getAddress());
+
+      await expect(
+        financialPlatform.connect(approver1).processApproval(1, true, "Approved")
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should restore roles on reactivation", async function () {
+      await financialPlatform.deactivateUser(await user1.getAddress());
+      await expect(financialPlatform.reactivateUser(await user1.getAddress()))
+        .to.emit(financialPlatform, "UserReactivated")
+        .withArgs(await user1.getAddress());
+
+      const user = await financialPlatform.getUser(await user1.getAddress());
+      expect(user.isActive).to.equal(true);
+      expect(await financialPlatform.hasRole(await financialPlatform.APPROVER_ROLE(), await user1.getAddress())).to.equal(true);
+    });
+
+    it("Should validate deactivation state", async function () {
+      await expect(
+        financialPlatform.reactivateUser(await user1.getAddress())
+      ).to.be.revertedWith("User already active");
+      await expect(
+        financialPlatform.deactivateUser(owner.address)
+      ).to.be.revertedWith("Cannot deactivate yourself");
+
+      await financialPlatform.deactivateUser(await user1.getAddress());
+      await expect(
+        financialPlatform.deactivateUser(await user1.getAddress())
+      ).to.be.revertedWith("User already inactive");
+    });
+
+    it("Should only allow admin to deactivate and reactivate users", async function () {
+      await expect(
+        financialPlatform.connect(user1).deactivateUser(await user2.getAddress())
+      ).to.be.revertedWith("Admin role required");
+      await expect(
+        financialPlatform.connect(user1).reactivateUser(await user2.getAddress())
+      ).to.be.revertedWith("Admin role required");
+    });
+  });
+
+  describe("Role Change Approvals", function () {
+    let admin2;
+
+    beforeEach(async function () {
+      admin2 = addrs[0];
+      await financialPlatform.registerUser(
+        await admin2.getAddress(),
+        "Second Admin",
+        "second.admin@company.com",
+        0 // Regular
+      );
+      // The first promotion to Admin needs no approval
+      await financialPlatform.requestRoleChange(await admin2.getAddress(), 2, "Second admin");
+    });
+
+    it("Should only create admins through promotions", async function () {
+      expect((await financialPlatform.getUser(await admin2.getAddress())).role).to.equal(2);
+      expect(await financialPlatform.getPendingApprovals()).to.deep.equal([]);
+
+      await expect(
+        financialPlatform.registerUser(addrs[1].address, "New Admin", "new.admin@company.com", 2)
+      ).to.be.revertedWith("Admins must be promoted");
+    });
+
+    it("Should create a UserRole approval for a promotion", async function () {
+      await expect(
+        financialPlatform.requestRoleChange(await user2.getAddress(), 2, "Promote to admin")
+      )
+        .to.emit(financialPlatform, "RoleChangeRequested")
+        .withArgs(1, await user2.getAddress(), 2);
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.approvalType).to.equal(1); // UserRole
+      expect(approval.transactionId).to.equal(0);
+      expect(approval.requester).to.equal(owner.address);
+
+      const request = await financialPlatform.roleChangeRequests(1);
+      expect(request.userAddress).to.equal(await user2.getAddress());
+      expect(request.newRole).to.equal(2);
+    });
+
+    it("Should apply the role once another admin approves", async function () {
+      await financialPlatform.requestRoleChange(await user2.getAddress(), 2, "Promote to admin");
+
+      await expect(financialPlatform.connect(admin2).processApproval(1, true, "Agreed"))
+        .to.emit(financialPlatform, "UserRoleUpdated")
+        .withArgs(await user2.getAddress(), 2);
+
+      const user = await financialPlatform.getUser(await user2.getAddress());
+      expect(user.role).to.equal(2);
+      expect(await financialPlatform.hasRole(await financialPlatform.ADMIN_ROLE(), await user2.getAddress())).to.equal(true);
+    });
+
+    it("Should leave the role unchanged when rejected", async function () {
+      await financialPlatform.requestRoleChange(await user2.getAddress(), 1, "Promote to manager");
+      await financialPlatform.connect(admin2).processApproval(1, false, "Not yet");
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.status).to.equal(2); // Rejected
+      const user = await financialPlatform.getUser(await user2.getAddress());
+      expect(user.role).to.equal(0);
+    });
+
+    it("Should not allow the requester to process their own request", async function () {
+      await financialPlatform.requestRoleChange(await user2.getAddress(), 2, "Promote to admin");
+      await expect(
+        financialPlatform.processApproval(1, true, "Self approval")
+      ).to.be.revertedWith("Cannot process own request");
+    });
+
+    it("Should only allow admins to process role changes", async function () {
+      await financialPlatform.requestRoleChange(await user2.getAddress(), 1, "Promote to manager");
+      await expect(
+        financialPlatform.connect(approver1).processApproval(1, true, "Approved")
+      ).to.be.revertedWith("Admin role required");
+    });
+
+    it("Should only allow promotions to be requested", async function () {
+      await expect(
+        financialPlatform.requestRoleChange(await user1.getAddress(), 0, "Demote")
+      ).to.be.revertedWith("Not a promotion");
+      await expect(
+        financialPlatform.connect(user1).requestRoleChange(await user2.getAddress(), 1, "Promote")
+      ).to.be.revertedWith("Admin role required");
+    });
+
+    it("Should change the settlement token through a SystemConfig approval", async function () {
+      await financialPlatform.setSettlementToken(await mockToken.getAddress());
+      await expect(
+        financialPlatform.setSettlementToken(await user3.getAddress())
+      ).to.be.revertedWith("Settlement token already set");
+
+      await expect(
+        financialPlatform.requestSettlementTokenChange(await user3.getAddress(), "Migrate token")
+      )
+        .to.emit(financialPlatform, "SettlementTokenChangeRequested")
+        .withArgs(1, await user3.getAddress());
+      expect((await financialPlatform.getApproval(1)).approvalType).to.equal(2); // SystemConfig
+
+      await expect(financialPlatform.connect(admin2).processApproval(1, true, "Agreed"))
+        .to.emit(financialPlatform, "SettlementTokenUpdated")
+        .withArgs(await user3.getAddress());
+      expect(await financialPlatform.settlementToken()).to.equal(await user3.getAddress());
+    });
   });
 
   describe("Transaction Management", function () {
@@ -203,8 +451,298 @@ describe("FinancialPlatform", function () {
     });
   });
 
+  describe("Batch Approvals", function () {
+    beforeEach(async function () {
+      for (let i = 0; i < 3; i++) {
+        await financialPlatform.connect(user2).createTransaction(
+          await user3.getAddress(),
+          ethers.parseEther("100"),
+          `Batch transaction ${i + 1}`
+        );
+        await financialPlatform.connect(user2).requestApproval(i + 1, "Need approval");
+      }
+    });
+
+    it("Should approve several approvals in one call", async function () {
+      await financialPlatform.connect(approver1).processApprovals([1, 2, 3], true, "Batch approved");
+
+      for (const id of [1, 2, 3]) {
+        const approval = await financialPlatform.getApproval(id);
+        expect(approval.status).to.equal(1); // Approved
+        expect(approval.reason).to.equal("Batch approved");
+        expect((await financialPlatform.getTransaction(id)).status).to.equal(1); // Active
+      }
+      expect(await financialPlatform.getPendingApprovals()).to.deep.equal([]);
+    });
+
+    it("Should skip approvals that can't be processed", async function () {
+      await financialPlatform.connect(approver1).processApproval(2, false, "Rejected");
+
+      expect(
+        await financialPlatform.connect(approver1).processApprovals.staticCall([1, 2, 99], true, "Batch")
+      ).to.deep.equal([true, false, false]);
+
+      await expect(financialPlatform.connect(approver1).processApprovals([1, 2, 99], true, "Batch"))
+        .to.emit(financialPlatform, "ApprovalProcessingFailed")
+        .withArgs(2, await approver1.getAddress(), "Approval already processed")
+        .and.to.emit(financialPlatform, "ApprovalProcessingFailed")
+        .withArgs(99, await approver1.getAddress(), "Approval does not exist");
+
+      expect((await financialPlatform.getApproval(1)).status).to.equal(1); // Approved
+      expect((await financialPlatform.getApproval(3)).status).to.equal(0); // Pending
+    });
+
+    it("Should only allow approvers to process batches", async function () {
+      await expect(
+        financialPlatform.connect(user3).processApprovals([1], true, "Not authorized")
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should validate the batch size", async function () {
+      await expect(
+        financialPlatform.connect(approver1).processApprovals([], true, "Empty")
+      ).to.be.revertedWith("No approvals");
+
+      const ids = Array.from({ length: 51 }, (_, i) => i + 1);
+      await expect(
+        financialPlatform.connect(approver1).processApprovals(ids, true, "Too many")
+      ).to.be.revertedWith("Batch too large");
+    });
+  });
+
+  describe("Multi-Signature Approvals", function () {
+    beforeEach(async function () {
+      // Two Managers or one Admin above 10,000 PLT
+      await financialPlatform.setApprovalPolicy(ethers.parseEther("10000"), 2, 1);
+
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("20000"),
+        "Large transaction"
+      );
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+    });
+
+    it("Should snapshot policy thresholds on the approval", async function () {
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.requiredApprovals).to.equal(2);
+      expect(approval.requiredAdminApprovals).to.equal(1);
+    });
+
+    it("Should keep approval pending until the threshold is met", async function () {
+      await expect(
+        financialPlatform.connect(approver1).processApproval(1, true, "First signature")
+      )
+        .to.emit(financialPlatform, "ApprovalSigned")
+        .withArgs(1, await approver1.getAddress(), true, 1);
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.status).to.equal(0); // Pending
+
+      const transaction = await financialPlatform.getTransaction(1);
+      expect(transaction.status).to.equal(0); // Pending
+
+      const signatures = await financialPlatform.getApprovalSignatures(1);
+      expect(signatures.length).to.equal(1);
+      expect(signatures[0].approver).to.equal(await approver1.getAddress());
+      expect(signatures[0].isAdmin).to.equal(false);
+    });
+
+    it("Should approve once two managers have signed", async function () {
+      await financialPlatform.connect(approver1).processApproval(1, true, "First signature");
+      await expect(
+        financialPlatform.connect(user1).processApproval(1, true, "Second signature")
+      ).to.emit(financialPlatform, "ApprovalProcessed");
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.status).to.equal(1); // Approved
+      expect(approval.approver).to.equal(await user1.getAddress());
+
+      const transaction = await financialPlatform.getTransaction(1);
+      expect(transaction.status).to.equal(1); // Active
+    });
+
+    it("Should approve with a single admin signature", async function () {
+      await financialPlatform.processApproval(1, true, "Admin approval");
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.status).to.equal(1); // Approved
+    });
+
+    it("Should reject when any signer rejects", async function () {
+      await financialPlatform.connect(approver1).processApproval(1, true, "First signature");
+      await financialPlatform.connect(user1).processApproval(1, false, "Not justified");
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.status).to.equal(2); // Rejected
+
+      const transaction = await financialPlatform.getTransaction(1);
+      expect(transaction.status).to.equal(3); // Rejected
+    });
+
+    it("Should not allow the same approver to sign twice", async function () {
+      await financialPlatform.connect(approver1).processApproval(1, true, "First signature");
+      await expect(
+        financialPlatform.connect(approver1).processApproval(1, true, "Again")
+      ).to.be.revertedWith("Already signed");
+    });
+
+    it("Should not let approvers sign their own transactions", async function () {
+      await financialPlatform.connect(user1).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("20000"),
+        "Manager's transaction"
+      );
+      await financialPlatform.connect(user1).requestApproval(2, "Need approval");
+
+      await expect(
+        financialPlatform.connect(user1).processApproval(2, true, "Self approval")
+      ).to.be.revertedWith("Cannot process own request");
+
+      // Nor through a delegate
+      const now = BigInt(await time.latest());
+      await approvalDelegation.connect(user1).delegateApprovals(await user2.getAddress(), now, now + 3600n);
+      await expect(
+        financialPlatform.connect(user2).processApproval(2, true, "Covering")
+      ).to.be.revertedWith("Cannot process own request");
+
+      await financialPlatform.connect(approver1).processApproval(2, true, "First signature");
+      expect((await financialPlatform.getApproval(2)).status).to.equal(0); // Pending
+    });
+
+    it("Should require a single approval below the policy threshold", async function () {
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("500"),
+        "Small transaction"
+      );
+      await financialPlatform.connect(user2).requestApproval(2, "Need approval");
+      await financialPlatform.connect(approver1).processApproval(2, true, "Approved");
+
+      const approval = await financialPlatform.getApproval(2);
+      expect(approval.status).to.equal(1); // Approved
+    });
+
+    it("Should pick the highest matching policy tier", async function () {
+      await financialPlatform.setApprovalPolicy(ethers.parseEther("50000"), 3, 2);
+
+      const [mid] = await financialPlatform.getRequiredApprovals(ethers.parseEther("20000"));
+      const [high, highAdmins] = await financialPlatform.getRequiredApprovals(ethers.parseEther("60000"));
+      const [low] = await financialPlatform.getRequiredApprovals(ethers.parseEther("100"));
+
+      expect(mid).to.equal(2);
+      expect(high).to.equal(3);
+      expect(highAdmins).to.equal(2);
+      expect(low).to.equal(1);
+    });
+
+    it("Should update and remove policies", async function () {
+      await financialPlatform.setApprovalPolicy(ethers.parseEther("10000"), 3, 0);
+      let policies = await financialPlatform.getApprovalPolicies();
+      expect(policies.length).to.equal(1);
+      expect(policies[0].requiredApprovals).to.equal(3);
+
+      await financialPlatform.removeApprovalPolicy(ethers.parseEther("10000"));
+      policies = await financialPlatform.getApprovalPolicies();
+      expect(policies.length).to.equal(0);
+
+      await expect(
+        financialPlatform.removeApprovalPolicy(ethers.parseEther("10000"))
+      ).to.be.revertedWith("Policy not found");
+    });
+
+    it("Should only allow admin to configure policies", async function () {
+      await expect(
+        financialPlatform.connect(user1).setApprovalPolicy(0, 2, 0)
+      ).to.be.revertedWith("Admin role required");
+    });
+  });
+
+  describe("Approval Routing", function () {
+    beforeEach(async function () {
+      await financialPlatform.setApprovalTiers(true, ethers.parseEther("100"), ethers.parseEther("10000"));
+    });
+
+    function send(amount) {
+      return financialPlatform.connect(user2).createTransaction(
+        user3.address,
+        ethers.parseEther(amount),
+        "Routed payment"
+      );
+    }
+
+    it("Should approve small amounts on creation", async function () {
+      await expect(send("99"))
+        .to.emit(financialPlatform, "TransactionStatusUpdated")
+        .withArgs(1, 1); // Active
+
+      expect((await financialPlatform.getTransaction(1)).approvalId).to.equal(0);
+      expect(await financialPlatform.getPendingApprovals()).to.deep.equal([]);
+    });
+
+    it("Should request approval from any approver for mid amounts", async function () {
+      await expect(send("100"))
+        .to.emit(financialPlatform, "ApprovalRequested")
+        .withArgs(1, 1, await user2.getAddress());
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.reason).to.equal("Routed payment");
+      expect(approval.approverRole).to.equal(1); // Manager
+      expect((await financialPlatform.getTransaction(1)).approvalId).to.equal(1);
+
+      await financialPlatform.connect(approver1).processApproval(1, true, "Approved");
+      expect((await financialPlatform.getTransaction(1)).status).to.equal(1); // Active
+    });
+
+    it("Should only let admins approve large amounts", async function () {
+      await send("10000");
+      expect((await financialPlatform.getApproval(1)).approverRole).to.equal(2); // Admin
+
+      await expect(
+        financialPlatform.connect(approver1).processApproval(1, true, "Approved")
+      ).to.be.revertedWith("Admin role required");
+
+      await financialPlatform.processApproval(1, true, "Approved");
+      expect((await financialPlatform.getTransaction(1)).status).to.equal(1); // Active
+    });
+
+    it("Should not request approval twice", async function () {
+      await send("500");
+      await expect(
+        financialPlatform.connect(user2).requestApproval(1, "Again")
+      ).to.be.revertedWith("Approval already requested");
+    });
+
+    it("Should leave new transactions pending when disabled", async function () {
+      await expect(financialPlatform.setApprovalTiers(false, 0, 0))
+        .to.emit(financialPlatform, "ApprovalTiersUpdated")
+        .withArgs(false, 0, 0);
+      await send("1");
+
+      expect((await financialPlatform.getTransaction(1)).status).to.equal(0); // Pending
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+      expect((await financialPlatform.getApproval(1)).approverRole).to.equal(1); // Manager
+    });
+
+    it("Should validate and restrict tier changes", async function () {
+      await expect(
+        financialPlatform.setApprovalTiers(true, 2, 1)
+      ).to.be.revertedWith("Invalid approval tiers");
+      await expect(
+        financialPlatform.connect(user1).setApprovalTiers(true, 1, 2)
+      ).to.be.revertedWith("Admin role required");
+    });
+  });
+
   describe("Transaction Completion", function () {
     beforeEach(async function () {
+      // Configure settlement and fund the sender
+      await financialPlatform.setSettlementToken(await mockToken.getAddress());
+      await mockToken.mint(await user2.getAddress(), ethers.parseEther("5000"));
+      await mockToken
+        .connect(user2)
+        .approve(await financialPlatform.getAddress(), ethers.parseEther("1000"));
+
       // Create, request approval, and approve a transaction
       await financialPlatform.connect(user2).createTransaction(
         await user3.getAddress(),
@@ -222,6 +760,60 @@ describe("FinancialPlatform", function () {
       expect(transaction.status).to.equal(2); // Completed
     });
 
+    it("Should transfer tokens from sender to recipient on completion", async function () {
+      await expect(
+        financialPlatform.connect(user2).completeTransaction(1)
+      ).to.changeTokenBalances(
+        mockToken,
+        [user2, user3],
+        [-ethers.parseEther("1000"), ethers.parseEther("1000")]
+      );
+    });
+
+    it("Should emit TransactionSettled event", async function () {
+      await expect(financialPlatform.connect(user2).completeTransaction(1))
+        .to.emit(financialPlatform, "TransactionSettled")
+        .withArgs(
+          1,
+          await mockToken.getAddress(),
+          await user2.getAddress(),
+          await user3.getAddress(),
+          ethers.parseEther("1000")
+        );
+    });
+
+    it("Should not complete without sufficient allowance", async function () {
+      await mockToken
+        .connect(user2)
+        .approve(await financialPlatform.getAddress(), 0);
+
+      await expect(
+        financialPlatform.connect(user2).completeTransaction(1)
+      ).to.be.revertedWithCustomError(mockToken, "ERC20InsufficientAllowance");
+
+      const transaction = await financialPlatform.getTransaction(1);
+      expect(transaction.status).to.equal(1); // Still Active
+    });
+
+    it("Should not complete when no settlement token is set", async function () {
+      const FinancialPlatform = await ethers.getContractFactory("FinancialPlatform");
+      const freshPlatform = await FinancialPlatform.deploy();
+      await freshPlatform.registerUser(await user2.getAddress(), "Alice User", "alice.user@company.com", 0);
+      await freshPlatform.connect(user2).createTransaction(await user3.getAddress(), 1, "Test transaction");
+      await freshPlatform.connect(user2).requestApproval(1, "Need approval");
+      await freshPlatform.processApproval(1, true, "Approved");
+
+      await expect(
+        freshPlatform.connect(user2).completeTransaction(1)
+      ).to.be.revertedWith("Settlement token not set");
+    });
+
+    it("Should only allow admin to set the settlement token", async function () {
+      await expect(
+        financialPlatform.connect(user1).setSettlementToken(await mockToken.getAddress())
+      ).to.be.revertedWith("Admin role required");
+    });
+
     it("Should only allow transaction owner to complete", async function () {
       await expect(
         financialPlatform.connect(user3).completeTransaction(1)
@@ -242,6 +834,418 @@ describe("FinancialPlatform", function () {
     });
   });
 
+  describe("Multiple Tokens", function () {
+    let euroToken;
+
+    beforeEach(async function () {
+      const MockToken = await ethers.getContractFactory("MockToken");
+      euroToken = await MockToken.deploy("Euro Token", "EURT", 1000000);
+
+      await financialPlatform.setSettlementToken(await mockToken.getAddress());
+      await tokenAllowlist.setTokenAllowed(await euroToken.getAddress(), true);
+    });
+
+    it("Should manage the token allowlist", async function () {
+      const euroAddress = await euroToken.getAddress();
+      expect(await tokenAllowlist.getAllowedTokens()).to.deep.equal([euroAddress]);
+
+      await expect(
+        tokenAllowlist.setTokenAllowed(euroAddress, true)
+      ).to.be.revertedWith("Token allowlist unchanged");
+      await expect(
+        tokenAllowlist.setTokenAllowed(ethers.ZeroAddress, true)
+      ).to.be.revertedWith("Invalid token address");
+      await expect(
+        tokenAllowlist.connect(user1).setTokenAllowed(euroAddress, false)
+      ).to.be.revertedWith("Admin role required");
+
+      await expect(tokenAllowlist.setTokenAllowed(euroAddress, false))
+        .to.emit(tokenAllowlist, "TokenAllowlistUpdated")
+        .withArgs(euroAddress, false);
+      expect(await tokenAllowlist.allowedTokens(euroAddress)).to.equal(false);
+      expect(await tokenAllowlist.getAllowedTokens()).to.deep.equal([]);
+    });
+
+    it("Should record the token of each transaction", async function () {
+      await financialPlatform.connect(user2).createTokenTransaction(
+        await user3.getAddress(),
+        await euroToken.getAddress(),
+        ethers.parseEther("50"),
+        "Euro payment"
+      );
+      expect((await financialPlatform.getTransaction(1)).token).to.equal(await euroToken.getAddress());
+
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("50"),
+        "Platform payment"
+      );
+      expect((await financialPlatform.getTransaction(2)).token).to.equal(await mockToken.getAddress());
+    });
+
+    it("Should keep the token of open transactions when the settlement token changes", async function () {
+      const admin2 = addrs[0];
+      await financialPlatform.registerUser(await admin2.getAddress(), "Second Admin", "admin2@company.com", 0);
+      await financialPlatform.requestRoleChange(await admin2.getAddress(), 2, "Second admin");
+
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("100"),
+        "Platform payment"
+      );
+      await financialPlatform.requestSettlementTokenChange(await euroToken.getAddress(), "Switch to euros");
+      await financialPlatform.connect(admin2).processApproval(1, true, "Agreed");
+
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+      await financialPlatform.connect(approver1).processApproval(2, true, "Approved");
+
+      await mockToken.mint(await user2.getAddress(), ethers.parseEther("100"));
+      await mockToken.connect(user2).approve(await financialPlatform.getAddress(), ethers.parseEther("100"));
+      await expect(financialPlatform.connect(user2).completeTransaction(1)).to.changeTokenBalances(
+        mockToken,
+        [user2, user3],
+        [-ethers.parseEther("100"), ethers.parseEther("100")]
+      );
+    });
+
+    it("Should only accept allowed tokens", async function () {
+      await expect(
+        financialPlatform.connect(user2).createTokenTransaction(
+          await user3.getAddress(),
+          await user1.getAddress(),
+          1,
+          "Unknown token"
+        )
+      ).to.be.revertedWith("Token not allowed");
+
+      // Without an allowlist only the settlement token is accepted
+      await expect(
+        financialPlatform.connect(user1).setTokenAllowlist(ethers.ZeroAddress)
+      ).to.be.revertedWith("Admin role required");
+      await expect(financialPlatform.setTokenAllowlist(ethers.ZeroAddress))
+        .to.emit(financialPlatform, "TokenAllowlistChanged")
+        .withArgs(ethers.ZeroAddress);
+      await expect(
+        financialPlatform.connect(user2).createTokenTransaction(
+          await user3.getAddress(),
+          await euroToken.getAddress(),
+          1,
+          "Euro payment"
+        )
+      ).to.be.revertedWith("Token not allowed");
+    });
+
+    it("Should settle in the transaction's token", async function () {
+      await euroToken.mint(await user2.getAddress(), ethers.parseEther("100"));
+      await euroToken.connect(user2).approve(await financialPlatform.getAddress(), ethers.parseEther("100"));
+
+      await financialPlatform.connect(user2).createTokenTransaction(
+        await user3.getAddress(),
+        await euroToken.getAddress(),
+        ethers.parseEther("100"),
+        "Euro payment"
+      );
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+      await financialPlatform.connect(approver1).processApproval(1, true, "Approved");
+
+      // Removing a token from the allowlist doesn't strand its transactions
+      await tokenAllowlist.setTokenAllowed(await euroToken.getAddress(), false);
+
+      const completion = financialPlatform.connect(user2).completeTransaction(1);
+      await expect(completion).to.changeTokenBalances(
+        euroToken,
+        [user2, user3],
+        [-ethers.parseEther("100"), ethers.parseEther("100")]
+      );
+      await expect(completion)
+        .to.emit(financialPlatform, "TransactionSettled")
+        .withArgs(
+          1,
+          await euroToken.getAddress(),
+          await user2.getAddress(),
+          await user3.getAddress(),
+          ethers.parseEther("100")
+        );
+    });
+
+    it("Should send transactions in other tokens to admins when routing", async function () {
+      await financialPlatform.setApprovalTiers(true, ethers.parseEther("100"), ethers.parseEther("10000"));
+      await financialPlatform.connect(user2).createTokenTransaction(
+        await user3.getAddress(),
+        await euroToken.getAddress(),
+        1,
+        "Small euro payment"
+      );
+
+      expect((await financialPlatform.getTransaction(1)).status).to.equal(0); // Pending
+      expect((await financialPlatform.getApproval(1)).approverRole).to.equal(2); // Admin
+    });
+
+    it("Should apply the strictest approval policy to other tokens", async function () {
+      await financialPlatform.setApprovalPolicy(ethers.parseEther("10000"), 2, 1);
+      await financialPlatform.connect(user2).createTokenTransaction(
+        await user3.getAddress(),
+        await euroToken.getAddress(),
+        1,
+        "Small euro payment"
+      );
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.requiredApprovals).to.equal(2);
+      expect(approval.requiredAdminApprovals).to.equal(1);
+    });
+  });
+
+  describe("Cancellation and Expiry", function () {
+    beforeEach(async function () {
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("100"),
+        "Stale transaction"
+      );
+    });
+
+    it("Should let the owner cancel a pending transaction", async function () {
+      await expect(financialPlatform.connect(user2).cancelTransaction(1))
+        .to.emit(financialPlatform, "TransactionStatusUpdated")
+        .withArgs(1, 4); // Cancelled
+
+      expect((await financialPlatform.getTransaction(1)).status).to.equal(4);
+    });
+
+    it("Should cancel the pending approval with the transaction", async function () {
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+
+      await expect(financialPlatform.connect(user2).cancelTransaction(1))
+        .to.emit(financialPlatform, "ApprovalProcessed")
+        .withArgs(1, 3, await user2.getAddress()); // Cancelled
+
+      expect((await financialPlatform.getApproval(1)).status).to.equal(3);
+      expect(await financialPlatform.getPendingApprovals()).to.deep.equal([]);
+      await expect(
+        financialPlatform.connect(approver1).processApproval(1, true, "Too late")
+      ).to.be.revertedWith("Approval already processed");
+    });
+
+    it("Should only allow the owner to cancel open transactions", async function () {
+      await expect(
+        financialPlatform.connect(user3).cancelTransaction(1)
+      ).to.be.revertedWith("Not transaction owner");
+
+      await financialPlatform.connect(user2).cancelTransaction(1);
+      await expect(
+        financialPlatform.connect(user2).cancelTransaction(1)
+      ).to.be.revertedWith("Transaction cannot be cancelled");
+    });
+
+    it("Should snapshot the approval deadline on new requests", async function () {
+      await expect(financialPlatform.setApprovalDeadline(3600))
+        .to.emit(financialPlatform, "ApprovalDeadlineUpdated")
+        .withArgs(3600);
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+
+      const approval = await financialPlatform.getApproval(1);
+      expect(approval.expiresAt).to.equal(approval.timestamp + 3600n);
+
+      await financialPlatform.setApprovalDeadline(0);
+      expect((await financialPlatform.getApproval(1)).expiresAt).to.equal(approval.expiresAt);
+    });
+
+    it("Should expire approvals after the deadline", async function () {
+      await financialPlatform.setApprovalDeadline(3600);
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+
+      await expect(
+        financialPlatform.connect(user3).expireApproval(1)
+      ).to.be.revertedWith("Approval not expired");
+
+      await time.increase(3601);
+
+      await expect(
+        financialPlatform.connect(approver1).processApproval(1, true, "Too late")
+      ).to.be.revertedWith("Approval expired");
+
+      await expect(financialPlatform.connect(user3).expireApproval(1))
+        .to.emit(financialPlatform, "TransactionStatusUpdated")
+        .withArgs(1, 5); // Expired
+
+      expect((await financialPlatform.getApproval(1)).status).to.equal(4); // Expired
+      expect(await financialPlatform.getPendingApprovals()).to.deep.equal([]);
+    });
+
+    it("Should never expire approvals without a deadline", async function () {
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+      await time.increase(365 * 24 * 3600);
+
+      await expect(
+        financialPlatform.expireApproval(1)
+      ).to.be.revertedWith("Approval not expired");
+    });
+
+    it("Should only allow admin to set the approval deadline", async function () {
+      await expect(
+        financialPlatform.connect(user1).setApprovalDeadline(3600)
+      ).to.be.revertedWith("Admin role required");
+    });
+  });
+
+  describe("Approval Delegation", function () {
+    let now;
+
+    beforeEach(async function () {
+      now = BigInt(await time.latest());
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("100"),
+        "Covered transaction"
+      );
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+    });
+
+    it("Should let a delegate sign on the approver's behalf", async function () {
+      await expect(
+        approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now, now + 3600n)
+      )
+        .to.emit(approvalDelegation, "ApprovalDelegated")
+        .withArgs(await user1.getAddress(), await user3.getAddress(), now, now + 3600n);
+      expect(await approvalDelegation.activeDelegator(await user3.getAddress())).to.equal(await user1.getAddress());
+
+      await expect(financialPlatform.connect(user3).processApproval(1, true, "Covering"))
+        .to.emit(financialPlatform, "ApprovalSigned")
+        .withArgs(1, await user1.getAddress(), true, 1);
+
+      const [signature] = await financialPlatform.getApprovalSignatures(1);
+      expect(signature.approver).to.equal(await user1.getAddress());
+      expect(signature.delegate).to.equal(await user3.getAddress());
+      expect((await financialPlatform.getTransaction(1)).status).to.equal(1); // Active
+    });
+
+    it("Should count the delegate and delegator as one signer", async function () {
+      await financialPlatform.setApprovalPolicy(0, 2, 0);
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("100"),
+        "Needs two approvals"
+      );
+      await financialPlatform.connect(user2).requestApproval(2, "Need approval");
+      await approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now, now + 3600n);
+
+      await financialPlatform.connect(user3).processApproval(2, true, "Covering");
+      await expect(
+        financialPlatform.connect(user1).processApproval(2, true, "Back early")
+      ).to.be.revertedWith("Already signed");
+    });
+
+    it("Should only honour the delegation during its period", async function () {
+      await approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now + 600n, now + 3600n);
+
+      await expect(
+        financialPlatform.connect(user3).processApproval(1, true, "Too early")
+      ).to.be.revertedWith("Not authorized");
+
+      await time.increase(3600);
+
+      await expect(
+        financialPlatform.connect(user3).processApproval(1, true, "Too late")
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should stop honouring a revoked delegation", async function () {
+      await approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now, now + 3600n);
+
+      await expect(approvalDelegation.connect(user1).revokeDelegation())
+        .to.emit(approvalDelegation, "DelegationRevoked")
+        .withArgs(await user1.getAddress(), await user3.getAddress());
+
+      expect(await approvalDelegation.activeDelegator(await user3.getAddress())).to.equal(ethers.ZeroAddress);
+      await expect(
+        financialPlatform.connect(user3).processApproval(1, true, "Covering")
+      ).to.be.revertedWith("Not authorized");
+      await expect(
+        approvalDelegation.connect(user1).revokeDelegation()
+      ).to.be.revertedWith("No delegation");
+    });
+
+    it("Should lapse when the delegator loses the approver role", async function () {
+      await approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now, now + 3600n);
+      await financialPlatform.deactivateUser(await user1.getAddress());
+
+      await expect(
+        financialPlatform.connect(user3).processApproval(1, true, "Covering")
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should let an admin's delegate sign admin-tier transactions", async function () {
+      const [delegate] = addrs;
+      await financialPlatform.registerUser(delegate.address, "Admin Delegate", "delegate@company.com", 0);
+      await financialPlatform.setApprovalTiers(true, ethers.parseEther("100"), ethers.parseEther("10000"));
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("10000"),
+        "Admin tier"
+      );
+      expect((await financialPlatform.getApproval(2)).approverRole).to.equal(2); // Admin
+
+      await approvalDelegation.delegateApprovals(delegate.address, now, now + 3600n);
+      await financialPlatform.connect(delegate).processApproval(2, true, "Covering");
+
+      const [signature] = await financialPlatform.getApprovalSignatures(2);
+      expect(signature.approver).to.equal(owner.address);
+      expect(signature.isAdmin).to.equal(true);
+      expect((await financialPlatform.getTransaction(2)).status).to.equal(1); // Active
+    });
+
+    it("Should not let delegates sign role or config changes", async function () {
+      const [delegate, admin2] = addrs;
+      await financialPlatform.registerUser(delegate.address, "Admin Delegate", "delegate@company.com", 0);
+      await financialPlatform.registerUser(admin2.address, "Second Admin", "second.admin@company.com", 0);
+      await financialPlatform.requestRoleChange(admin2.address, 2, "Second admin");
+      await approvalDelegation.delegateApprovals(delegate.address, now, now + 3600n);
+
+      await financialPlatform.connect(admin2).requestRoleChange(await user2.getAddress(), 2, "Promote to admin");
+      await expect(
+        financialPlatform.connect(delegate).processApproval(2, true, "Covering")
+      ).to.be.revertedWith("Delegates cannot sign admin requests");
+      expect((await financialPlatform.getUser(await user2.getAddress())).role).to.equal(0);
+
+      await financialPlatform.processApproval(2, true, "Agreed");
+      expect((await financialPlatform.getUser(await user2.getAddress())).role).to.equal(2);
+    });
+
+    it("Should stop honouring delegations when the delegation contract is removed", async function () {
+      await approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now, now + 3600n);
+
+      await expect(
+        financialPlatform.connect(user1).setApprovalDelegation(ethers.ZeroAddress)
+      ).to.be.revertedWith("Admin role required");
+      await expect(financialPlatform.setApprovalDelegation(ethers.ZeroAddress))
+        .to.emit(financialPlatform, "ApprovalDelegationChanged")
+        .withArgs(ethers.ZeroAddress);
+
+      await expect(
+        financialPlatform.connect(user3).processApproval(1, true, "Covering")
+      ).to.be.revertedWith("Not authorized");
+    });
+
+    it("Should validate the delegate and period", async function () {
+      await expect(
+        approvalDelegation.connect(user2).delegateApprovals(await user3.getAddress(), now, now + 3600n)
+      ).to.be.revertedWith("Not authorized");
+      await expect(
+        approvalDelegation.connect(user1).delegateApprovals(await approver1.getAddress(), now, now + 3600n)
+      ).to.be.revertedWith("Delegate is already an approver");
+      await expect(
+        approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now + 3600n, now)
+      ).to.be.revertedWith("Invalid delegation period");
+
+      await approvalDelegation.connect(user1).delegateApprovals(await user3.getAddress(), now, now + 3600n);
+      await expect(
+        approvalDelegation.connect(approver1).delegateApprovals(await user3.getAddress(), now, now + 3600n)
+      ).to.be.revertedWith("Delegate already covers another approver");
+    });
+  });
+
   describe("Data Retrieval", function () {
     beforeEach(async function () {
       // Create multiple transactions
@@ -320,6 +1324,25 @@ describe("FinancialPlatform", function () {
       expect(allUsers.length).to.equal(1); // Only the deployer (admin)
       expect(allTransactions.length).to.equal(0); // No transactions
     });
+
+    it("Should paginate user transactions newest first", async function () {
+      const [page, total] = await financialPlatform.getUserTransactionsPaginated(
+        await user2.getAddress(),
+        1,
+        10
+      );
+      expect(total).to.equal(3);
+      expect(page).to.deep.equal([2n, 1n]);
+    });
+
+    it("Should reject invalid page sizes", async function () {
+      await expect(
+        financialPlatform.getUserTransactionsPaginated(await user2.getAddress(), 0, 0)
+      ).to.be.revertedWith("Invalid page size");
+      await expect(
+        financialPlatform.getPendingApprovalsPaginated(0, 101)
+      ).to.be.revertedWith("Invalid page size");
+    });
   });
 
   describe("Pending Approvals", function () {
@@ -347,6 +1370,76 @@ describe("FinancialPlatform", function () {
       const pendingApprovals = await financialPlatform.getPendingApprovals();
       expect(pendingApprovals.length).to.equal(1); // Only approval 2 should be pending
     });
+
+    it("Should paginate pending approvals", async function () {
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("250"),
+        "Transaction 3"
+      );
+      await financialPlatform.connect(user2).requestApproval(3, "Approval 3");
+
+      const [page, total] = await financialPlatform.getPendingApprovalsPaginated(0, 1);
+      expect(total).to.equal(2);
+      expect(page.length).to.equal(1);
+
+      const [all] = await financialPlatform.getPendingApprovalsPaginated(0, 10);
+      expect([...all].sort()).to.deep.equal([2n, 3n]);
+    });
+  });
+
+  describe("Multicall Reads", function () {
+    let multicall;
+
+    beforeEach(async function () {
+      const Multicall3 = await ethers.getContractFactory("Multicall3");
+      multicall = await Multicall3.deploy();
+
+      await financialPlatform.connect(user2).createTransaction(
+        await user3.getAddress(),
+        ethers.parseEther("1000"),
+        "Transaction 1"
+      );
+    });
+
+    it("Should batch platform reads into a single call", async function () {
+      const target = await financialPlatform.getAddress();
+      const calls = [
+        financialPlatform.interface.encodeFunctionData("getTransaction", [1]),
+        financialPlatform.interface.encodeFunctionData("getUser", [await user2.getAddress()]),
+      ].map((callData) => ({ target, allowFailure: true, callData }));
+
+      const results = await multicall.aggregate3.staticCall(calls);
+      expect(results.length).to.equal(2);
+
+      const [transaction] = financialPlatform.interface.decodeFunctionResult(
+        "getTransaction",
+        results[0].returnData
+      );
+      const [user] = financialPlatform.interface.decodeFunctionResult(
+        "getUser",
+        results[1].returnData
+      );
+      expect(transaction.description).to.equal("Transaction 1");
+      expect(user.name).to.equal("Alice User");
+    });
+
+    it("Should report failed calls without reverting the batch", async function () {
+      const target = await financialPlatform.getAddress();
+      // Admin-only views fail since msg.sender is the multicall contract
+      const calls = [
+        financialPlatform.interface.encodeFunctionData("getAllTransactions"),
+        financialPlatform.interface.encodeFunctionData("getTransactionCount"),
+      ].map((callData) => ({ target, allowFailure: true, callData }));
+
+      const results = await multicall.aggregate3.staticCall(calls);
+      expect(results[0].success).to.equal(false);
+      expect(results[1].success).to.equal(true);
+
+      await expect(
+        multicall.aggregate3.staticCall([{ ...calls[0], allowFailure: false }])
+      ).to.be.revertedWith("Multicall3: call failed");
+    });
   });
 
   describe("Events", function () {
@@ -0,0 +1,218 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+describe("SpendingLimits", function () {
+  let financialPlatform;
+  let spendingLimits;
+  let owner;
+  let user1, user2, user3;
+
+  // Noon UTC on the first day of the month after the latest block, so tests
+  // don't straddle a day or month boundary
+  async function startOfNextMonth() {
+    const now = new Date((await time.latest()) * 1000);
+    return Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1, 12) / 1000;
+  }
+
+  beforeEach(async function () {
+    [owner, user1, user2, user3] = await ethers.getSigners();
+
+    const FinancialPlatform = await ethers.getContractFactory("FinancialPlatform");
+    const SpendingLimits = await ethers.getContractFactory("SpendingLimits");
+
+    financialPlatform = await FinancialPlatform.deploy();
+    spendingLimits = await SpendingLimits.deploy(await financialPlatform.getAddress());
+    await financialPlatform.setSpendingLimits(await spendingLimits.getAddress());
+
+    await financialPlatform.registerUser(
+      await user1.getAddress(),
+      "John Manager",
+      "john.manager@company.com",
+      1 // Manager
+    );
+
+    await financialPlatform.registerUser(
+      await user2.getAddress(),
+      "Alice User",
+      "alice.user@company.com",
+      0 // Regular
+    );
+
+    await time.increaseTo(await startOfNextMonth());
+  });
+
+  function send(signer, amount) {
+    return financialPlatform.connect(signer).createTransaction(user3.address, ethers.parseEther(amount), "Payment");
+  }
+
+  describe("Role Limits", function () {
+    beforeEach(async function () {
+      await spendingLimits.setRoleLimit(0, ethers.parseEther("1000"), ethers.parseEther("2500"));
+    });
+
+    it("Should cap the daily total for users with the role", async function () {
+      await send(user2, "600");
+      await send(user2, "400");
+      await expect(send(user2, "1")).to.be.revertedWith("Daily limit exceeded");
+
+      // Managers have no limit set
+      await send(user1, "5000");
+    });
+
+    it("Should reset the daily total the next day", async function () {
+      await send(user2, "1000");
+      await time.increase(24 * 3600);
+      await send(user2, "1000");
+    });
+
+    it("Should cap the monthly total across days", async function () {
+      await send(user2, "1000");
+      await time.increase(24 * 3600);
+      await send(user2, "1000");
+      await time.increase(24 * 3600);
+      await expect(send(user2, "600")).to.be.revertedWith("Monthly limit exceeded");
+      await send(user2, "500");
+    });
+
+    it("Should not count transactions in other tokens", async function () {
+      const MockToken = await ethers.getContractFactory("MockToken");
+      const euroToken = await MockToken.deploy("Euro Token", "EURT", 1000000);
+      const TokenAllowlist = await ethers.getContractFactory("TokenAllowlist");
+      const tokenAllowlist = await TokenAllowlist.deploy(await financialPlatform.getAddress());
+      await financialPlatform.setTokenAllowlist(await tokenAllowlist.getAddress());
+      await tokenAllowlist.setTokenAllowed(await euroToken.getAddress(), true);
+
+      await send(user2, "1000");
+      await financialPlatform
+        .connect(user2)
+        .createTokenTransaction(user3.address, await euroToken.getAddress(), ethers.parseEther("5000"), "Euro payment");
+    });
+
+    it("Should report the remaining limits", async function () {
+      await send(user2, "300");
+
+      const [daily, monthly] = await spendingLimits.getRemaining(await user2.getAddress());
+      expect(daily).to.equal(ethers.parseEther("700"));
+      expect(monthly).to.equal(ethers.parseEther("2200"));
+
+      const [managerDaily] = await spendingLimits.getRemaining(await user1.getAddress());
+      expect(managerDaily).to.equal(ethers.MaxUint256);
+    });
+  });
+
+  describe("Released Spending", function () {
+    beforeEach(async function () {
+      await spendingLimits.setRoleLimit(0, ethers.parseEther("1000"), ethers.parseEther("2500"));
+    });
+
+    it("Should give back cancelled transactions", async function () {
+      await send(user2, "600");
+      await expect(financialPlatform.connect(user2).cancelTransaction(1))
+        .to.emit(spendingLimits, "SpendReleased")
+        .withArgs(await user2.getAddress(), ethers.parseEther("600"), 0, 0);
+
+      await send(user2, "1000");
+    });
+
+    it("Should give back rejected and expired transactions", async function () {
+      await financialPlatform.setApprovalDeadline(3600);
+      await send(user2, "600");
+      await financialPlatform.connect(user2).requestApproval(1, "Need approval");
+      await financialPlatform.connect(user1).processApproval(1, false, "Rejected");
+
+      await send(user2, "400");
+      await financialPlatform.connect(user2).requestApproval(2, "Need approval");
+      await time.increase(3600);
+      await financialPlatform.expireApproval(2);
+
+      const [daily, monthly] = await spendingLimits.getRemaining(await user2.getAddress());
+      expect(daily).to.equal(ethers.parseEther("1000"));
+      expect(monthly).to.equal(ethers.parseEther("2500"));
+    });
+
+    it("Should only reduce the periods the spend was recorded in", async function () {
+      await send(user2, "1000");
+      await time.increase(24 * 3600);
+      await send(user2, "1000");
+      await financialPlatform.connect(user2).cancelTransaction(1);
+
+      // Today's spending is unchanged; the month gets the amount back
+      await expect(send(user2, "1")).to.be.revertedWith("Daily limit exceeded");
+      const [, monthly] = await spendingLimits.getRemaining(await user2.getAddress());
+      expect(monthly).to.equal(ethers.parseEther("1500"));
+    });
+
+    it("Should not release spending recorded by replaced limits", async function () {
+      const SpendingLimits = await ethers.getContractFactory("SpendingLimits");
+      const newLimits = await SpendingLimits.deploy(await financialPlatform.getAddress());
+      await newLimits.setRoleLimit(0, ethers.parseEther("1000"), ethers.parseEther("2500"));
+
+      await send(user2, "600");
+      await financialPlatform.setSpendingLimits(await newLimits.getAddress());
+      await send(user2, "400");
+
+      await expect(financialPlatform.connect(user2).cancelTransaction(1))
+        .to.not.emit(newLimits, "SpendReleased");
+      const [daily] = await newLimits.getRemaining(await user2.getAddress());
+      expect(daily).to.equal(ethers.parseEther("600"));
+    });
+  });
+
+  describe("User Limits", function () {
+    it("Should replace the role limits for that user", async function () {
+      await spendingLimits.setRoleLimit(0, ethers.parseEther("1000"), 0);
+      await expect(spendingLimits.setUserLimit(await user2.getAddress(), ethers.parseEther("100"), 0))
+        .to.emit(spendingLimits, "UserLimitUpdated")
+        .withArgs(await user2.getAddress(), ethers.parseEther("100"), 0);
+
+      await expect(send(user2, "101")).to.be.revertedWith("Daily limit exceeded");
+
+      await expect(spendingLimits.removeUserLimit(await user2.getAddress()))
+        .to.emit(spendingLimits, "UserLimitRemoved")
+        .withArgs(await user2.getAddress());
+      await send(user2, "1000");
+    });
+
+    it("Should only apply to registered users", async function () {
+      await expect(
+        spendingLimits.setUserLimit(await user3.getAddress(), 1, 1)
+      ).to.be.revertedWith("User not registered");
+      await expect(
+        spendingLimits.removeUserLimit(await user2.getAddress())
+      ).to.be.revertedWith("No user limit");
+    });
+  });
+
+  describe("Access Control", function () {
+    it("Should only let admins change limits", async function () {
+      await expect(
+        spendingLimits.connect(user1).setRoleLimit(0, 1, 1)
+      ).to.be.revertedWith("Admin role required");
+      await expect(
+        spendingLimits.connect(user1).setUserLimit(await user2.getAddress(), 1, 1)
+      ).to.be.revertedWith("Admin role required");
+      await expect(
+        financialPlatform.connect(user1).setSpendingLimits(ethers.ZeroAddress)
+      ).to.be.revertedWith("Admin role required");
+    });
+
+    it("Should only let the platform record and release spending", async function () {
+      await expect(
+        spendingLimits.recordSpend(await user2.getAddress(), 1)
+      ).to.be.revertedWith("Only platform");
+      await expect(
+        spendingLimits.releaseSpend(await user2.getAddress(), 1, await time.latest())
+      ).to.be.revertedWith("Only platform");
+    });
+
+    it("Should stop enforcing limits once removed from the platform", async function () {
+      await spendingLimits.setRoleLimit(0, ethers.parseEther("100"), 0);
+      await expect(financialPlatform.setSpendingLimits(ethers.ZeroAddress))
+        .to.emit(financialPlatform, "SpendingLimitsUpdated")
+        .withArgs(ethers.ZeroAddress);
+
+      await send(user2, "1000");
+    });
+  });
+});
@@ -0,0 +1,250 @@
+const { expect } = require("chai");
+const { ethers } = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+describe("TransactionScheduler", function () {
+  const DAY = 24n * 3600n;
+
+  let financialPlatform;
+  let scheduler;
+  let mockToken;
+  let owner;
+  let user1, user2, user3;
+
+  beforeEach(async function () {
+    [owner, user1, user2, user3] = await ethers.getSigners();
+
+    const FinancialPlatform = await ethers.getContractFactory("FinancialPlatform");
+    const TransactionScheduler = await ethers.getContractFactory("TransactionScheduler");
+    const MockToken = await ethers.getContractFactory("MockToken");
+
+    financialPlatform = await FinancialPlatform.deploy();
+    scheduler = await TransactionScheduler.deploy(await financialPlatform.getAddress());
+    mockToken = await MockToken.deploy("Platform Token", "PLT", 1000000);
+    await financialPlatform.setSettlementToken(await mockToken.getAddress());
+    await financialPlatform.setTransactionScheduler(await scheduler.getAddress());
+
+    await financialPlatform.registerUser(
+      await user1.getAddress(),
+      "Alice User",
+      "alice.user@company.com",
+      0 // Regular
+    );
+
+    await financialPlatform.registerUser(
+      await user2.getAddress(),
+      "Bob User",
+      "bob.user@company.com",
+      0 // Regular
+    );
+  });
+
+  describe("Schedule Creation", function () {
+    it("Should create a schedule due immediately by default", async function () {
+      await expect(
+        scheduler.connect(user1).createSchedule(
+          await user2.getAddress(),
+          ethers.parseEther("2500"),
+          "Monthly salary payment",
+          30n * DAY,
+          0,
+          0,
+          12
+        )
+      )
+        .to.emit(scheduler, "ScheduleCreated")
+        .withArgs(1, await user1.getAddress(), await user2.getAddress(), ethers.parseEther("2500"), 30n * DAY);
+
+      const schedule = await scheduler.getSchedule(1);
+      expect(schedule.owner).to.equal(await user1.getAddress());
+      expect(schedule.token).to.equal(await mockToken.getAddress());
+      expect(schedule.maxOccurrences).to.equal(12);
+      expect(schedule.active).to.equal(true);
+      expect(await scheduler.isDue(1)).to.equal(true);
+      expect(await scheduler.getUserSchedules(await user1.getAddress())).to.deep.equal([1n]);
+      expect(await scheduler.getDueSchedules()).to.deep.equal([1n]);
+    });
+
+    it("Should not be due before the start date", async function () {
+      const startsAt = BigInt(await time.latest()) + DAY;
+      await scheduler.connect(user1).createSchedule(
+        await user2.getAddress(),
+        ethers.parseEther("100"),
+        "Vendor payment",
+        7n * DAY,
+        startsAt,
+        0,
+        0
+      );
+
+      expect(await scheduler.isDue(1)).to.equal(false);
+      await time.increaseTo(startsAt);
+      expect(await scheduler.isDue(1)).to.equal(true);
+    });
+
+    it("Should validate the template", async function () {
+      await expect(
+        scheduler.connect(user3).createSchedule(await user2.getAddress(), 1, "Payment", DAY, 0, 0, 0)
+      ).to.be.revertedWith("User not registered");
+      await expect(
+        scheduler.connect(user1).createSchedule(await user2.getAddress(), 0, "Payment", DAY, 0, 0, 0)
+      ).to.be.revertedWith("Amount must be greater than 0");
+      await expect(
+        scheduler.connect(user1).createSchedule(await user2.getAddress(), 1, "Payment", 60, 0, 0, 0)
+      ).to.be.revertedWith("Interval too short");
+
+      const startsAt = BigInt(await time.latest()) + DAY;
+      await expect(
+        scheduler.connect(user1).createSchedule(await user2.getAddress(), 1, "Payment", DAY, startsAt, startsAt - 1n, 0)
+      ).to.be.revertedWith("End date before start");
+    });
+  });
+
+  describe("Execution", function () {
+    beforeEach(async function () {
+      await scheduler.connect(user1).createSchedule(
+        await user2.getAddress(),
+        ethers.parseEther("2500"),
+        "Monthly salary payment",
+        30n * DAY,
+        0,
+        0,
+        2
+      );
+    });
+
+    it("Should create the transaction from the owner and advance the schedule", async function () {
+      const { nextRunAt } = await scheduler.getSchedule(1);
+
+      await expect(scheduler.connect(user3).executeSchedule(1))
+        .to.emit(scheduler, "ScheduleExecuted")
+        .withArgs(1, 1, 1)
+        .and.to.emit(financialPlatform, "TransactionCreated")
+        .withArgs(1, await user1.getAddress(), await user2.getAddress(), ethers.parseEther("2500"));
+
+      const transaction = await financialPlatform.getTransaction(1);
+      expect(transaction.token).to.equal(await mockToken.getAddress());
+      expect(transaction.description).to.equal("Monthly salary payment");
+      expect(await financialPlatform.getUserTransactions(await user1.getAddress())).to.deep.equal([1n]);
+
+      const schedule = await scheduler.getSchedule(1);
+      expect(schedule.occurrences).to.equal(1);
+      expect(schedule.nextRunAt).to.equal(nextRunAt + 30n * DAY);
+      expect(await scheduler.isDue(1)).to.equal(false);
+      expect(await scheduler.isScheduledTransaction(1)).to.equal(true);
+    });
+
+    it("Should request approval on behalf of the owner", async function () {
+      await financialPlatform.setApprovalTiers(true, ethers.parseEther("100"), ethers.parseEther("10000"));
+
+      await expect(scheduler.executeSchedule(1))
+        .to.emit(financialPlatform, "ApprovalRequested")
+        .withArgs(1, 1, await user1.getAddress());
+      expect((await financialPlatform.getApproval(1)).requester).to.equal(await user1.getAddress());
+    });
+
+    it("Should complete after the maximum occurrences", async function () {
+      await scheduler.executeSchedule(1);
+      await time.increase(30n * DAY);
+
+      await expect(scheduler.executeSchedule(1)).to.emit(scheduler, "ScheduleCompleted").withArgs(1);
+
+      expect((await scheduler.getSchedule(1)).active).to.equal(false);
+      await time.increase(30n * DAY);
+      expect(await scheduler.isDue(1)).to.equal(false);
+    });
+
+    it("Should complete once the next run passes the end date", async function () {
+      const endsAt = BigInt(await time.latest()) + 45n * DAY;
+      await scheduler.connect(user1).createSchedule(
+        await user2.getAddress(),
+        ethers.parseEther("100"),
+        "Vendor payment",
+        30n * DAY,
+        0,
+        endsAt,
+        0
+      );
+
+      await scheduler.executeSchedule(2);
+      await time.increase(30n * DAY);
+
+      await expect(scheduler.executeSchedule(2)).to.emit(scheduler, "ScheduleCompleted").withArgs(2);
+    });
+
+    it("Should not execute before the next occurrence is due", async function () {
+      await scheduler.executeSchedule(1);
+      await expect(scheduler.executeSchedule(1)).to.be.revertedWith("Schedule not due");
+
+      // A payment the owner makes by hand doesn't count as an occurrence
+      await time.increase(30n * DAY);
+      await financialPlatform
+        .connect(user1)
+        .createTransaction(await user2.getAddress(), ethers.parseEther("2500"), "Monthly salary payment");
+      expect(await scheduler.isScheduledTransaction(2)).to.equal(false);
+      expect(await scheduler.isDue(1)).to.equal(true);
+    });
+
+    it("Should only create transactions through the configured scheduler", async function () {
+      await expect(
+        financialPlatform
+          .connect(user1)
+          .createScheduledTransaction(
+            await user1.getAddress(),
+            await user2.getAddress(),
+            await mockToken.getAddress(),
+            1,
+            "Payment"
+          )
+      ).to.be.revertedWith("Only the transaction scheduler");
+
+      await expect(
+        financialPlatform.connect(user1).setTransactionScheduler(await user1.getAddress())
+      ).to.be.revertedWith("Admin role required");
+      await expect(financialPlatform.setTransactionScheduler(ethers.ZeroAddress))
+        .to.emit(financialPlatform, "TransactionSchedulerChanged")
+        .withArgs(ethers.ZeroAddress);
+      await expect(scheduler.executeSchedule(1)).to.be.revertedWith("Only the transaction scheduler");
+    });
+
+    it("Should not execute for a deactivated owner", async function () {
+      await financialPlatform.deactivateUser(await user1.getAddress());
+      await expect(scheduler.executeSchedule(1)).to.be.revertedWith("User not active");
+    });
+  });
+
+  describe("Cancellation", function () {
+    beforeEach(async function () {
+      await scheduler.connect(user1).createSchedule(
+        await user2.getAddress(),
+        ethers.parseEther("100"),
+        "Vendor payment",
+        7n * DAY,
+        0,
+        0,
+        0
+      );
+    });
+
+    it("Should let the owner cancel a schedule", async function () {
+      await expect(scheduler.connect(user1).cancelSchedule(1))
+        .to.emit(scheduler, "ScheduleCancelled")
+        .withArgs(1);
+
+      expect(await scheduler.isDue(1)).to.equal(false);
+      expect(await scheduler.getDueSchedules()).to.deep.equal([]);
+      await expect(
+        scheduler.connect(user1).cancelSchedule(1)
+      ).to.be.revertedWith("Schedule not active");
+    });
+
+    it("Should only allow the owner to cancel", async function () {
+      await expect(
+        scheduler.connect(user2).cancelSchedule(1)
+      ).to.be.revertedWith("Not schedule owner");
+      await expect(
+        scheduler.connect(user1).cancelSchedule(2)
+      ).to.be.revertedWith("Schedule does not exist");
+    });
+  });
+});